@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "OrderStatus" AS ENUM ('AWAITING_PAYMENT', 'TO_SHIP', 'SHIPPED', 'DELIVERED', 'COMPLETED', 'CANCELLED');
+
+-- AlterTable: converte os textos livres antigos para o enum
+ALTER TABLE "Order" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "Order" ALTER COLUMN "status" TYPE "OrderStatus" USING (
+    CASE "status"
+        WHEN 'A Pagar' THEN 'AWAITING_PAYMENT'
+        WHEN 'A Enviar' THEN 'TO_SHIP'
+        WHEN 'Enviando' THEN 'SHIPPED'
+        WHEN 'Enviado' THEN 'SHIPPED'
+        WHEN 'Entregue' THEN 'DELIVERED'
+        WHEN 'Concluído' THEN 'COMPLETED'
+        WHEN 'Cancelado' THEN 'CANCELLED'
+        ELSE 'TO_SHIP'
+    END
+)::"OrderStatus";
+ALTER TABLE "Order" ALTER COLUMN "status" SET DEFAULT 'TO_SHIP';
+
+-- CreateTable
+CREATE TABLE "OrderStatusHistory" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "fromStatus" "OrderStatus",
+    "toStatus" "OrderStatus" NOT NULL,
+    "actorId" TEXT,
+    "actorRole" TEXT NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderStatusHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- Histórico inicial para os pedidos que já existem
+INSERT INTO "OrderStatusHistory" ("id", "orderId", "fromStatus", "toStatus", "actorId", "actorRole", "note", "createdAt")
+SELECT gen_random_uuid()::text, "id", NULL, "status", NULL, 'SYSTEM', 'Migração do status legado', "date"
+FROM "Order";
+
+-- CreateIndex
+CREATE INDEX "OrderStatusHistory_orderId_idx" ON "OrderStatusHistory"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "OrderStatusHistory" ADD CONSTRAINT "OrderStatusHistory_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderStatusHistory" ADD CONSTRAINT "OrderStatusHistory_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
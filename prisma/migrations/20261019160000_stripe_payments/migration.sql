@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED', 'CANCELED');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "paymentIntentId" TEXT,
+ADD COLUMN "paymentStatus" "PaymentStatus" NOT NULL DEFAULT 'PENDING',
+ALTER COLUMN "status" SET DEFAULT 'AWAITING_PAYMENT';
+
+-- Pedidos antigos que já seguiram adiante são tratados como pagos
+UPDATE "Order" SET "paymentStatus" = 'SUCCEEDED' WHERE "status" IN ('TO_SHIP', 'SHIPPED', 'DELIVERED', 'COMPLETED');
+
+-- CreateTable
+CREATE TABLE "StripeEvent" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "processedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StripeEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_paymentIntentId_key" ON "Order"("paymentIntentId");
@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "ShopOrder" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "subtotal" DOUBLE PRECISION NOT NULL,
+    "shippingCost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "status" "OrderStatus" NOT NULL DEFAULT 'AWAITING_PAYMENT',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShopOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN "shopOrderId" TEXT;
+
+-- AlterTable
+ALTER TABLE "OrderStatusHistory" ADD COLUMN "shopOrderId" TEXT;
+
+-- Quebra os pedidos existentes em um grupo por loja, herdando o status do pedido
+INSERT INTO "ShopOrder" ("id", "orderId", "shopId", "subtotal", "shippingCost", "status", "createdAt")
+SELECT gen_random_uuid()::text, oi."orderId", p."shopId", ROUND(SUM(oi."price" * oi."quantity")::numeric, 2)::double precision, 0, o."status", o."date"
+FROM "OrderItem" oi
+JOIN "Product" p ON p."id" = oi."productId"
+JOIN "Order" o ON o."id" = oi."orderId"
+WHERE p."shopId" IS NOT NULL
+GROUP BY oi."orderId", p."shopId", o."status", o."date";
+
+UPDATE "OrderItem" oi
+SET "shopOrderId" = so."id"
+FROM "Product" p, "ShopOrder" so
+WHERE p."id" = oi."productId" AND so."orderId" = oi."orderId" AND so."shopId" = p."shopId";
+
+-- CreateIndex
+CREATE INDEX "ShopOrder_shopId_idx" ON "ShopOrder"("shopId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShopOrder_orderId_shopId_key" ON "ShopOrder"("orderId", "shopId");
+
+-- AddForeignKey
+ALTER TABLE "ShopOrder" ADD CONSTRAINT "ShopOrder_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShopOrder" ADD CONSTRAINT "ShopOrder_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderStatusHistory" ADD CONSTRAINT "OrderStatusHistory_shopOrderId_fkey" FOREIGN KEY ("shopOrderId") REFERENCES "ShopOrder"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_shopOrderId_fkey" FOREIGN KEY ("shopOrderId") REFERENCES "ShopOrder"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "ProductVariant" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "options" JSONB NOT NULL,
+    "name" TEXT NOT NULL,
+    "sku" TEXT,
+    "price" DOUBLE PRECISION,
+    "stock" INTEGER NOT NULL DEFAULT 0,
+    "image" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "CartItem" ADD COLUMN "variantId" TEXT;
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN "variantId" TEXT,
+ADD COLUMN "variantName" TEXT;
+
+-- Cada texto de "variations" vira uma variante. O estoque do produto é dividido
+-- igualmente entre elas (a sobra vai para as primeiras), preservando o total.
+INSERT INTO "ProductVariant" ("id", "productId", "options", "name", "stock", "active", "createdAt")
+SELECT
+    gen_random_uuid()::text,
+    p."id",
+    jsonb_build_object('opcao', v.value),
+    v.value,
+    (p."stock" / cardinality(p."variations")) + CASE WHEN v.idx <= (p."stock" % cardinality(p."variations")) THEN 1 ELSE 0 END,
+    true,
+    CURRENT_TIMESTAMP
+FROM "Product" p
+CROSS JOIN LATERAL unnest(p."variations") WITH ORDINALITY AS v(value, idx)
+WHERE cardinality(p."variations") > 0;
+
+-- AlterTable
+ALTER TABLE "Product" DROP COLUMN "variations";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductVariant_sku_key" ON "ProductVariant"("sku");
+
+-- CreateIndex
+CREATE INDEX "ProductVariant_productId_idx" ON "ProductVariant"("productId");
+
+-- AddForeignKey
+ALTER TABLE "ProductVariant" ADD CONSTRAINT "ProductVariant_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CartItem" ADD CONSTRAINT "CartItem_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
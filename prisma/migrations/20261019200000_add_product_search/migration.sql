@@ -0,0 +1,46 @@
+-- Busca textual em português que ignora acentos ("calca" encontra "calça")
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+CREATE TEXT SEARCH CONFIGURATION pt_unaccent ( COPY = portuguese );
+ALTER TEXT SEARCH CONFIGURATION pt_unaccent
+    ALTER MAPPING FOR hword, hword_part, word WITH unaccent, portuguese_stem;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "searchVector" tsvector;
+
+-- Nome pesa mais que o nome da loja, que pesa mais que a descrição
+CREATE FUNCTION product_search_vector_refresh() RETURNS trigger AS $$
+BEGIN
+    NEW."searchVector" :=
+        setweight(to_tsvector('pt_unaccent', coalesce(NEW."name", '')), 'A') ||
+        setweight(to_tsvector('pt_unaccent', coalesce((SELECT "name" FROM "Shop" WHERE "id" = NEW."shopId"), '')), 'B') ||
+        setweight(to_tsvector('pt_unaccent', coalesce(NEW."description", '')), 'C');
+    RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Product_searchVector_refresh"
+    BEFORE INSERT OR UPDATE OF "name", "description", "shopId" ON "Product"
+    FOR EACH ROW EXECUTE FUNCTION product_search_vector_refresh();
+
+-- Renomear a loja reindexa os produtos dela
+CREATE FUNCTION shop_name_search_refresh() RETURNS trigger AS $$
+BEGIN
+    UPDATE "Product" SET "name" = "name" WHERE "shopId" = NEW."id";
+    RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Shop_name_search_refresh"
+    AFTER UPDATE OF "name" ON "Shop"
+    FOR EACH ROW WHEN (OLD."name" IS DISTINCT FROM NEW."name")
+    EXECUTE FUNCTION shop_name_search_refresh();
+
+-- Preenche o índice dos produtos que já existem
+UPDATE "Product" SET "name" = "name";
+
+-- CreateIndex
+CREATE INDEX "Product_searchVector_idx" ON "Product" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Product_category_idx" ON "Product"("category");
@@ -0,0 +1,69 @@
+-- AlterEnum
+ALTER TYPE "Role" ADD VALUE 'ADMIN';
+
+-- CreateTable
+CREATE TABLE "Category" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "image" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "parentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Category_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Category_slug_key" ON "Category"("slug");
+
+-- CreateIndex
+CREATE INDEX "Category_parentId_idx" ON "Category"("parentId");
+
+-- Uma categoria por texto distinto, ignorando maiúsculas, acentos e espaços
+-- ("Roupas" e "roupas" viram a mesma). O nome é a grafia mais usada.
+INSERT INTO "Category" ("id", "name", "slug")
+SELECT gen_random_uuid()::text, mode() WITHIN GROUP (ORDER BY trim("category")), slug
+FROM (
+    SELECT "category", trim(both '-' from lower(regexp_replace(unaccent(trim("category")), '[^a-zA-Z0-9]+', '-', 'g'))) AS slug
+    FROM "Product"
+) AS legacy
+WHERE slug <> ''
+GROUP BY slug;
+
+-- Produtos sem categoria legível caem em "Outros"
+INSERT INTO "Category" ("id", "name", "slug")
+SELECT gen_random_uuid()::text, 'Outros', 'outros'
+WHERE EXISTS (
+    SELECT 1 FROM "Product"
+    WHERE trim(both '-' from lower(regexp_replace(unaccent(trim("category")), '[^a-zA-Z0-9]+', '-', 'g'))) = ''
+)
+ON CONFLICT ("slug") DO NOTHING;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "categoryId" TEXT;
+
+UPDATE "Product" p
+SET "categoryId" = c."id"
+FROM "Category" c
+WHERE c."slug" = coalesce(
+    nullif(trim(both '-' from lower(regexp_replace(unaccent(trim(p."category")), '[^a-zA-Z0-9]+', '-', 'g'))), ''),
+    'outros'
+);
+
+ALTER TABLE "Product" ALTER COLUMN "categoryId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "Product_category_idx";
+
+-- AlterTable
+ALTER TABLE "Product" DROP COLUMN "category";
+
+-- CreateIndex
+CREATE INDEX "Product_categoryId_idx" ON "Product"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Product" ADD CONSTRAINT "Product_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
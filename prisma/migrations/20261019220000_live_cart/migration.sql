@@ -0,0 +1,19 @@
+-- Itens que apontam para produtos ou utilizadores que já não existem não têm como ser reprecificados
+DELETE FROM "CartItem" WHERE "productId" NOT IN (SELECT "id" FROM "Product");
+DELETE FROM "CartItem" WHERE "userId" NOT IN (SELECT "id" FROM "User");
+
+-- AlterTable
+ALTER TABLE "CartItem" ALTER COLUMN "userId" DROP NOT NULL,
+ADD COLUMN     "cartToken" TEXT;
+
+-- CreateIndex
+CREATE INDEX "CartItem_userId_idx" ON "CartItem"("userId");
+
+-- CreateIndex
+CREATE INDEX "CartItem_cartToken_idx" ON "CartItem"("cartToken");
+
+-- AddForeignKey
+ALTER TABLE "CartItem" ADD CONSTRAINT "CartItem_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CartItem" ADD CONSTRAINT "CartItem_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
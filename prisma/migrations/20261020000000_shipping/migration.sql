@@ -0,0 +1,85 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "height" DOUBLE PRECISION NOT NULL DEFAULT 5,
+ADD COLUMN     "length" DOUBLE PRECISION NOT NULL DEFAULT 20,
+ADD COLUMN     "weight" DOUBLE PRECISION NOT NULL DEFAULT 0.5,
+ADD COLUMN     "width" DOUBLE PRECISION NOT NULL DEFAULT 15;
+
+-- AlterTable
+ALTER TABLE "Order" ALTER COLUMN "addressId" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "ShopOrder" ADD COLUMN     "shippingDays" INTEGER,
+ADD COLUMN     "shippingService" TEXT;
+
+-- CreateTable
+CREATE TABLE "OrderAddress" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "street" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "complement" TEXT,
+    "neighborhood" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "zipCode" TEXT NOT NULL,
+
+    CONSTRAINT "OrderAddress_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Shipment" (
+    "id" TEXT NOT NULL,
+    "shopOrderId" TEXT NOT NULL,
+    "carrier" TEXT NOT NULL,
+    "trackingCode" TEXT NOT NULL,
+    "shippedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "deliveredAt" TIMESTAMP(3),
+
+    CONSTRAINT "Shipment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShipmentEvent" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "location" TEXT,
+    "occurredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShipmentEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderAddress_orderId_key" ON "OrderAddress"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Shipment_shopOrderId_key" ON "Shipment"("shopOrderId");
+
+-- CreateIndex
+CREATE INDEX "ShipmentEvent_shipmentId_idx" ON "ShipmentEvent"("shipmentId");
+
+-- Pedidos antigos: copia o endereço que ainda existir; os que apontam para endereços
+-- já apagados ficam sem cópia e perdem a referência
+INSERT INTO "OrderAddress" ("id", "orderId", "recipient", "street", "number", "complement", "neighborhood", "city", "state", "zipCode")
+SELECT gen_random_uuid()::text, o."id", u."name", a."street", a."number", a."complement", a."neighborhood", a."city", a."state", a."zipCode"
+FROM "Order" o
+JOIN "Address" a ON a."id" = o."addressId"
+JOIN "User" u ON u."id" = o."customerId";
+
+UPDATE "Order" SET "addressId" = NULL
+WHERE "addressId" IS NOT NULL AND "addressId" NOT IN (SELECT "id" FROM "Address");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_addressId_fkey" FOREIGN KEY ("addressId") REFERENCES "Address"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderAddress" ADD CONSTRAINT "OrderAddress_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Shipment" ADD CONSTRAINT "Shipment_shopOrderId_fkey" FOREIGN KEY ("shopOrderId") REFERENCES "ShopOrder"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShipmentEvent" ADD CONSTRAINT "ShipmentEvent_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,109 @@
+-- CreateEnum
+CREATE TYPE "LedgerAccount" AS ENUM ('CUSTOMER_FUNDS', 'SHOP_PENDING', 'SHOP_AVAILABLE', 'PLATFORM_COMMISSION', 'PAYOUTS');
+
+-- CreateEnum
+CREATE TYPE "LedgerTransactionType" AS ENUM ('SALE', 'COMMISSION', 'RELEASE', 'REFUND', 'PAYOUT', 'PAYOUT_REVERSAL');
+
+-- CreateEnum
+CREATE TYPE "PayoutStatus" AS ENUM ('PENDING', 'PAID', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Shop" ADD COLUMN     "commissionRate" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN     "commissionRate" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "LedgerTransaction" (
+    "id" TEXT NOT NULL,
+    "type" "LedgerTransactionType" NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "shopOrderId" TEXT,
+    "payoutId" TEXT,
+    "description" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LedgerEntry" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "account" "LedgerAccount" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Payout" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "status" "PayoutStatus" NOT NULL DEFAULT 'PENDING',
+    "provider" TEXT NOT NULL,
+    "reference" TEXT,
+    "failureReason" TEXT,
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "paidAt" TIMESTAMP(3),
+
+    CONSTRAINT "Payout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LedgerTransaction_shopId_createdAt_idx" ON "LedgerTransaction"("shopId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LedgerTransaction_shopOrderId_idx" ON "LedgerTransaction"("shopOrderId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_shopId_account_idx" ON "LedgerEntry"("shopId", "account");
+
+-- CreateIndex
+CREATE INDEX "Payout_shopId_idx" ON "Payout"("shopId");
+
+-- AddForeignKey
+ALTER TABLE "LedgerTransaction" ADD CONSTRAINT "LedgerTransaction_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerTransaction" ADD CONSTRAINT "LedgerTransaction_shopOrderId_fkey" FOREIGN KEY ("shopOrderId") REFERENCES "ShopOrder"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerTransaction" ADD CONSTRAINT "LedgerTransaction_payoutId_fkey" FOREIGN KEY ("payoutId") REFERENCES "Payout"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "LedgerTransaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payout" ADD CONSTRAINT "Payout_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Vendas já pagas entram no livro com a comissão fixa de 10% que valia até aqui.
+-- As concluídas eram exibidas como "Liberado", então também são liberadas
+INSERT INTO "LedgerTransaction" ("id", "type", "shopId", "shopOrderId", "description", "createdAt")
+SELECT gen_random_uuid()::text, t."type"::"LedgerTransactionType", so."shopId", so."id", t."description", so."createdAt"
+FROM "ShopOrder" so
+CROSS JOIN (VALUES ('SALE', 'Venda'), ('COMMISSION', 'Comissão da plataforma'), ('RELEASE', 'Saldo liberado')) AS t("type", "description")
+WHERE so."status" IN ('TO_SHIP', 'SHIPPED', 'DELIVERED', 'COMPLETED')
+  AND (t."type" <> 'RELEASE' OR so."status" = 'COMPLETED');
+
+INSERT INTO "LedgerEntry" ("id", "transactionId", "shopId", "account", "amount")
+SELECT gen_random_uuid()::text, lt."id", lt."shopId", e."account"::"LedgerAccount", e."amount"
+FROM "LedgerTransaction" lt
+JOIN "ShopOrder" so ON so."id" = lt."shopOrderId"
+CROSS JOIN LATERAL (
+    SELECT
+        round((so."subtotal" - so."discount" + so."shippingCost" - so."shippingDiscount")::numeric, 2)::float8 AS gross,
+        round(((so."subtotal" - so."discount") * 0.10)::numeric, 2)::float8 AS commission
+) AS v
+CROSS JOIN LATERAL (
+    VALUES
+        ('SALE', 'CUSTOMER_FUNDS', v.gross),
+        ('SALE', 'SHOP_PENDING', -v.gross),
+        ('COMMISSION', 'SHOP_PENDING', v.commission),
+        ('COMMISSION', 'PLATFORM_COMMISSION', -v.commission),
+        ('RELEASE', 'SHOP_PENDING', v.gross - v.commission),
+        ('RELEASE', 'SHOP_AVAILABLE', -(v.gross - v.commission))
+) AS e("type", "account", "amount")
+WHERE e."type" = lt."type"::text;
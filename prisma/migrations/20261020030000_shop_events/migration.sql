@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "ShopEventType" AS ENUM ('ORDER_PLACED', 'ORDER_STATUS_CHANGED', 'PAYMENT_CONFIRMED', 'LOW_STOCK');
+
+-- CreateTable
+CREATE TABLE "ShopEvent" (
+    "id" SERIAL NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "type" "ShopEventType" NOT NULL,
+    "data" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShopEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShopEvent_shopId_id_idx" ON "ShopEvent"("shopId", "id");
+
+-- CreateIndex
+CREATE INDEX "ShopEvent_createdAt_idx" ON "ShopEvent"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ShopEvent" ADD CONSTRAINT "ShopEvent_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "StockMovementType" AS ENUM ('SALE', 'CANCELLATION', 'RETURN', 'ADJUSTMENT', 'IMPORT');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'LOW_STOCK';
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "lowStockThreshold" INTEGER,
+ADD COLUMN     "stockVersion" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "reservedUntil" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "StockMovement" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "type" "StockMovementType" NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "stockAfter" INTEGER NOT NULL,
+    "orderId" TEXT,
+    "actorId" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StockMovement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StockMovement_productId_createdAt_idx" ON "StockMovement"("productId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Estoque que já existia entra no histórico como ponto de partida (por variante, quando houver)
+INSERT INTO "StockMovement" ("id", "productId", "variantId", "type", "quantity", "stockAfter", "note")
+SELECT gen_random_uuid()::text, v."productId", v."id", 'IMPORT', v."stock", v."stock", 'Estoque existente antes do histórico'
+FROM "ProductVariant" v
+WHERE v."active" AND v."stock" > 0;
+
+INSERT INTO "StockMovement" ("id", "productId", "type", "quantity", "stockAfter", "note")
+SELECT gen_random_uuid()::text, p."id", 'IMPORT', p."stock", p."stock", 'Estoque existente antes do histórico'
+FROM "Product" p
+WHERE p."stock" > 0
+  AND NOT EXISTS (SELECT 1 FROM "ProductVariant" v WHERE v."productId" = p."id" AND v."active");
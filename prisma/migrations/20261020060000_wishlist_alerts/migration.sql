@@ -0,0 +1,36 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'PRICE_DROP';
+ALTER TYPE "NotificationType" ADD VALUE 'BACK_IN_STOCK';
+
+-- AlterTable
+ALTER TABLE "Favorite" ADD COLUMN "priceAtFavorite" DOUBLE PRECISION,
+ADD COLUMN "lastPriceAlertAt" TIMESTAMP(3),
+ADD COLUMN "lastStockAlertAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "PriceHistory" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PriceHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Favorite_productId_idx" ON "Favorite"("productId");
+
+-- CreateIndex
+CREATE INDEX "PriceHistory_productId_createdAt_idx" ON "PriceHistory"("productId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PriceHistory" ADD CONSTRAINT "PriceHistory_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Sem histórico anterior, o preço atual vale desde o cadastro e também como o preço ao favoritar
+INSERT INTO "PriceHistory" ("id", "productId", "price", "createdAt")
+SELECT gen_random_uuid()::text, p."id", p."price", p."createdAt"
+FROM "Product" p;
+
+UPDATE "Favorite" f SET "priceAtFavorite" = p."price"
+FROM "Product" p
+WHERE p."id" = f."productId";
@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "ShopStatus" AS ENUM ('PENDING', 'ACTIVE', 'SUSPENDED');
+
+-- CreateEnum
+CREATE TYPE "AdminAction" AS ENUM ('SHOP_APPROVED', 'SHOP_SUSPENDED', 'SHOP_COMMISSION_CHANGED', 'PRODUCT_UNPUBLISHED', 'PRODUCT_REPUBLISHED', 'CATEGORY_CREATED', 'CATEGORY_UPDATED', 'CATEGORY_DELETED', 'COUPON_CREATED', 'COUPON_UPDATED', 'COUPON_DELETED');
+
+-- CreateEnum
+CREATE TYPE "AuditTargetType" AS ENUM ('SHOP', 'PRODUCT', 'CATEGORY', 'COUPON');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'SHOP_APPROVED';
+ALTER TYPE "NotificationType" ADD VALUE 'SHOP_SUSPENDED';
+ALTER TYPE "NotificationType" ADD VALUE 'PRODUCT_UNPUBLISHED';
+
+-- AlterTable
+ALTER TABLE "Shop" ADD COLUMN "status" "ShopStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN "statusReason" TEXT,
+ADD COLUMN "moderatedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "unpublishedAt" TIMESTAMP(3),
+ADD COLUMN "unpublishedReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "AdminAuditLog" (
+    "id" TEXT NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "action" "AdminAction" NOT NULL,
+    "targetType" "AuditTargetType" NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "reason" TEXT,
+    "data" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AdminAuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AdminAuditLog_targetType_targetId_idx" ON "AdminAuditLog"("targetType", "targetId");
+
+-- CreateIndex
+CREATE INDEX "AdminAuditLog_createdAt_idx" ON "AdminAuditLog"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AdminAuditLog" ADD CONSTRAINT "AdminAuditLog_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- As lojas que já vendiam continuam no ar; só as novas passam pela aprovação
+UPDATE "Shop" SET "status" = 'ACTIVE', "moderatedAt" = CURRENT_TIMESTAMP;
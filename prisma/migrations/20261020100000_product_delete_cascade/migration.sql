@@ -0,0 +1,11 @@
+-- DropForeignKey
+ALTER TABLE "ProductVariant" DROP CONSTRAINT "ProductVariant_productId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "Favorite" DROP CONSTRAINT "Favorite_productId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "ProductVariant" ADD CONSTRAINT "ProductVariant_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Favorite" ADD CONSTRAINT "Favorite_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
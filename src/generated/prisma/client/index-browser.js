@@ -129,6 +129,28 @@ exports.Prisma.UserScalarFieldEnum = {
   cpf: 'cpf',
   phone: 'phone',
   birthdate: 'birthdate',
+  emailVerifiedAt: 'emailVerifiedAt',
+  deletedAt: 'deletedAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.UserTokenScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  type: 'type',
+  tokenHash: 'tokenHash',
+  email: 'email',
+  expiresAt: 'expiresAt',
+  usedAt: 'usedAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.RefreshTokenScalarFieldEnum = {
+  id: 'id',
+  tokenHash: 'tokenHash',
+  userId: 'userId',
+  expiresAt: 'expiresAt',
+  revokedAt: 'revokedAt',
   createdAt: 'createdAt'
 };
 
@@ -137,6 +159,10 @@ exports.Prisma.ShopScalarFieldEnum = {
   name: 'name',
   description: 'description',
   image: 'image',
+  commissionRate: 'commissionRate',
+  status: 'status',
+  statusReason: 'statusReason',
+  moderatedAt: 'moderatedAt',
   userId: 'userId',
   createdAt: 'createdAt'
 };
@@ -160,17 +186,48 @@ exports.Prisma.ProductScalarFieldEnum = {
   description: 'description',
   price: 'price',
   stock: 'stock',
-  category: 'category',
+  stockVersion: 'stockVersion',
+  lowStockThreshold: 'lowStockThreshold',
+  unpublishedAt: 'unpublishedAt',
+  unpublishedReason: 'unpublishedReason',
+  categoryId: 'categoryId',
   image: 'image',
   images: 'images',
-  variations: 'variations',
   rating: 'rating',
   reviews: 'reviews',
   sold: 'sold',
+  weight: 'weight',
+  length: 'length',
+  width: 'width',
+  height: 'height',
   shopId: 'shopId',
   createdAt: 'createdAt'
 };
 
+exports.Prisma.CategoryScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  slug: 'slug',
+  image: 'image',
+  position: 'position',
+  commissionRate: 'commissionRate',
+  parentId: 'parentId',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.ProductVariantScalarFieldEnum = {
+  id: 'id',
+  productId: 'productId',
+  options: 'options',
+  name: 'name',
+  sku: 'sku',
+  price: 'price',
+  stock: 'stock',
+  image: 'image',
+  active: 'active',
+  createdAt: 'createdAt'
+};
+
 exports.Prisma.OrderScalarFieldEnum = {
   id: 'id',
   customerId: 'customerId',
@@ -178,23 +235,92 @@ exports.Prisma.OrderScalarFieldEnum = {
   paymentMethod: 'paymentMethod',
   addressId: 'addressId',
   status: 'status',
+  paymentIntentId: 'paymentIntentId',
+  paymentStatus: 'paymentStatus',
+  couponId: 'couponId',
+  couponCode: 'couponCode',
+  discount: 'discount',
+  reservedUntil: 'reservedUntil',
   date: 'date'
 };
 
+exports.Prisma.ShopOrderScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  shopId: 'shopId',
+  subtotal: 'subtotal',
+  shippingCost: 'shippingCost',
+  discount: 'discount',
+  shippingDiscount: 'shippingDiscount',
+  shippingService: 'shippingService',
+  shippingDays: 'shippingDays',
+  status: 'status',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.OrderAddressScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  recipient: 'recipient',
+  street: 'street',
+  number: 'number',
+  complement: 'complement',
+  neighborhood: 'neighborhood',
+  city: 'city',
+  state: 'state',
+  zipCode: 'zipCode'
+};
+
+exports.Prisma.ShipmentScalarFieldEnum = {
+  id: 'id',
+  shopOrderId: 'shopOrderId',
+  carrier: 'carrier',
+  trackingCode: 'trackingCode',
+  shippedAt: 'shippedAt',
+  deliveredAt: 'deliveredAt'
+};
+
+exports.Prisma.ShipmentEventScalarFieldEnum = {
+  id: 'id',
+  shipmentId: 'shipmentId',
+  status: 'status',
+  description: 'description',
+  location: 'location',
+  occurredAt: 'occurredAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.OrderStatusHistoryScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  shopOrderId: 'shopOrderId',
+  fromStatus: 'fromStatus',
+  toStatus: 'toStatus',
+  actorId: 'actorId',
+  actorRole: 'actorRole',
+  note: 'note',
+  createdAt: 'createdAt'
+};
+
 exports.Prisma.OrderItemScalarFieldEnum = {
   id: 'id',
   orderId: 'orderId',
   productId: 'productId',
+  variantId: 'variantId',
+  variantName: 'variantName',
   name: 'name',
   quantity: 'quantity',
   price: 'price',
-  image: 'image'
+  image: 'image',
+  shopOrderId: 'shopOrderId'
 };
 
 exports.Prisma.CartItemScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
+  cartToken: 'cartToken',
   productId: 'productId',
+  variantId: 'variantId',
   name: 'name',
   price: 'price',
   quantity: 'quantity',
@@ -206,6 +332,189 @@ exports.Prisma.FavoriteScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
   productId: 'productId',
+  priceAtFavorite: 'priceAtFavorite',
+  lastPriceAlertAt: 'lastPriceAlertAt',
+  lastStockAlertAt: 'lastStockAlertAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.StripeEventScalarFieldEnum = {
+  id: 'id',
+  type: 'type',
+  processedAt: 'processedAt'
+};
+
+exports.Prisma.ReviewScalarFieldEnum = {
+  id: 'id',
+  productId: 'productId',
+  orderItemId: 'orderItemId',
+  userId: 'userId',
+  rating: 'rating',
+  comment: 'comment',
+  photos: 'photos',
+  sellerReply: 'sellerReply',
+  sellerRepliedAt: 'sellerRepliedAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.CouponScalarFieldEnum = {
+  id: 'id',
+  code: 'code',
+  description: 'description',
+  type: 'type',
+  value: 'value',
+  maxDiscount: 'maxDiscount',
+  shopId: 'shopId',
+  minOrderValue: 'minOrderValue',
+  productIds: 'productIds',
+  categoryIds: 'categoryIds',
+  startsAt: 'startsAt',
+  endsAt: 'endsAt',
+  usageLimit: 'usageLimit',
+  perUserLimit: 'perUserLimit',
+  usedCount: 'usedCount',
+  active: 'active',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.CouponRedemptionScalarFieldEnum = {
+  id: 'id',
+  couponId: 'couponId',
+  userId: 'userId',
+  orderId: 'orderId',
+  discount: 'discount',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.LedgerTransactionScalarFieldEnum = {
+  id: 'id',
+  type: 'type',
+  shopId: 'shopId',
+  shopOrderId: 'shopOrderId',
+  payoutId: 'payoutId',
+  description: 'description',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.LedgerEntryScalarFieldEnum = {
+  id: 'id',
+  transactionId: 'transactionId',
+  shopId: 'shopId',
+  account: 'account',
+  amount: 'amount'
+};
+
+exports.Prisma.PayoutScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  amount: 'amount',
+  status: 'status',
+  provider: 'provider',
+  reference: 'reference',
+  failureReason: 'failureReason',
+  requestedAt: 'requestedAt',
+  paidAt: 'paidAt'
+};
+
+exports.Prisma.NotificationScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  type: 'type',
+  title: 'title',
+  body: 'body',
+  data: 'data',
+  readAt: 'readAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.NotificationPreferenceScalarFieldEnum = {
+  userId: 'userId',
+  type: 'type',
+  inApp: 'inApp',
+  email: 'email'
+};
+
+exports.Prisma.EmailOutboxScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  to: 'to',
+  subject: 'subject',
+  text: 'text',
+  status: 'status',
+  attempts: 'attempts',
+  lastError: 'lastError',
+  nextAttemptAt: 'nextAttemptAt',
+  sentAt: 'sentAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.ShopEventScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  type: 'type',
+  data: 'data',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.StockMovementScalarFieldEnum = {
+  id: 'id',
+  productId: 'productId',
+  variantId: 'variantId',
+  type: 'type',
+  quantity: 'quantity',
+  stockAfter: 'stockAfter',
+  orderId: 'orderId',
+  actorId: 'actorId',
+  note: 'note',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.ReturnRequestScalarFieldEnum = {
+  id: 'id',
+  orderItemId: 'orderItemId',
+  shopOrderId: 'shopOrderId',
+  customerId: 'customerId',
+  quantity: 'quantity',
+  reason: 'reason',
+  photos: 'photos',
+  status: 'status',
+  refundAmount: 'refundAmount',
+  sellerNote: 'sellerNote',
+  decidedAt: 'decidedAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.RefundScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  shopOrderId: 'shopOrderId',
+  returnRequestId: 'returnRequestId',
+  amount: 'amount',
+  status: 'status',
+  provider: 'provider',
+  reference: 'reference',
+  attempts: 'attempts',
+  lastError: 'lastError',
+  nextAttemptAt: 'nextAttemptAt',
+  refundedAt: 'refundedAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.PriceHistoryScalarFieldEnum = {
+  id: 'id',
+  productId: 'productId',
+  price: 'price',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.AdminAuditLogScalarFieldEnum = {
+  id: 'id',
+  actorId: 'actorId',
+  action: 'action',
+  targetType: 'targetType',
+  targetId: 'targetId',
+  reason: 'reason',
+  data: 'data',
   createdAt: 'createdAt'
 };
 
@@ -214,6 +523,15 @@ exports.Prisma.SortOrder = {
   desc: 'desc'
 };
 
+exports.Prisma.JsonNullValueInput = {
+  JsonNull: Prisma.JsonNull
+};
+
+exports.Prisma.NullableJsonNullValueInput = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull
+};
+
 exports.Prisma.QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -223,20 +541,182 @@ exports.Prisma.NullsOrder = {
   first: 'first',
   last: 'last'
 };
+
+exports.Prisma.JsonNullValueFilter = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull,
+  AnyNull: Prisma.AnyNull
+};
 exports.Role = exports.$Enums.Role = {
   CUSTOMER: 'CUSTOMER',
-  SELLER: 'SELLER'
+  SELLER: 'SELLER',
+  ADMIN: 'ADMIN'
+};
+
+exports.UserTokenType = exports.$Enums.UserTokenType = {
+  EMAIL_VERIFICATION: 'EMAIL_VERIFICATION',
+  PASSWORD_RESET: 'PASSWORD_RESET'
+};
+
+exports.ShopStatus = exports.$Enums.ShopStatus = {
+  PENDING: 'PENDING',
+  ACTIVE: 'ACTIVE',
+  SUSPENDED: 'SUSPENDED'
+};
+
+exports.OrderStatus = exports.$Enums.OrderStatus = {
+  AWAITING_PAYMENT: 'AWAITING_PAYMENT',
+  TO_SHIP: 'TO_SHIP',
+  SHIPPED: 'SHIPPED',
+  DELIVERED: 'DELIVERED',
+  COMPLETED: 'COMPLETED',
+  CANCELLED: 'CANCELLED'
+};
+
+exports.PaymentStatus = exports.$Enums.PaymentStatus = {
+  PENDING: 'PENDING',
+  SUCCEEDED: 'SUCCEEDED',
+  FAILED: 'FAILED',
+  CANCELED: 'CANCELED',
+  AMOUNT_MISMATCH: 'AMOUNT_MISMATCH'
+};
+
+exports.CouponType = exports.$Enums.CouponType = {
+  PERCENTAGE: 'PERCENTAGE',
+  FIXED_AMOUNT: 'FIXED_AMOUNT',
+  FREE_SHIPPING: 'FREE_SHIPPING'
+};
+
+exports.LedgerTransactionType = exports.$Enums.LedgerTransactionType = {
+  SALE: 'SALE',
+  COMMISSION: 'COMMISSION',
+  RELEASE: 'RELEASE',
+  REFUND: 'REFUND',
+  PAYOUT: 'PAYOUT',
+  PAYOUT_REVERSAL: 'PAYOUT_REVERSAL'
+};
+
+exports.LedgerAccount = exports.$Enums.LedgerAccount = {
+  CUSTOMER_FUNDS: 'CUSTOMER_FUNDS',
+  SHOP_PENDING: 'SHOP_PENDING',
+  SHOP_AVAILABLE: 'SHOP_AVAILABLE',
+  PLATFORM_COMMISSION: 'PLATFORM_COMMISSION',
+  PAYOUTS: 'PAYOUTS'
+};
+
+exports.PayoutStatus = exports.$Enums.PayoutStatus = {
+  PENDING: 'PENDING',
+  PAID: 'PAID',
+  FAILED: 'FAILED'
+};
+
+exports.NotificationType = exports.$Enums.NotificationType = {
+  ORDER_PLACED: 'ORDER_PLACED',
+  ORDER_PAID: 'ORDER_PAID',
+  ORDER_SHIPPED: 'ORDER_SHIPPED',
+  ORDER_DELIVERED: 'ORDER_DELIVERED',
+  ORDER_COMPLETED: 'ORDER_COMPLETED',
+  ORDER_CANCELLED: 'ORDER_CANCELLED',
+  LOW_STOCK: 'LOW_STOCK',
+  RETURN_REQUESTED: 'RETURN_REQUESTED',
+  RETURN_APPROVED: 'RETURN_APPROVED',
+  RETURN_REJECTED: 'RETURN_REJECTED',
+  PRICE_DROP: 'PRICE_DROP',
+  BACK_IN_STOCK: 'BACK_IN_STOCK',
+  SHOP_APPROVED: 'SHOP_APPROVED',
+  SHOP_SUSPENDED: 'SHOP_SUSPENDED',
+  PRODUCT_UNPUBLISHED: 'PRODUCT_UNPUBLISHED'
+};
+
+exports.EmailStatus = exports.$Enums.EmailStatus = {
+  PENDING: 'PENDING',
+  SENT: 'SENT',
+  FAILED: 'FAILED'
+};
+
+exports.ShopEventType = exports.$Enums.ShopEventType = {
+  ORDER_PLACED: 'ORDER_PLACED',
+  ORDER_STATUS_CHANGED: 'ORDER_STATUS_CHANGED',
+  PAYMENT_CONFIRMED: 'PAYMENT_CONFIRMED',
+  LOW_STOCK: 'LOW_STOCK',
+  RETURN_REQUESTED: 'RETURN_REQUESTED'
+};
+
+exports.StockMovementType = exports.$Enums.StockMovementType = {
+  SALE: 'SALE',
+  CANCELLATION: 'CANCELLATION',
+  RETURN: 'RETURN',
+  ADJUSTMENT: 'ADJUSTMENT',
+  IMPORT: 'IMPORT'
+};
+
+exports.ReturnStatus = exports.$Enums.ReturnStatus = {
+  REQUESTED: 'REQUESTED',
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED'
+};
+
+exports.RefundStatus = exports.$Enums.RefundStatus = {
+  PENDING: 'PENDING',
+  SUCCEEDED: 'SUCCEEDED',
+  FAILED: 'FAILED'
+};
+
+exports.AdminAction = exports.$Enums.AdminAction = {
+  SHOP_APPROVED: 'SHOP_APPROVED',
+  SHOP_SUSPENDED: 'SHOP_SUSPENDED',
+  SHOP_COMMISSION_CHANGED: 'SHOP_COMMISSION_CHANGED',
+  PRODUCT_UNPUBLISHED: 'PRODUCT_UNPUBLISHED',
+  PRODUCT_REPUBLISHED: 'PRODUCT_REPUBLISHED',
+  CATEGORY_CREATED: 'CATEGORY_CREATED',
+  CATEGORY_UPDATED: 'CATEGORY_UPDATED',
+  CATEGORY_DELETED: 'CATEGORY_DELETED',
+  COUPON_CREATED: 'COUPON_CREATED',
+  COUPON_UPDATED: 'COUPON_UPDATED',
+  COUPON_DELETED: 'COUPON_DELETED'
+};
+
+exports.AuditTargetType = exports.$Enums.AuditTargetType = {
+  SHOP: 'SHOP',
+  PRODUCT: 'PRODUCT',
+  CATEGORY: 'CATEGORY',
+  COUPON: 'COUPON'
 };
 
 exports.Prisma.ModelName = {
   User: 'User',
+  UserToken: 'UserToken',
+  RefreshToken: 'RefreshToken',
   Shop: 'Shop',
   Address: 'Address',
   Product: 'Product',
+  Category: 'Category',
+  ProductVariant: 'ProductVariant',
   Order: 'Order',
+  ShopOrder: 'ShopOrder',
+  OrderAddress: 'OrderAddress',
+  Shipment: 'Shipment',
+  ShipmentEvent: 'ShipmentEvent',
+  OrderStatusHistory: 'OrderStatusHistory',
   OrderItem: 'OrderItem',
   CartItem: 'CartItem',
-  Favorite: 'Favorite'
+  Favorite: 'Favorite',
+  StripeEvent: 'StripeEvent',
+  Review: 'Review',
+  Coupon: 'Coupon',
+  CouponRedemption: 'CouponRedemption',
+  LedgerTransaction: 'LedgerTransaction',
+  LedgerEntry: 'LedgerEntry',
+  Payout: 'Payout',
+  Notification: 'Notification',
+  NotificationPreference: 'NotificationPreference',
+  EmailOutbox: 'EmailOutbox',
+  ShopEvent: 'ShopEvent',
+  StockMovement: 'StockMovement',
+  ReturnRequest: 'ReturnRequest',
+  Refund: 'Refund',
+  PriceHistory: 'PriceHistory',
+  AdminAuditLog: 'AdminAuditLog'
 };
 
 /**
@@ -102,6 +102,28 @@ exports.Prisma.UserScalarFieldEnum = {
   cpf: 'cpf',
   phone: 'phone',
   birthdate: 'birthdate',
+  emailVerifiedAt: 'emailVerifiedAt',
+  deletedAt: 'deletedAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.UserTokenScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  type: 'type',
+  tokenHash: 'tokenHash',
+  email: 'email',
+  expiresAt: 'expiresAt',
+  usedAt: 'usedAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.RefreshTokenScalarFieldEnum = {
+  id: 'id',
+  tokenHash: 'tokenHash',
+  userId: 'userId',
+  expiresAt: 'expiresAt',
+  revokedAt: 'revokedAt',
   createdAt: 'createdAt'
 };
 
@@ -110,6 +132,10 @@ exports.Prisma.ShopScalarFieldEnum = {
   name: 'name',
   description: 'description',
   image: 'image',
+  commissionRate: 'commissionRate',
+  status: 'status',
+  statusReason: 'statusReason',
+  moderatedAt: 'moderatedAt',
   userId: 'userId',
   createdAt: 'createdAt'
 };
@@ -133,17 +159,48 @@ exports.Prisma.ProductScalarFieldEnum = {
   description: 'description',
   price: 'price',
   stock: 'stock',
-  category: 'category',
+  stockVersion: 'stockVersion',
+  lowStockThreshold: 'lowStockThreshold',
+  unpublishedAt: 'unpublishedAt',
+  unpublishedReason: 'unpublishedReason',
+  categoryId: 'categoryId',
   image: 'image',
   images: 'images',
-  variations: 'variations',
   rating: 'rating',
   reviews: 'reviews',
   sold: 'sold',
+  weight: 'weight',
+  length: 'length',
+  width: 'width',
+  height: 'height',
   shopId: 'shopId',
   createdAt: 'createdAt'
 };
 
+exports.Prisma.CategoryScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  slug: 'slug',
+  image: 'image',
+  position: 'position',
+  commissionRate: 'commissionRate',
+  parentId: 'parentId',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.ProductVariantScalarFieldEnum = {
+  id: 'id',
+  productId: 'productId',
+  options: 'options',
+  name: 'name',
+  sku: 'sku',
+  price: 'price',
+  stock: 'stock',
+  image: 'image',
+  active: 'active',
+  createdAt: 'createdAt'
+};
+
 exports.Prisma.OrderScalarFieldEnum = {
   id: 'id',
   customerId: 'customerId',
@@ -151,23 +208,92 @@ exports.Prisma.OrderScalarFieldEnum = {
   paymentMethod: 'paymentMethod',
   addressId: 'addressId',
   status: 'status',
+  paymentIntentId: 'paymentIntentId',
+  paymentStatus: 'paymentStatus',
+  couponId: 'couponId',
+  couponCode: 'couponCode',
+  discount: 'discount',
+  reservedUntil: 'reservedUntil',
   date: 'date'
 };
 
+exports.Prisma.ShopOrderScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  shopId: 'shopId',
+  subtotal: 'subtotal',
+  shippingCost: 'shippingCost',
+  discount: 'discount',
+  shippingDiscount: 'shippingDiscount',
+  shippingService: 'shippingService',
+  shippingDays: 'shippingDays',
+  status: 'status',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.OrderAddressScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  recipient: 'recipient',
+  street: 'street',
+  number: 'number',
+  complement: 'complement',
+  neighborhood: 'neighborhood',
+  city: 'city',
+  state: 'state',
+  zipCode: 'zipCode'
+};
+
+exports.Prisma.ShipmentScalarFieldEnum = {
+  id: 'id',
+  shopOrderId: 'shopOrderId',
+  carrier: 'carrier',
+  trackingCode: 'trackingCode',
+  shippedAt: 'shippedAt',
+  deliveredAt: 'deliveredAt'
+};
+
+exports.Prisma.ShipmentEventScalarFieldEnum = {
+  id: 'id',
+  shipmentId: 'shipmentId',
+  status: 'status',
+  description: 'description',
+  location: 'location',
+  occurredAt: 'occurredAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.OrderStatusHistoryScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  shopOrderId: 'shopOrderId',
+  fromStatus: 'fromStatus',
+  toStatus: 'toStatus',
+  actorId: 'actorId',
+  actorRole: 'actorRole',
+  note: 'note',
+  createdAt: 'createdAt'
+};
+
 exports.Prisma.OrderItemScalarFieldEnum = {
   id: 'id',
   orderId: 'orderId',
   productId: 'productId',
+  variantId: 'variantId',
+  variantName: 'variantName',
   name: 'name',
   quantity: 'quantity',
   price: 'price',
-  image: 'image'
+  image: 'image',
+  shopOrderId: 'shopOrderId'
 };
 
 exports.Prisma.CartItemScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
+  cartToken: 'cartToken',
   productId: 'productId',
+  variantId: 'variantId',
   name: 'name',
   price: 'price',
   quantity: 'quantity',
@@ -179,6 +305,189 @@ exports.Prisma.FavoriteScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
   productId: 'productId',
+  priceAtFavorite: 'priceAtFavorite',
+  lastPriceAlertAt: 'lastPriceAlertAt',
+  lastStockAlertAt: 'lastStockAlertAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.StripeEventScalarFieldEnum = {
+  id: 'id',
+  type: 'type',
+  processedAt: 'processedAt'
+};
+
+exports.Prisma.ReviewScalarFieldEnum = {
+  id: 'id',
+  productId: 'productId',
+  orderItemId: 'orderItemId',
+  userId: 'userId',
+  rating: 'rating',
+  comment: 'comment',
+  photos: 'photos',
+  sellerReply: 'sellerReply',
+  sellerRepliedAt: 'sellerRepliedAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.CouponScalarFieldEnum = {
+  id: 'id',
+  code: 'code',
+  description: 'description',
+  type: 'type',
+  value: 'value',
+  maxDiscount: 'maxDiscount',
+  shopId: 'shopId',
+  minOrderValue: 'minOrderValue',
+  productIds: 'productIds',
+  categoryIds: 'categoryIds',
+  startsAt: 'startsAt',
+  endsAt: 'endsAt',
+  usageLimit: 'usageLimit',
+  perUserLimit: 'perUserLimit',
+  usedCount: 'usedCount',
+  active: 'active',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.CouponRedemptionScalarFieldEnum = {
+  id: 'id',
+  couponId: 'couponId',
+  userId: 'userId',
+  orderId: 'orderId',
+  discount: 'discount',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.LedgerTransactionScalarFieldEnum = {
+  id: 'id',
+  type: 'type',
+  shopId: 'shopId',
+  shopOrderId: 'shopOrderId',
+  payoutId: 'payoutId',
+  description: 'description',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.LedgerEntryScalarFieldEnum = {
+  id: 'id',
+  transactionId: 'transactionId',
+  shopId: 'shopId',
+  account: 'account',
+  amount: 'amount'
+};
+
+exports.Prisma.PayoutScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  amount: 'amount',
+  status: 'status',
+  provider: 'provider',
+  reference: 'reference',
+  failureReason: 'failureReason',
+  requestedAt: 'requestedAt',
+  paidAt: 'paidAt'
+};
+
+exports.Prisma.NotificationScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  type: 'type',
+  title: 'title',
+  body: 'body',
+  data: 'data',
+  readAt: 'readAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.NotificationPreferenceScalarFieldEnum = {
+  userId: 'userId',
+  type: 'type',
+  inApp: 'inApp',
+  email: 'email'
+};
+
+exports.Prisma.EmailOutboxScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  to: 'to',
+  subject: 'subject',
+  text: 'text',
+  status: 'status',
+  attempts: 'attempts',
+  lastError: 'lastError',
+  nextAttemptAt: 'nextAttemptAt',
+  sentAt: 'sentAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.ShopEventScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  type: 'type',
+  data: 'data',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.StockMovementScalarFieldEnum = {
+  id: 'id',
+  productId: 'productId',
+  variantId: 'variantId',
+  type: 'type',
+  quantity: 'quantity',
+  stockAfter: 'stockAfter',
+  orderId: 'orderId',
+  actorId: 'actorId',
+  note: 'note',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.ReturnRequestScalarFieldEnum = {
+  id: 'id',
+  orderItemId: 'orderItemId',
+  shopOrderId: 'shopOrderId',
+  customerId: 'customerId',
+  quantity: 'quantity',
+  reason: 'reason',
+  photos: 'photos',
+  status: 'status',
+  refundAmount: 'refundAmount',
+  sellerNote: 'sellerNote',
+  decidedAt: 'decidedAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.RefundScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  shopOrderId: 'shopOrderId',
+  returnRequestId: 'returnRequestId',
+  amount: 'amount',
+  status: 'status',
+  provider: 'provider',
+  reference: 'reference',
+  attempts: 'attempts',
+  lastError: 'lastError',
+  nextAttemptAt: 'nextAttemptAt',
+  refundedAt: 'refundedAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.PriceHistoryScalarFieldEnum = {
+  id: 'id',
+  productId: 'productId',
+  price: 'price',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.AdminAuditLogScalarFieldEnum = {
+  id: 'id',
+  actorId: 'actorId',
+  action: 'action',
+  targetType: 'targetType',
+  targetId: 'targetId',
+  reason: 'reason',
+  data: 'data',
   createdAt: 'createdAt'
 };
 
@@ -187,6 +496,15 @@ exports.Prisma.SortOrder = {
   desc: 'desc'
 };
 
+exports.Prisma.JsonNullValueInput = {
+  JsonNull: Prisma.JsonNull
+};
+
+exports.Prisma.NullableJsonNullValueInput = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull
+};
+
 exports.Prisma.QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -196,20 +514,182 @@ exports.Prisma.NullsOrder = {
   first: 'first',
   last: 'last'
 };
+
+exports.Prisma.JsonNullValueFilter = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull,
+  AnyNull: Prisma.AnyNull
+};
 exports.Role = exports.$Enums.Role = {
   CUSTOMER: 'CUSTOMER',
-  SELLER: 'SELLER'
+  SELLER: 'SELLER',
+  ADMIN: 'ADMIN'
+};
+
+exports.OrderStatus = exports.$Enums.OrderStatus = {
+  AWAITING_PAYMENT: 'AWAITING_PAYMENT',
+  TO_SHIP: 'TO_SHIP',
+  SHIPPED: 'SHIPPED',
+  DELIVERED: 'DELIVERED',
+  COMPLETED: 'COMPLETED',
+  CANCELLED: 'CANCELLED'
+};
+
+exports.PaymentStatus = exports.$Enums.PaymentStatus = {
+  PENDING: 'PENDING',
+  SUCCEEDED: 'SUCCEEDED',
+  FAILED: 'FAILED',
+  CANCELED: 'CANCELED',
+  AMOUNT_MISMATCH: 'AMOUNT_MISMATCH'
+};
+
+exports.CouponType = exports.$Enums.CouponType = {
+  PERCENTAGE: 'PERCENTAGE',
+  FIXED_AMOUNT: 'FIXED_AMOUNT',
+  FREE_SHIPPING: 'FREE_SHIPPING'
+};
+
+exports.LedgerAccount = exports.$Enums.LedgerAccount = {
+  CUSTOMER_FUNDS: 'CUSTOMER_FUNDS',
+  SHOP_PENDING: 'SHOP_PENDING',
+  SHOP_AVAILABLE: 'SHOP_AVAILABLE',
+  PLATFORM_COMMISSION: 'PLATFORM_COMMISSION',
+  PAYOUTS: 'PAYOUTS'
+};
+
+exports.LedgerTransactionType = exports.$Enums.LedgerTransactionType = {
+  SALE: 'SALE',
+  COMMISSION: 'COMMISSION',
+  RELEASE: 'RELEASE',
+  REFUND: 'REFUND',
+  PAYOUT: 'PAYOUT',
+  PAYOUT_REVERSAL: 'PAYOUT_REVERSAL'
+};
+
+exports.PayoutStatus = exports.$Enums.PayoutStatus = {
+  PENDING: 'PENDING',
+  PAID: 'PAID',
+  FAILED: 'FAILED'
+};
+
+exports.NotificationType = exports.$Enums.NotificationType = {
+  ORDER_PLACED: 'ORDER_PLACED',
+  ORDER_PAID: 'ORDER_PAID',
+  ORDER_SHIPPED: 'ORDER_SHIPPED',
+  ORDER_DELIVERED: 'ORDER_DELIVERED',
+  ORDER_COMPLETED: 'ORDER_COMPLETED',
+  ORDER_CANCELLED: 'ORDER_CANCELLED',
+  LOW_STOCK: 'LOW_STOCK',
+  RETURN_REQUESTED: 'RETURN_REQUESTED',
+  RETURN_APPROVED: 'RETURN_APPROVED',
+  RETURN_REJECTED: 'RETURN_REJECTED',
+  PRICE_DROP: 'PRICE_DROP',
+  BACK_IN_STOCK: 'BACK_IN_STOCK',
+  SHOP_APPROVED: 'SHOP_APPROVED',
+  SHOP_SUSPENDED: 'SHOP_SUSPENDED',
+  PRODUCT_UNPUBLISHED: 'PRODUCT_UNPUBLISHED'
+};
+
+exports.ShopStatus = exports.$Enums.ShopStatus = {
+  PENDING: 'PENDING',
+  ACTIVE: 'ACTIVE',
+  SUSPENDED: 'SUSPENDED'
+};
+
+exports.AdminAction = exports.$Enums.AdminAction = {
+  SHOP_APPROVED: 'SHOP_APPROVED',
+  SHOP_SUSPENDED: 'SHOP_SUSPENDED',
+  SHOP_COMMISSION_CHANGED: 'SHOP_COMMISSION_CHANGED',
+  PRODUCT_UNPUBLISHED: 'PRODUCT_UNPUBLISHED',
+  PRODUCT_REPUBLISHED: 'PRODUCT_REPUBLISHED',
+  CATEGORY_CREATED: 'CATEGORY_CREATED',
+  CATEGORY_UPDATED: 'CATEGORY_UPDATED',
+  CATEGORY_DELETED: 'CATEGORY_DELETED',
+  COUPON_CREATED: 'COUPON_CREATED',
+  COUPON_UPDATED: 'COUPON_UPDATED',
+  COUPON_DELETED: 'COUPON_DELETED'
+};
+
+exports.AuditTargetType = exports.$Enums.AuditTargetType = {
+  SHOP: 'SHOP',
+  PRODUCT: 'PRODUCT',
+  CATEGORY: 'CATEGORY',
+  COUPON: 'COUPON'
+};
+
+exports.EmailStatus = exports.$Enums.EmailStatus = {
+  PENDING: 'PENDING',
+  SENT: 'SENT',
+  FAILED: 'FAILED'
+};
+
+exports.StockMovementType = exports.$Enums.StockMovementType = {
+  SALE: 'SALE',
+  CANCELLATION: 'CANCELLATION',
+  RETURN: 'RETURN',
+  ADJUSTMENT: 'ADJUSTMENT',
+  IMPORT: 'IMPORT'
+};
+
+exports.ShopEventType = exports.$Enums.ShopEventType = {
+  ORDER_PLACED: 'ORDER_PLACED',
+  ORDER_STATUS_CHANGED: 'ORDER_STATUS_CHANGED',
+  PAYMENT_CONFIRMED: 'PAYMENT_CONFIRMED',
+  LOW_STOCK: 'LOW_STOCK',
+  RETURN_REQUESTED: 'RETURN_REQUESTED'
+};
+
+exports.ReturnStatus = exports.$Enums.ReturnStatus = {
+  REQUESTED: 'REQUESTED',
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED'
+};
+
+exports.RefundStatus = exports.$Enums.RefundStatus = {
+  PENDING: 'PENDING',
+  SUCCEEDED: 'SUCCEEDED',
+  FAILED: 'FAILED'
+};
+
+exports.UserTokenType = exports.$Enums.UserTokenType = {
+  EMAIL_VERIFICATION: 'EMAIL_VERIFICATION',
+  PASSWORD_RESET: 'PASSWORD_RESET'
 };
 
 exports.Prisma.ModelName = {
   User: 'User',
+  UserToken: 'UserToken',
+  RefreshToken: 'RefreshToken',
   Shop: 'Shop',
   Address: 'Address',
   Product: 'Product',
+  Category: 'Category',
+  ProductVariant: 'ProductVariant',
   Order: 'Order',
+  ShopOrder: 'ShopOrder',
+  OrderAddress: 'OrderAddress',
+  Shipment: 'Shipment',
+  ShipmentEvent: 'ShipmentEvent',
+  OrderStatusHistory: 'OrderStatusHistory',
   OrderItem: 'OrderItem',
   CartItem: 'CartItem',
-  Favorite: 'Favorite'
+  Favorite: 'Favorite',
+  StripeEvent: 'StripeEvent',
+  Review: 'Review',
+  Coupon: 'Coupon',
+  CouponRedemption: 'CouponRedemption',
+  LedgerTransaction: 'LedgerTransaction',
+  LedgerEntry: 'LedgerEntry',
+  Payout: 'Payout',
+  Notification: 'Notification',
+  NotificationPreference: 'NotificationPreference',
+  EmailOutbox: 'EmailOutbox',
+  ShopEvent: 'ShopEvent',
+  StockMovement: 'StockMovement',
+  ReturnRequest: 'ReturnRequest',
+  Refund: 'Refund',
+  PriceHistory: 'PriceHistory',
+  AdminAuditLog: 'AdminAuditLog'
 };
 /**
  * Create the Client
@@ -219,10 +699,10 @@ const config = {
   "clientVersion": "7.2.0",
   "engineVersion": "0c8ef2ce45c83248ab3df073180d5eda9e8be7a3",
   "activeProvider": "postgresql",
-  "inlineSchema": "generator client {\n  provider = \"prisma-client-js\" // 👈 Corrigido: deve ser prisma-client-js\n  output   = \"../src/generated/prisma/client\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\n// 1. Definição dos Papéis\nenum Role {\n  CUSTOMER\n  SELLER\n}\n\nmodel User {\n  id        String     @id @default(uuid())\n  name      String\n  email     String     @unique\n  password  String\n  role      Role       @default(CUSTOMER) // 👈 Campo que estava faltando\n  shop      Shop? // 👈 Relação com a loja\n  cpf       String?\n  phone     String?\n  birthdate String?\n  addresses Address[]\n  createdAt DateTime   @default(now())\n  favorites Favorite[]\n  orders    Order[]\n}\n\nmodel Shop {\n  id          String    @id @default(uuid())\n  name        String\n  description String?\n  image       String?\n  userId      String    @unique\n  user        User      @relation(fields: [userId], references: [id])\n  products    Product[]\n  createdAt   DateTime  @default(now())\n}\n\nmodel Address {\n  id           String  @id @default(uuid())\n  street       String\n  number       String\n  complement   String?\n  neighborhood String\n  city         String\n  state        String\n  zipCode      String\n  userId       String\n  user         User    @relation(fields: [userId], references: [id])\n  isPrimary    Boolean @default(false)\n}\n\nmodel Product {\n  id          String      @id @default(uuid())\n  name        String\n  description String\n  price       Float\n  stock       Int\n  category    String\n  image       String\n  images      String[]\n  variations  String[]\n  rating      Float       @default(5.0)\n  reviews     Int         @default(0)\n  sold        Int         @default(0)\n  shopId      String? // 👈 ID da loja para o Prisma\n  shop        Shop?       @relation(fields: [shopId], references: [id]) // 👈 Relação\n  orderItems  OrderItem[]\n  createdAt   DateTime    @default(now())\n  favorites   Favorite[]\n}\n\nmodel Order {\n  id            String      @id @default(uuid())\n  customerId    String\n  customer      User        @relation(fields: [customerId], references: [id])\n  total         Float\n  paymentMethod String\n  addressId     String\n  status        String      @default(\"A Enviar\")\n  date          DateTime    @default(now())\n  items         OrderItem[]\n}\n\nmodel OrderItem {\n  id        String  @id @default(uuid())\n  orderId   String\n  productId String\n  product   Product @relation(fields: [productId], references: [id])\n  name      String\n  quantity  Int\n  price     Float\n  image     String\n  order     Order   @relation(fields: [orderId], references: [id])\n}\n\nmodel CartItem {\n  id        String   @id @default(uuid())\n  userId    String\n  productId String\n  name      String\n  price     Float\n  quantity  Int\n  image     String\n  createdAt DateTime @default(now())\n}\n\nmodel Favorite {\n  id        String   @id @default(uuid())\n  userId    String\n  productId String\n  user      User     @relation(fields: [userId], references: [id])\n  product   Product  @relation(fields: [productId], references: [id])\n  createdAt DateTime @default(now())\n\n  @@unique([userId, productId])\n}\n"
+  "inlineSchema": "generator client {\n  provider = \"prisma-client-js\" // 👈 Corrigido: deve ser prisma-client-js\n  output   = \"../src/generated/prisma/client\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\n// 1. Definição dos Papéis\nenum Role {\n  CUSTOMER\n  SELLER\n  ADMIN // Equipe da plataforma; não pode ser escolhido no cadastro\n}\n\n// Ciclo de vida do pedido (transições permitidas em src/lib/orderStatus.ts)\nenum OrderStatus {\n  AWAITING_PAYMENT\n  TO_SHIP\n  SHIPPED\n  DELIVERED\n  COMPLETED\n  CANCELLED\n}\n\n// Situação do PaymentIntent do Stripe ligado ao pedido\nenum PaymentStatus {\n  PENDING\n  SUCCEEDED\n  FAILED\n  CANCELED\n  AMOUNT_MISMATCH\n}\n\nenum CouponType {\n  PERCENTAGE\n  FIXED_AMOUNT\n  FREE_SHIPPING\n}\n\nenum LedgerAccount {\n  CUSTOMER_FUNDS\n  SHOP_PENDING\n  SHOP_AVAILABLE\n  PLATFORM_COMMISSION\n  PAYOUTS\n}\n\nenum LedgerTransactionType {\n  SALE\n  COMMISSION\n  RELEASE\n  REFUND\n  PAYOUT\n  PAYOUT_REVERSAL\n}\n\nenum PayoutStatus {\n  PENDING\n  PAID\n  FAILED\n}\n\n// Eventos que geram aviso; o usuário escolhe por evento se quer no app e/ou por e-mail\nenum NotificationType {\n  ORDER_PLACED\n  ORDER_PAID\n  ORDER_SHIPPED\n  ORDER_DELIVERED\n  ORDER_COMPLETED\n  ORDER_CANCELLED\n  LOW_STOCK\n  RETURN_REQUESTED\n  RETURN_APPROVED\n  RETURN_REJECTED\n  PRICE_DROP\n  BACK_IN_STOCK\n  SHOP_APPROVED\n  SHOP_SUSPENDED\n  PRODUCT_UNPUBLISHED\n}\n\n// Lojas novas esperam a aprovação da equipe; só as ACTIVE aparecem no catálogo e vendem\nenum ShopStatus {\n  PENDING\n  ACTIVE\n  SUSPENDED\n}\n\nenum AdminAction {\n  SHOP_APPROVED\n  SHOP_SUSPENDED\n  SHOP_COMMISSION_CHANGED\n  PRODUCT_UNPUBLISHED\n  PRODUCT_REPUBLISHED\n  CATEGORY_CREATED\n  CATEGORY_UPDATED\n  CATEGORY_DELETED\n  COUPON_CREATED\n  COUPON_UPDATED\n  COUPON_DELETED\n}\n\nenum AuditTargetType {\n  SHOP\n  PRODUCT\n  CATEGORY\n  COUPON\n}\n\nenum EmailStatus {\n  PENDING\n  SENT\n  FAILED\n}\n\nenum StockMovementType {\n  SALE\n  CANCELLATION\n  RETURN\n  ADJUSTMENT\n  IMPORT\n}\n\n// Eventos enviados ao painel do vendedor em tempo real (GET /seller/events/:shopId)\nenum ShopEventType {\n  ORDER_PLACED\n  ORDER_STATUS_CHANGED\n  PAYMENT_CONFIRMED\n  LOW_STOCK\n  RETURN_REQUESTED\n}\n\nenum ReturnStatus {\n  REQUESTED\n  APPROVED\n  REJECTED\n}\n\nenum RefundStatus {\n  PENDING\n  SUCCEEDED\n  FAILED\n}\n\nmodel User {\n  id                      String                   @id @default(uuid())\n  name                    String\n  email                   String                   @unique\n  password                String\n  role                    Role                     @default(CUSTOMER) // 👈 Campo que estava faltando\n  shop                    Shop? // 👈 Relação com a loja\n  cpf                     String?\n  phone                   String?\n  birthdate               String?\n  // Nulo até o usuário confirmar o e-mail atual pelo link enviado\n  emailVerifiedAt         DateTime?\n  // Conta excluída a pedido do titular: os dados pessoais foram apagados e só o histórico de pedidos ficou\n  deletedAt               DateTime?\n  addresses               Address[]\n  createdAt               DateTime                 @default(now())\n  favorites               Favorite[]\n  orders                  Order[]\n  refreshTokens           RefreshToken[]\n  reviews                 Review[]\n  statusChanges           OrderStatusHistory[]\n  cartItems               CartItem[]\n  couponUses              CouponRedemption[]\n  notifications           Notification[]\n  notificationPreferences NotificationPreference[]\n  emails                  EmailOutbox[]\n  stockMovements          StockMovement[]\n  returnRequests          ReturnRequest[]\n  tokens                  UserToken[]\n  adminActions            AdminAuditLog[]\n}\n\nenum UserTokenType {\n  EMAIL_VERIFICATION\n  PASSWORD_RESET\n}\n\n// Links de uso único enviados por e-mail (confirmação do e-mail e troca de senha esquecida);\n// como no refresh token, só o hash fica salvo\nmodel UserToken {\n  id        String        @id @default(uuid())\n  userId    String\n  user      User          @relation(fields: [userId], references: [id], onDelete: Cascade)\n  type      UserTokenType\n  tokenHash String        @unique\n  // Endereço que o link confirma; se o e-mail mudar antes do clique, o link deixa de valer\n  email     String\n  expiresAt DateTime\n  usedAt    DateTime?\n  createdAt DateTime      @default(now())\n\n  @@index([userId, type])\n}\n\n// Sessões: guardamos apenas o hash do refresh token\nmodel RefreshToken {\n  id        String    @id @default(uuid())\n  tokenHash String    @unique\n  userId    String\n  user      User      @relation(fields: [userId], references: [id])\n  expiresAt DateTime\n  revokedAt DateTime?\n  createdAt DateTime  @default(now())\n}\n\nmodel Shop {\n  id             String              @id @default(uuid())\n  name           String\n  description    String?\n  image          String?\n  // Comissão negociada com a loja (0.08 = 8%); vale sobre a da categoria e a padrão\n  commissionRate Float?\n  status         ShopStatus          @default(PENDING)\n  // Motivo da última suspensão, exibido ao vendedor\n  statusReason   String?\n  // Última aprovação ou suspensão\n  moderatedAt    DateTime?\n  userId         String              @unique\n  user           User                @relation(fields: [userId], references: [id])\n  products       Product[]\n  shopOrders     ShopOrder[]\n  coupons        Coupon[]\n  ledger         LedgerTransaction[]\n  payouts        Payout[]\n  events         ShopEvent[]\n  createdAt      DateTime            @default(now())\n}\n\nmodel Address {\n  id           String  @id @default(uuid())\n  street       String\n  number       String\n  complement   String?\n  neighborhood String\n  city         String\n  state        String\n  zipCode      String\n  userId       String\n  user         User    @relation(fields: [userId], references: [id])\n  isPrimary    Boolean @default(false)\n  orders       Order[]\n}\n\nmodel Product {\n  id                String                   @id @default(uuid())\n  name              String\n  description       String\n  price             Float\n  stock             Int\n  // Muda a cada movimento de estoque; a edição do vendedor só vale se vier com a versão atual\n  stockVersion      Int                      @default(0)\n  // Abaixo disso a loja é avisada (null = LOW_STOCK_THRESHOLD)\n  lowStockThreshold Int?\n  // Retirado do catálogo pela equipe da plataforma; o motivo é exibido ao vendedor\n  unpublishedAt     DateTime?\n  unpublishedReason String?\n  categoryId        String\n  category          Category                 @relation(fields: [categoryId], references: [id])\n  image             String\n  images            String[]\n  rating            Float                    @default(5.0)\n  reviews           Int                      @default(0)\n  sold              Int                      @default(0)\n  // Pacote para cotação de frete: peso em kg, medidas em cm\n  weight            Float                    @default(0.5)\n  length            Float                    @default(20)\n  width             Float                    @default(15)\n  height            Float                    @default(5)\n  shopId            String? // 👈 ID da loja para o Prisma\n  shop              Shop?                    @relation(fields: [shopId], references: [id]) // 👈 Relação\n  orderItems        OrderItem[]\n  createdAt         DateTime                 @default(now())\n  favorites         Favorite[]\n  reviewList        Review[]\n  variants          ProductVariant[]\n  cartItems         CartItem[]\n  stockMovements    StockMovement[]\n  priceHistory      PriceHistory[]\n  // Mantido por trigger no banco (nome, descrição e nome da loja); ver migração add_product_search\n  searchVector      Unsupported(\"tsvector\")?\n\n  @@index([searchVector], type: Gin)\n  @@index([categoryId])\n}\n\n// Árvore de categorias gerida pela equipe da plataforma (ex: Moda > Roupas > Vestidos)\nmodel Category {\n  id             String     @id @default(uuid())\n  name           String\n  slug           String     @unique\n  image          String?\n  position       Int        @default(0) // ordem entre irmãos na navegação\n  // Comissão da categoria (herdada pelas subcategorias sem taxa própria)\n  commissionRate Float?\n  parentId       String?\n  parent         Category?  @relation(\"CategoryTree\", fields: [parentId], references: [id])\n  children       Category[] @relation(\"CategoryTree\")\n  products       Product[]\n  createdAt      DateTime   @default(now())\n\n  @@index([parentId])\n}\n\n// Combinação vendável de um produto (ex: \"M / Vermelho\"), com estoque e preço próprios.\n// Quando o produto tem variantes ativas, Product.stock é a soma do estoque delas.\nmodel ProductVariant {\n  id             String          @id @default(uuid())\n  productId      String\n  product        Product         @relation(fields: [productId], references: [id], onDelete: Cascade)\n  options        Json // ex: { \"tamanho\": \"M\", \"cor\": \"Vermelho\" }\n  name           String // rótulo pronto para exibição, gerado a partir de options\n  sku            String?         @unique\n  price          Float? // null = usa o preço do produto\n  stock          Int             @default(0)\n  image          String?\n  active         Boolean         @default(true) // variantes removidas ficam inativas para não quebrar pedidos antigos\n  cartItems      CartItem[]\n  orderItems     OrderItem[]\n  stockMovements StockMovement[]\n  createdAt      DateTime        @default(now())\n\n  @@index([productId])\n}\n\nmodel Order {\n  id              String               @id @default(uuid())\n  customerId      String\n  customer        User                 @relation(fields: [customerId], references: [id])\n  total           Float\n  paymentMethod   String\n  // Endereço do cadastro (pode ser editado ou apagado depois); a entrega usa a cópia em shippingAddress\n  addressId       String?\n  address         Address?             @relation(fields: [addressId], references: [id], onDelete: SetNull)\n  shippingAddress OrderAddress?\n  status          OrderStatus          @default(AWAITING_PAYMENT)\n  paymentIntentId String?              @unique\n  paymentStatus   PaymentStatus        @default(PENDING)\n  couponId        String?\n  coupon          Coupon?              @relation(fields: [couponId], references: [id])\n  couponCode      String?\n  // Desconto total do cupom (itens + frete), já abatido do total\n  discount        Float                @default(0)\n  // Prazo da reserva do estoque; sem pagamento até lá o pedido é cancelado e o estoque volta\n  reservedUntil   DateTime?\n  date            DateTime             @default(now())\n  items           OrderItem[]\n  shopOrders      ShopOrder[]\n  statusHistory   OrderStatusHistory[]\n  stockMovements  StockMovement[]\n  refunds         Refund[]\n}\n\n// Parte do pedido que cabe a uma loja: cada vendedor separa, envia e recebe pela sua\nmodel ShopOrder {\n  id               String               @id @default(uuid())\n  orderId          String\n  order            Order                @relation(fields: [orderId], references: [id])\n  shopId           String\n  shop             Shop                 @relation(fields: [shopId], references: [id])\n  subtotal         Float\n  shippingCost     Float                @default(0)\n  // Parte do desconto do cupom que cabe a esta loja (proporcional aos itens elegíveis)\n  discount         Float                @default(0)\n  shippingDiscount Float                @default(0)\n  shippingService  String?\n  shippingDays     Int?\n  shipment         Shipment?\n  ledger           LedgerTransaction[]\n  status           OrderStatus          @default(AWAITING_PAYMENT)\n  items            OrderItem[]\n  statusHistory    OrderStatusHistory[]\n  returns          ReturnRequest[]\n  refunds          Refund[]\n  createdAt        DateTime             @default(now())\n\n  @@unique([orderId, shopId])\n  @@index([shopId])\n}\n\n// Cópia do endereço no momento do checkout: não muda quando o cliente edita ou apaga o dele\nmodel OrderAddress {\n  id           String  @id @default(uuid())\n  orderId      String  @unique\n  order        Order   @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  recipient    String\n  street       String\n  number       String\n  complement   String?\n  neighborhood String\n  city         String\n  state        String\n  zipCode      String\n}\n\n// Envio da parte de uma loja, preenchido pelo vendedor ao marcar como enviado\nmodel Shipment {\n  id           String          @id @default(uuid())\n  shopOrderId  String          @unique\n  shopOrder    ShopOrder       @relation(fields: [shopOrderId], references: [id])\n  carrier      String\n  trackingCode String\n  shippedAt    DateTime        @default(now())\n  deliveredAt  DateTime?\n  events       ShipmentEvent[]\n}\n\nmodel ShipmentEvent {\n  id          String   @id @default(uuid())\n  shipmentId  String\n  shipment    Shipment @relation(fields: [shipmentId], references: [id], onDelete: Cascade)\n  status      String\n  description String\n  location    String?\n  occurredAt  DateTime @default(now())\n  createdAt   DateTime @default(now())\n\n  @@index([shipmentId])\n}\n\nmodel OrderStatusHistory {\n  id          String       @id @default(uuid())\n  orderId     String\n  order       Order        @relation(fields: [orderId], references: [id])\n  shopOrderId String? // null quando a mudança é do pedido como um todo\n  shopOrder   ShopOrder?   @relation(fields: [shopOrderId], references: [id])\n  fromStatus  OrderStatus?\n  toStatus    OrderStatus\n  actorId     String? // null quando a mudança foi feita pelo sistema\n  actor       User?        @relation(fields: [actorId], references: [id])\n  actorRole   String // CUSTOMER, SELLER ou SYSTEM\n  note        String?\n  createdAt   DateTime     @default(now())\n\n  @@index([orderId])\n}\n\nmodel OrderItem {\n  id          String          @id @default(uuid())\n  orderId     String\n  productId   String\n  product     Product         @relation(fields: [productId], references: [id])\n  variantId   String?\n  variant     ProductVariant? @relation(fields: [variantId], references: [id])\n  variantName String?\n  name        String\n  quantity    Int\n  price       Float\n  image       String\n  order       Order           @relation(fields: [orderId], references: [id])\n  shopOrderId String? // null apenas em itens antigos de produtos sem loja\n  shopOrder   ShopOrder?      @relation(fields: [shopOrderId], references: [id])\n  review      Review?\n  returns     ReturnRequest[]\n}\n\nmodel CartItem {\n  id        String          @id @default(uuid())\n  // Carrinho de um utilizador (userId) ou de um visitante anónimo (cartToken)\n  userId    String?\n  user      User?           @relation(fields: [userId], references: [id], onDelete: Cascade)\n  cartToken String?\n  productId String\n  product   Product         @relation(fields: [productId], references: [id], onDelete: Cascade)\n  variantId String?\n  variant   ProductVariant? @relation(fields: [variantId], references: [id])\n  name      String\n  // Preço no momento em que o item entrou no carrinho, usado para avisar mudanças\n  price     Float\n  quantity  Int\n  image     String\n  createdAt DateTime        @default(now())\n\n  @@index([userId])\n  @@index([cartToken])\n}\n\n// Lista de desejos: além do coração, acompanha o preço e o estoque do produto\nmodel Favorite {\n  id               String    @id @default(uuid())\n  userId           String\n  productId        String\n  user             User      @relation(fields: [userId], references: [id])\n  product          Product   @relation(fields: [productId], references: [id], onDelete: Cascade)\n  // Preço quando o produto foi favoritado, para mostrar quanto mudou desde então\n  priceAtFavorite  Float?\n  // Último aviso de cada tipo, para limitar a frequência dos alertas\n  lastPriceAlertAt DateTime?\n  lastStockAlertAt DateTime?\n  createdAt        DateTime  @default(now())\n\n  @@unique([userId, productId])\n  @@index([productId])\n}\n\n// Eventos de webhook já processados (garante idempotência por id do evento)\nmodel StripeEvent {\n  id          String   @id\n  type        String\n  processedAt DateTime @default(now())\n}\n\n// Avaliação de quem comprou e recebeu o produto (uma por item de pedido)\nmodel Review {\n  id              String    @id @default(uuid())\n  productId       String\n  product         Product   @relation(fields: [productId], references: [id])\n  orderItemId     String    @unique\n  orderItem       OrderItem @relation(fields: [orderItemId], references: [id])\n  userId          String\n  user            User      @relation(fields: [userId], references: [id])\n  rating          Int // 1 a 5 estrelas\n  comment         String?\n  photos          String[]\n  sellerReply     String?\n  sellerRepliedAt DateTime?\n  createdAt       DateTime  @default(now())\n\n  @@index([productId])\n}\n\n// Cupom da plataforma (shopId nulo) ou de uma loja, válido só para os produtos dela\nmodel Coupon {\n  id            String             @id @default(uuid())\n  code          String             @unique\n  description   String?\n  type          CouponType\n  // Percentual (0-100) ou valor em reais, conforme o tipo; ignorado no frete grátis\n  value         Float              @default(0)\n  maxDiscount   Float?\n  shopId        String?\n  shop          Shop?              @relation(fields: [shopId], references: [id], onDelete: Restrict)\n  minOrderValue Float?\n  // Listas vazias = sem restrição de produto/categoria (categorias incluem as subcategorias)\n  productIds    String[]\n  categoryIds   String[]\n  startsAt      DateTime?\n  endsAt        DateTime?\n  usageLimit    Int?\n  perUserLimit  Int?\n  usedCount     Int                @default(0)\n  active        Boolean            @default(true)\n  createdAt     DateTime           @default(now())\n  orders        Order[]\n  redemptions   CouponRedemption[]\n\n  @@index([shopId])\n}\n\nmodel CouponRedemption {\n  id        String   @id @default(uuid())\n  couponId  String\n  coupon    Coupon   @relation(fields: [couponId], references: [id])\n  userId    String\n  user      User     @relation(fields: [userId], references: [id])\n  orderId   String   @unique\n  discount  Float\n  createdAt DateTime @default(now())\n\n  @@index([couponId, userId])\n}\n\n// Livro-caixa das lojas em partidas dobradas: as linhas de cada lançamento somam zero\nmodel LedgerTransaction {\n  id          String                @id @default(uuid())\n  type        LedgerTransactionType\n  shopId      String\n  shop        Shop                  @relation(fields: [shopId], references: [id])\n  shopOrderId String?\n  shopOrder   ShopOrder?            @relation(fields: [shopOrderId], references: [id])\n  payoutId    String?\n  payout      Payout?               @relation(fields: [payoutId], references: [id])\n  description String\n  entries     LedgerEntry[]\n  createdAt   DateTime              @default(now())\n\n  @@index([shopId, createdAt])\n  @@index([shopOrderId])\n}\n\n// Valor positivo = débito, negativo = crédito. Contas da loja são passivo da plataforma,\n// então o saldo da loja é o inverso da soma\nmodel LedgerEntry {\n  id            String            @id @default(uuid())\n  transactionId String\n  transaction   LedgerTransaction @relation(fields: [transactionId], references: [id], onDelete: Cascade)\n  shopId        String\n  account       LedgerAccount\n  amount        Float\n\n  @@index([shopId, account])\n}\n\nmodel Payout {\n  id            String              @id @default(uuid())\n  shopId        String\n  shop          Shop                @relation(fields: [shopId], references: [id])\n  amount        Float\n  status        PayoutStatus        @default(PENDING)\n  provider      String\n  reference     String?\n  failureReason String?\n  requestedAt   DateTime            @default(now())\n  paidAt        DateTime?\n  ledger        LedgerTransaction[]\n\n  @@index([shopId])\n}\n\nmodel Notification {\n  id        String           @id @default(uuid())\n  userId    String\n  user      User             @relation(fields: [userId], references: [id], onDelete: Cascade)\n  type      NotificationType\n  title     String\n  body      String\n  // Referências para o app abrir a tela certa (orderId, shopOrderId, shopId...)\n  data      Json?\n  readAt    DateTime?\n  createdAt DateTime         @default(now())\n\n  @@index([userId, createdAt])\n}\n\n// Ausência de linha = evento ligado nos dois canais\nmodel NotificationPreference {\n  userId String\n  user   User             @relation(fields: [userId], references: [id], onDelete: Cascade)\n  type   NotificationType\n  inApp  Boolean          @default(true)\n  email  Boolean          @default(true)\n\n  @@id([userId, type])\n}\n\n// Outbox de e-mails: gravada na mesma transação do evento e entregue pelo worker\n// (src/lib/notifications.ts), que tenta de novo com espera crescente\nmodel EmailOutbox {\n  id            String      @id @default(uuid())\n  userId        String?\n  user          User?       @relation(fields: [userId], references: [id], onDelete: SetNull)\n  to            String\n  subject       String\n  text          String\n  status        EmailStatus @default(PENDING)\n  attempts      Int         @default(0)\n  lastError     String?\n  nextAttemptAt DateTime    @default(now())\n  sentAt        DateTime?\n  createdAt     DateTime    @default(now())\n\n  @@index([status, nextAttemptAt])\n}\n\n// Id sequencial: é o \"id\" do SSE, e o painel retoma a partir dele ao reconectar (Last-Event-ID)\nmodel ShopEvent {\n  id        Int           @id @default(autoincrement())\n  shopId    String\n  shop      Shop          @relation(fields: [shopId], references: [id], onDelete: Cascade)\n  type      ShopEventType\n  data      Json\n  createdAt DateTime      @default(now())\n\n  @@index([shopId, id])\n  @@index([createdAt])\n}\n\n// Histórico de estoque, só de inclusão: toda mudança de Product.stock/ProductVariant.stock\n// passa por moveStock (src/lib/inventory.ts) e deixa uma linha aqui\nmodel StockMovement {\n  id         String            @id @default(uuid())\n  productId  String\n  product    Product           @relation(fields: [productId], references: [id], onDelete: Cascade)\n  variantId  String?\n  variant    ProductVariant?   @relation(fields: [variantId], references: [id])\n  type       StockMovementType\n  // Positivo entra, negativo sai\n  quantity   Int\n  // Estoque do produto (ou da variante) logo depois do movimento\n  stockAfter Int\n  orderId    String?\n  order      Order?            @relation(fields: [orderId], references: [id])\n  actorId    String?\n  actor      User?             @relation(fields: [actorId], references: [id])\n  note       String?\n  createdAt  DateTime          @default(now())\n\n  @@index([productId, createdAt])\n}\n\n// Pedido de devolução de um item entregue; o vendedor aprova (com reembolso) ou recusa\nmodel ReturnRequest {\n  id           String       @id @default(uuid())\n  orderItemId  String\n  orderItem    OrderItem    @relation(fields: [orderItemId], references: [id])\n  shopOrderId  String\n  shopOrder    ShopOrder    @relation(fields: [shopOrderId], references: [id])\n  customerId   String\n  customer     User         @relation(fields: [customerId], references: [id])\n  quantity     Int\n  reason       String\n  photos       String[]\n  status       ReturnStatus @default(REQUESTED)\n  // Valor devolvido ao cliente na aprovação (total ou parcial)\n  refundAmount Float?\n  sellerNote   String?\n  decidedAt    DateTime?\n  createdAt    DateTime     @default(now())\n  refunds      Refund[]\n\n  @@index([shopOrderId, status])\n  @@index([customerId])\n  @@index([orderItemId])\n}\n\n// Dinheiro devolvido ao cliente. O lançamento no livro é feito junto com o cancelamento ou a\n// aprovação da devolução; a chamada ao meio de pagamento vem depois, com novas tentativas\nmodel Refund {\n  id              String         @id @default(uuid())\n  orderId         String\n  order           Order          @relation(fields: [orderId], references: [id])\n  shopOrderId     String\n  shopOrder       ShopOrder      @relation(fields: [shopOrderId], references: [id])\n  returnRequestId String?\n  returnRequest   ReturnRequest? @relation(fields: [returnRequestId], references: [id])\n  amount          Float\n  status          RefundStatus   @default(PENDING)\n  provider        String\n  reference       String?\n  attempts        Int            @default(0)\n  lastError       String?\n  nextAttemptAt   DateTime       @default(now())\n  refundedAt      DateTime?\n  createdAt       DateTime       @default(now())\n\n  @@index([status, nextAttemptAt])\n  @@index([shopOrderId])\n}\n\n// Cada mudança de preço do produto, para o histórico exibido na lista de desejos\nmodel PriceHistory {\n  id        String   @id @default(uuid())\n  productId String\n  product   Product  @relation(fields: [productId], references: [id], onDelete: Cascade)\n  price     Float\n  createdAt DateTime @default(now())\n\n  @@index([productId, createdAt])\n}\n\n// Toda ação da equipe da plataforma (moderação, comissões, categorias, cupons), com quem fez e quando\nmodel AdminAuditLog {\n  id         String          @id @default(uuid())\n  actorId    String\n  actor      User            @relation(fields: [actorId], references: [id])\n  action     AdminAction\n  targetType AuditTargetType\n  targetId   String\n  reason     String?\n  // Valores relevantes da mudança (ex: comissão anterior e nova)\n  data       Json?\n  createdAt  DateTime        @default(now())\n\n  @@index([targetType, targetId])\n  @@index([createdAt])\n}\n"
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"Role\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ShopToUser\"},{\"name\":\"cpf\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"phone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"birthdate\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"addresses\",\"kind\":\"object\",\"type\":\"Address\",\"relationName\":\"AddressToUser\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"favorites\",\"kind\":\"object\",\"type\":\"Favorite\",\"relationName\":\"FavoriteToUser\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToUser\"}],\"dbName\":null},\"Shop\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"image\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ShopToUser\"},{\"name\":\"products\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToShop\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Address\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"street\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"number\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"complement\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"neighborhood\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"city\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"state\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"zipCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AddressToUser\"},{\"name\":\"isPrimary\",\"kind\":\"scalar\",\"type\":\"Boolean\"}],\"dbName\":null},\"Product\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"stock\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"category\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"image\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"images\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"variations\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rating\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"reviews\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"sold\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ProductToShop\"},{\"name\":\"orderItems\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToProduct\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"favorites\",\"kind\":\"object\",\"type\":\"Favorite\",\"relationName\":\"FavoriteToProduct\"}],\"dbName\":null},\"Order\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customer\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"OrderToUser\"},{\"name\":\"total\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"paymentMethod\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"addressId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"date\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderToOrderItem\"}],\"dbName\":null},\"OrderItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"OrderItemToProduct\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"image\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToOrderItem\"}],\"dbName\":null},\"CartItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"image\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Favorite\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"FavoriteToUser\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"FavoriteToProduct\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"Role\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ShopToUser\"},{\"name\":\"cpf\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"phone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"birthdate\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"emailVerifiedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"addresses\",\"kind\":\"object\",\"type\":\"Address\",\"relationName\":\"AddressToUser\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"favorites\",\"kind\":\"object\",\"type\":\"Favorite\",\"relationName\":\"FavoriteToUser\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToUser\"},{\"name\":\"refreshTokens\",\"kind\":\"object\",\"type\":\"RefreshToken\",\"relationName\":\"RefreshTokenToUser\"},{\"name\":\"reviews\",\"kind\":\"object\",\"type\":\"Review\",\"relationName\":\"ReviewToUser\"},{\"name\":\"statusChanges\",\"kind\":\"object\",\"type\":\"OrderStatusHistory\",\"relationName\":\"OrderStatusHistoryToUser\"},{\"name\":\"cartItems\",\"kind\":\"object\",\"type\":\"CartItem\",\"relationName\":\"CartItemToUser\"},{\"name\":\"couponUses\",\"kind\":\"object\",\"type\":\"CouponRedemption\",\"relationName\":\"CouponRedemptionToUser\"},{\"name\":\"notifications\",\"kind\":\"object\",\"type\":\"Notification\",\"relationName\":\"NotificationToUser\"},{\"name\":\"notificationPreferences\",\"kind\":\"object\",\"type\":\"NotificationPreference\",\"relationName\":\"NotificationPreferenceToUser\"},{\"name\":\"emails\",\"kind\":\"object\",\"type\":\"EmailOutbox\",\"relationName\":\"EmailOutboxToUser\"},{\"name\":\"stockMovements\",\"kind\":\"object\",\"type\":\"StockMovement\",\"relationName\":\"StockMovementToUser\"},{\"name\":\"returnRequests\",\"kind\":\"object\",\"type\":\"ReturnRequest\",\"relationName\":\"ReturnRequestToUser\"},{\"name\":\"tokens\",\"kind\":\"object\",\"type\":\"UserToken\",\"relationName\":\"UserToUserToken\"},{\"name\":\"adminActions\",\"kind\":\"object\",\"type\":\"AdminAuditLog\",\"relationName\":\"AdminAuditLogToUser\"}],\"dbName\":null},\"UserToken\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserToUserToken\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"UserTokenType\"},{\"name\":\"tokenHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"usedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"RefreshToken\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"RefreshTokenToUser\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Shop\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"image\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"commissionRate\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ShopStatus\"},{\"name\":\"statusReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"moderatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ShopToUser\"},{\"name\":\"products\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToShop\"},{\"name\":\"shopOrders\",\"kind\":\"object\",\"type\":\"ShopOrder\",\"relationName\":\"ShopToShopOrder\"},{\"name\":\"coupons\",\"kind\":\"object\",\"type\":\"Coupon\",\"relationName\":\"CouponToShop\"},{\"name\":\"ledger\",\"kind\":\"object\",\"type\":\"LedgerTransaction\",\"relationName\":\"LedgerTransactionToShop\"},{\"name\":\"payouts\",\"kind\":\"object\",\"type\":\"Payout\",\"relationName\":\"PayoutToShop\"},{\"name\":\"events\",\"kind\":\"object\",\"type\":\"ShopEvent\",\"relationName\":\"ShopToShopEvent\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Address\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"street\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"number\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"complement\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"neighborhood\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"city\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"state\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"zipCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AddressToUser\"},{\"name\":\"isPrimary\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"AddressToOrder\"}],\"dbName\":null},\"Product\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"stock\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"stockVersion\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lowStockThreshold\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"unpublishedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"unpublishedReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToProduct\"},{\"name\":\"image\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"images\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rating\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"reviews\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"sold\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"weight\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"length\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"width\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"height\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ProductToShop\"},{\"name\":\"orderItems\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToProduct\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"favorites\",\"kind\":\"object\",\"type\":\"Favorite\",\"relationName\":\"FavoriteToProduct\"},{\"name\":\"reviewList\",\"kind\":\"object\",\"type\":\"Review\",\"relationName\":\"ProductToReview\"},{\"name\":\"variants\",\"kind\":\"object\",\"type\":\"ProductVariant\",\"relationName\":\"ProductToProductVariant\"},{\"name\":\"cartItems\",\"kind\":\"object\",\"type\":\"CartItem\",\"relationName\":\"CartItemToProduct\"},{\"name\":\"stockMovements\",\"kind\":\"object\",\"type\":\"StockMovement\",\"relationName\":\"ProductToStockMovement\"},{\"name\":\"priceHistory\",\"kind\":\"object\",\"type\":\"PriceHistory\",\"relationName\":\"PriceHistoryToProduct\"}],\"dbName\":null},\"Category\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"slug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"image\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"position\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"commissionRate\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"parentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"parent\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryTree\"},{\"name\":\"children\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryTree\"},{\"name\":\"products\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"CategoryToProduct\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"ProductVariant\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToProductVariant\"},{\"name\":\"options\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sku\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"stock\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"image\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"active\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"cartItems\",\"kind\":\"object\",\"type\":\"CartItem\",\"relationName\":\"CartItemToProductVariant\"},{\"name\":\"orderItems\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToProductVariant\"},{\"name\":\"stockMovements\",\"kind\":\"object\",\"type\":\"StockMovement\",\"relationName\":\"ProductVariantToStockMovement\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Order\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customer\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"OrderToUser\"},{\"name\":\"total\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"paymentMethod\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"addressId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"address\",\"kind\":\"object\",\"type\":\"Address\",\"relationName\":\"AddressToOrder\"},{\"name\":\"shippingAddress\",\"kind\":\"object\",\"type\":\"OrderAddress\",\"relationName\":\"OrderToOrderAddress\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"OrderStatus\"},{\"name\":\"paymentIntentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"paymentStatus\",\"kind\":\"enum\",\"type\":\"PaymentStatus\"},{\"name\":\"couponId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"coupon\",\"kind\":\"object\",\"type\":\"Coupon\",\"relationName\":\"CouponToOrder\"},{\"name\":\"couponCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"discount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"reservedUntil\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"date\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderToOrderItem\"},{\"name\":\"shopOrders\",\"kind\":\"object\",\"type\":\"ShopOrder\",\"relationName\":\"OrderToShopOrder\"},{\"name\":\"statusHistory\",\"kind\":\"object\",\"type\":\"OrderStatusHistory\",\"relationName\":\"OrderToOrderStatusHistory\"},{\"name\":\"stockMovements\",\"kind\":\"object\",\"type\":\"StockMovement\",\"relationName\":\"OrderToStockMovement\"},{\"name\":\"refunds\",\"kind\":\"object\",\"type\":\"Refund\",\"relationName\":\"OrderToRefund\"}],\"dbName\":null},\"ShopOrder\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToShopOrder\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ShopToShopOrder\"},{\"name\":\"subtotal\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"shippingCost\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"discount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"shippingDiscount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"shippingService\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shippingDays\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"shipment\",\"kind\":\"object\",\"type\":\"Shipment\",\"relationName\":\"ShipmentToShopOrder\"},{\"name\":\"ledger\",\"kind\":\"object\",\"type\":\"LedgerTransaction\",\"relationName\":\"LedgerTransactionToShopOrder\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"OrderStatus\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToShopOrder\"},{\"name\":\"statusHistory\",\"kind\":\"object\",\"type\":\"OrderStatusHistory\",\"relationName\":\"OrderStatusHistoryToShopOrder\"},{\"name\":\"returns\",\"kind\":\"object\",\"type\":\"ReturnRequest\",\"relationName\":\"ReturnRequestToShopOrder\"},{\"name\":\"refunds\",\"kind\":\"object\",\"type\":\"Refund\",\"relationName\":\"RefundToShopOrder\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"OrderAddress\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToOrderAddress\"},{\"name\":\"recipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"street\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"number\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"complement\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"neighborhood\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"city\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"state\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"zipCode\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"Shipment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopOrderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopOrder\",\"kind\":\"object\",\"type\":\"ShopOrder\",\"relationName\":\"ShipmentToShopOrder\"},{\"name\":\"carrier\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"trackingCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shippedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deliveredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"events\",\"kind\":\"object\",\"type\":\"ShipmentEvent\",\"relationName\":\"ShipmentToShipmentEvent\"}],\"dbName\":null},\"ShipmentEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shipmentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shipment\",\"kind\":\"object\",\"type\":\"Shipment\",\"relationName\":\"ShipmentToShipmentEvent\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"location\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"occurredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"OrderStatusHistory\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToOrderStatusHistory\"},{\"name\":\"shopOrderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopOrder\",\"kind\":\"object\",\"type\":\"ShopOrder\",\"relationName\":\"OrderStatusHistoryToShopOrder\"},{\"name\":\"fromStatus\",\"kind\":\"enum\",\"type\":\"OrderStatus\"},{\"name\":\"toStatus\",\"kind\":\"enum\",\"type\":\"OrderStatus\"},{\"name\":\"actorId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"actor\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"OrderStatusHistoryToUser\"},{\"name\":\"actorRole\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"note\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"OrderItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"OrderItemToProduct\"},{\"name\":\"variantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"variant\",\"kind\":\"object\",\"type\":\"ProductVariant\",\"relationName\":\"OrderItemToProductVariant\"},{\"name\":\"variantName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"image\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToOrderItem\"},{\"name\":\"shopOrderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopOrder\",\"kind\":\"object\",\"type\":\"ShopOrder\",\"relationName\":\"OrderItemToShopOrder\"},{\"name\":\"review\",\"kind\":\"object\",\"type\":\"Review\",\"relationName\":\"OrderItemToReview\"},{\"name\":\"returns\",\"kind\":\"object\",\"type\":\"ReturnRequest\",\"relationName\":\"OrderItemToReturnRequest\"}],\"dbName\":null},\"CartItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"CartItemToUser\"},{\"name\":\"cartToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"CartItemToProduct\"},{\"name\":\"variantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"variant\",\"kind\":\"object\",\"type\":\"ProductVariant\",\"relationName\":\"CartItemToProductVariant\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"image\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Favorite\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"FavoriteToUser\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"FavoriteToProduct\"},{\"name\":\"priceAtFavorite\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"lastPriceAlertAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastStockAlertAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"StripeEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"processedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Review\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToReview\"},{\"name\":\"orderItemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderItem\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToReview\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ReviewToUser\"},{\"name\":\"rating\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"comment\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"photos\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sellerReply\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sellerRepliedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Coupon\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"code\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"CouponType\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"maxDiscount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"CouponToShop\"},{\"name\":\"minOrderValue\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"productIds\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"categoryIds\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startsAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"endsAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"usageLimit\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"perUserLimit\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"usedCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"active\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"CouponToOrder\"},{\"name\":\"redemptions\",\"kind\":\"object\",\"type\":\"CouponRedemption\",\"relationName\":\"CouponToCouponRedemption\"}],\"dbName\":null},\"CouponRedemption\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"couponId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"coupon\",\"kind\":\"object\",\"type\":\"Coupon\",\"relationName\":\"CouponToCouponRedemption\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"CouponRedemptionToUser\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"discount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"LedgerTransaction\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"LedgerTransactionType\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"LedgerTransactionToShop\"},{\"name\":\"shopOrderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopOrder\",\"kind\":\"object\",\"type\":\"ShopOrder\",\"relationName\":\"LedgerTransactionToShopOrder\"},{\"name\":\"payoutId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"payout\",\"kind\":\"object\",\"type\":\"Payout\",\"relationName\":\"LedgerTransactionToPayout\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"entries\",\"kind\":\"object\",\"type\":\"LedgerEntry\",\"relationName\":\"LedgerEntryToLedgerTransaction\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"LedgerEntry\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"transactionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"transaction\",\"kind\":\"object\",\"type\":\"LedgerTransaction\",\"relationName\":\"LedgerEntryToLedgerTransaction\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"account\",\"kind\":\"enum\",\"type\":\"LedgerAccount\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"}],\"dbName\":null},\"Payout\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"PayoutToShop\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"PayoutStatus\"},{\"name\":\"provider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reference\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"failureReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"requestedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"paidAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"ledger\",\"kind\":\"object\",\"type\":\"LedgerTransaction\",\"relationName\":\"LedgerTransactionToPayout\"}],\"dbName\":null},\"Notification\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"NotificationToUser\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"NotificationType\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"body\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"data\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"readAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"NotificationPreference\":{\"fields\":[{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"NotificationPreferenceToUser\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"NotificationType\"},{\"name\":\"inApp\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"Boolean\"}],\"dbName\":null},\"EmailOutbox\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"EmailOutboxToUser\"},{\"name\":\"to\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subject\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"text\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"EmailStatus\"},{\"name\":\"attempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastError\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nextAttemptAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"ShopEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ShopToShopEvent\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"ShopEventType\"},{\"name\":\"data\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"StockMovement\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToStockMovement\"},{\"name\":\"variantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"variant\",\"kind\":\"object\",\"type\":\"ProductVariant\",\"relationName\":\"ProductVariantToStockMovement\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"StockMovementType\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"stockAfter\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToStockMovement\"},{\"name\":\"actorId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"actor\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"StockMovementToUser\"},{\"name\":\"note\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"ReturnRequest\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderItemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderItem\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToReturnRequest\"},{\"name\":\"shopOrderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopOrder\",\"kind\":\"object\",\"type\":\"ShopOrder\",\"relationName\":\"ReturnRequestToShopOrder\"},{\"name\":\"customerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customer\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ReturnRequestToUser\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"photos\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ReturnStatus\"},{\"name\":\"refundAmount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"sellerNote\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"decidedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"refunds\",\"kind\":\"object\",\"type\":\"Refund\",\"relationName\":\"RefundToReturnRequest\"}],\"dbName\":null},\"Refund\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToRefund\"},{\"name\":\"shopOrderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopOrder\",\"kind\":\"object\",\"type\":\"ShopOrder\",\"relationName\":\"RefundToShopOrder\"},{\"name\":\"returnRequestId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"returnRequest\",\"kind\":\"object\",\"type\":\"ReturnRequest\",\"relationName\":\"RefundToReturnRequest\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"RefundStatus\"},{\"name\":\"provider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reference\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"attempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastError\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nextAttemptAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"refundedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"PriceHistory\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"PriceHistoryToProduct\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"AdminAuditLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"actorId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"actor\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AdminAuditLogToUser\"},{\"name\":\"action\",\"kind\":\"enum\",\"type\":\"AdminAction\"},{\"name\":\"targetType\",\"kind\":\"enum\",\"type\":\"AuditTargetType\"},{\"name\":\"targetId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"data\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
 defineDmmfProperty(exports.Prisma, config.runtimeDataModel)
 config.compilerWasm = {
       getRuntime: async () => require('./query_compiler_bg.js'),
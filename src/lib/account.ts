@@ -0,0 +1,268 @@
+import crypto from 'crypto';
+import prisma from './prisma.js';
+import { hashPassword, hashToken, revokeAllRefreshTokens, verifyPassword } from './auth.js';
+import { maskCpf } from './cpf.js';
+import type { Prisma, UserTokenType } from '../generated/prisma/client/client.js';
+
+// Validade dos links enviados por e-mail
+export const EMAIL_VERIFICATION_HOURS = Number(process.env.EMAIL_VERIFICATION_HOURS ?? 48);
+export const PASSWORD_RESET_MINUTES = Number(process.env.PASSWORD_RESET_MINUTES ?? 60);
+
+// Página do app que recebe o token; sem ela o e-mail leva só o código
+const APP_PUBLIC_URL = process.env.APP_PUBLIC_URL?.replace(/\/$/, '');
+
+export class AccountError extends Error {
+    constructor(
+        public code: 'INVALID_TOKEN' | 'INVALID_PASSWORD' | 'ALREADY_VERIFIED' | 'HAS_SHOP' | 'OPEN_ORDERS',
+        message: string
+    ) {
+        super(message);
+    }
+}
+
+// O CPF nunca sai inteiro nas respostas; só a exportação dos dados devolve o valor salvo
+export function publicUser<T extends { cpf: string | null }>(user: T) {
+    return { ...user, cpf: maskCpf(user.cpf) };
+}
+
+// --- LINKS POR E-MAIL ---
+
+const TOKEN_EMAILS: Record<UserTokenType, { subject: string; path: string; text: string; ttlMs: number; validity: string }> = {
+    EMAIL_VERIFICATION: {
+        subject: "Confirme seu e-mail",
+        path: '/confirmar-email',
+        text: "Confirme que este e-mail é seu para receber os avisos da sua conta.",
+        ttlMs: EMAIL_VERIFICATION_HOURS * 60 * 60 * 1000,
+        validity: `${EMAIL_VERIFICATION_HOURS} horas`
+    },
+    PASSWORD_RESET: {
+        subject: "Redefinição de senha",
+        path: '/redefinir-senha',
+        text: "Recebemos um pedido para trocar a senha da sua conta. Se não foi você, ignore este e-mail.",
+        ttlMs: PASSWORD_RESET_MINUTES * 60 * 1000,
+        validity: `${PASSWORD_RESET_MINUTES} minutos`
+    }
+};
+
+// Gera o link de uso único e põe o e-mail na outbox, dentro da transação que o pediu.
+// Um link novo invalida os anteriores do mesmo tipo que ainda não foram usados
+async function sendTokenEmail(tx: Prisma.TransactionClient, user: { id: string; email: string }, type: UserTokenType) {
+    const token = crypto.randomBytes(32).toString('hex');
+    const message = TOKEN_EMAILS[type];
+
+    await tx.userToken.deleteMany({ where: { userId: user.id, type, usedAt: null } });
+    await tx.userToken.create({
+        data: {
+            userId: user.id,
+            type,
+            tokenHash: hashToken(token),
+            email: user.email,
+            expiresAt: new Date(Date.now() + message.ttlMs)
+        }
+    });
+
+    const link = APP_PUBLIC_URL ? `${APP_PUBLIC_URL}${message.path}?token=${token}` : `Código: ${token}`;
+    await tx.emailOutbox.create({
+        data: {
+            userId: user.id,
+            to: user.email,
+            subject: message.subject,
+            text: `${message.text}\n\n${link}\n\nO link vale por ${message.validity}.\n\nEquipe Insinuante`
+        }
+    });
+}
+
+export function sendEmailVerification(tx: Prisma.TransactionClient, user: { id: string; email: string }) {
+    return sendTokenEmail(tx, user, 'EMAIL_VERIFICATION');
+}
+
+export async function requestEmailVerification(userId: string) {
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { id: true, email: true, emailVerifiedAt: true } });
+    if (user.emailVerifiedAt) throw new AccountError('ALREADY_VERIFIED', "Este e-mail já foi confirmado");
+
+    await prisma.$transaction(tx => sendEmailVerification(tx, user));
+}
+
+// Marca o token como usado de forma condicional: dois cliques simultâneos não valem os dois
+async function consumeToken(tx: Prisma.TransactionClient, type: UserTokenType, token: string) {
+    const tokenHash = hashToken(token);
+    const { count } = await tx.userToken.updateMany({
+        where: { tokenHash, type, usedAt: null, expiresAt: { gt: new Date() }, user: { deletedAt: null } },
+        data: { usedAt: new Date() }
+    });
+    if (count === 0) throw new AccountError('INVALID_TOKEN', "Link inválido ou expirado. Peça um novo");
+
+    return tx.userToken.findUniqueOrThrow({ where: { tokenHash }, include: { user: { select: { email: true } } } });
+}
+
+export function verifyEmail(token: string) {
+    return prisma.$transaction(async (tx) => {
+        const { userId, email, user } = await consumeToken(tx, 'EMAIL_VERIFICATION', token);
+        if (user.email !== email) throw new AccountError('INVALID_TOKEN', "Este link confirma um e-mail que não é mais o da conta");
+
+        return tx.user.update({ where: { id: userId }, data: { emailVerifiedAt: new Date() }, include: { shop: true } });
+    });
+}
+
+// Responde igual exista ou não a conta, para não revelar quais e-mails estão cadastrados
+export async function requestPasswordReset(email: string) {
+    const user = await prisma.user.findFirst({ where: { email, deletedAt: null }, select: { id: true, email: true } });
+    if (!user) return;
+
+    await prisma.$transaction(tx => sendTokenEmail(tx, user, 'PASSWORD_RESET'));
+}
+
+// A senha nova derruba todas as sessões abertas; quem recebeu o link também provou ter o e-mail
+export async function resetPassword(token: string, password: string) {
+    const passwordHash = await hashPassword(password);
+
+    await prisma.$transaction(async (tx) => {
+        const { userId, email, user } = await consumeToken(tx, 'PASSWORD_RESET', token);
+
+        await tx.user.update({
+            where: { id: userId },
+            data: {
+                password: passwordHash,
+                ...(user.email === email && { emailVerifiedAt: new Date() })
+            }
+        });
+        await revokeAllRefreshTokens(tx, userId);
+    });
+}
+
+// --- PERFIL ---
+
+type ProfileChanges = {
+    name?: string;
+    email?: string;
+    password?: string;
+    currentPassword?: string;
+    phone?: string | null;
+    birthdate?: string | null;
+};
+
+async function checkPassword(userId: string, password: string | undefined) {
+    const { password: stored } = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { password: true } });
+    if (!password || !(await verifyPassword(password, stored)).valid) {
+        throw new AccountError('INVALID_PASSWORD', "Senha atual incorreta");
+    }
+}
+
+// Trocar e-mail ou senha pede a senha atual. O e-mail novo fica pendente de confirmação e o
+// antigo recebe um aviso; a senha nova encerra todas as sessões abertas
+export async function updateProfile(userId: string, { currentPassword, email, password, ...profile }: ProfileChanges) {
+    const current = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { email: true } });
+    const emailChanged = email !== undefined && email !== current.email;
+
+    if (emailChanged || password) await checkPassword(userId, currentPassword);
+    const passwordHash = password ? await hashPassword(password) : undefined;
+
+    return prisma.$transaction(async (tx) => {
+        // E-mail repetido viola a chave única e vira 409 no tratador de erros
+        const user = await tx.user.update({
+            where: { id: userId },
+            data: {
+                ...profile,
+                ...(emailChanged && { email, emailVerifiedAt: null }),
+                password: passwordHash
+            },
+            include: { shop: true }
+        });
+
+        if (emailChanged) {
+            await sendEmailVerification(tx, user);
+            await tx.emailOutbox.create({
+                data: {
+                    userId,
+                    to: current.email,
+                    subject: "O e-mail da sua conta foi alterado",
+                    text: `O e-mail da sua conta Insinuante foi trocado para ${email}. Se não foi você, fale com o suporte.\n\nEquipe Insinuante`
+                }
+            });
+        }
+        if (password) await revokeAllRefreshTokens(tx, userId);
+
+        return user;
+    });
+}
+
+// --- LGPD ---
+
+// Tudo o que guardamos sobre o titular, para a portabilidade dos dados
+export async function exportUserData(userId: string) {
+    const { password: _, ...user } = await prisma.user.findUniqueOrThrow({
+        where: { id: userId },
+        omit: { password: false },
+        include: {
+            shop: true,
+            addresses: true,
+            orders: {
+                include: { items: true, shippingAddress: true, shopOrders: { include: { shipment: true } }, statusHistory: true, refunds: true },
+                orderBy: { date: 'desc' }
+            },
+            favorites: { include: { product: { select: { id: true, name: true, price: true } } } },
+            cartItems: true,
+            reviews: true,
+            returnRequests: true,
+            couponUses: true,
+            notifications: { orderBy: { createdAt: 'desc' } },
+            notificationPreferences: true,
+            refreshTokens: { select: { createdAt: true, expiresAt: true, revokedAt: true } }
+        }
+    });
+
+    const { refreshTokens: sessions, ...data } = user;
+    return { exportedAt: new Date(), user: { ...data, sessions } };
+}
+
+// Pedidos que ainda dependem do cliente (pagamento, entrega ou devolução em andamento)
+const OPEN_ORDER_STATUSES = ['AWAITING_PAYMENT', 'TO_SHIP', 'SHIPPED'] as const;
+
+// Apaga os dados pessoais e mantém a linha do usuário, para que pedidos, avaliações e o livro
+// das lojas continuem com as chaves válidas. O endereço de entrega dos pedidos fica só com
+// cidade, UF e CEP, que ainda servem aos relatórios fiscais
+export async function deleteAccount(userId: string, password: string) {
+    await checkPassword(userId, password);
+
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, include: { shop: { select: { id: true } } } });
+    if (user.shop) throw new AccountError('HAS_SHOP', "Contas com loja não podem ser excluídas por aqui. Fale com o suporte");
+
+    const openOrders = await prisma.order.count({ where: { customerId: userId, status: { in: [...OPEN_ORDER_STATUSES] } } });
+    const openReturns = await prisma.returnRequest.count({ where: { customerId: userId, status: 'REQUESTED' } });
+    if (openOrders > 0 || openReturns > 0) {
+        throw new AccountError('OPEN_ORDERS', "Há pedidos ou devoluções em andamento. Aguarde a conclusão ou cancele-os antes de excluir a conta");
+    }
+
+    // Senha aleatória que ninguém conhece: a conta não volta a entrar
+    const lockedPassword = await hashPassword(crypto.randomBytes(32).toString('hex'));
+
+    await prisma.$transaction(async (tx) => {
+        await tx.user.update({
+            where: { id: userId },
+            data: {
+                name: 'Usuário removido',
+                // .invalid nunca recebe e-mail e libera o endereço original para um novo cadastro
+                email: `removido-${userId}@excluido.invalid`,
+                password: lockedPassword,
+                cpf: null,
+                phone: null,
+                birthdate: null,
+                emailVerifiedAt: null,
+                deletedAt: new Date()
+            }
+        });
+
+        await tx.orderAddress.updateMany({
+            where: { order: { customerId: userId } },
+            data: { recipient: 'Cliente removido', street: '-', number: '-', complement: null, neighborhood: '-' }
+        });
+        await tx.address.deleteMany({ where: { userId } });
+        await tx.favorite.deleteMany({ where: { userId } });
+        await tx.cartItem.deleteMany({ where: { userId } });
+        await tx.notification.deleteMany({ where: { userId } });
+        await tx.notificationPreference.deleteMany({ where: { userId } });
+        await tx.emailOutbox.deleteMany({ where: { userId } });
+        await tx.userToken.deleteMany({ where: { userId } });
+        await revokeAllRefreshTokens(tx, userId);
+    });
+}
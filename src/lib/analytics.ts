@@ -0,0 +1,336 @@
+import prisma from './prisma.js';
+import { Prisma } from '../generated/prisma/client/client.js';
+import { roundMoney } from './checkout.js';
+
+export const GRANULARITIES = ['day', 'week', 'month'] as const;
+type Granularity = typeof GRANULARITIES[number];
+
+// Fuso usado quando o cliente não informa um (horário de Brasília)
+export const DEFAULT_TIMEZONE = 'America/Sao_Paulo';
+
+// Limite para não gerar séries enormes (2 anos dia a dia)
+const MAX_RANGE_DAYS = 731;
+
+export class AnalyticsQueryError extends Error {}
+
+export type AnalyticsRange = {
+    from: string; // AAAA-MM-DD, inclusivo, no fuso informado
+    to: string;
+    granularity: Granularity;
+    timezone: string;
+};
+
+function isTimeZone(value: string) {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: value });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Data de hoje no fuso pedido (en-CA já formata como AAAA-MM-DD)
+function todayIn(timezone: string) {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(new Date());
+}
+
+function addDays(date: string, days: number) {
+    const value = new Date(`${date}T00:00:00Z`);
+    value.setUTCDate(value.getUTCDate() + days);
+    return value.toISOString().slice(0, 10);
+}
+
+function isDate(value: string) {
+    return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime())
+        && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+}
+
+// Últimos N dias até hoje (inclusive), contados no fuso informado
+export function lastDaysRange(days: number, timezone = DEFAULT_TIMEZONE): AnalyticsRange {
+    const to = todayIn(timezone);
+    return { from: addDays(to, 1 - days), to, granularity: 'day', timezone };
+}
+
+// ?from=2026-10-01&to=2026-10-31&granularity=week&tz=America/Sao_Paulo (padrão: últimos 30 dias, por dia)
+export function parseAnalyticsQuery(query: Record<string, unknown>): AnalyticsRange {
+    const timezone = String(query.tz || DEFAULT_TIMEZONE);
+    if (!isTimeZone(timezone)) throw new AnalyticsQueryError("Fuso horário inválido (use o nome IANA, ex: America/Sao_Paulo)");
+
+    const granularity = (query.granularity || 'day') as Granularity;
+    if (!GRANULARITIES.includes(granularity)) throw new AnalyticsQueryError("Granularidade inválida: use day, week ou month");
+
+    const to = query.to ? String(query.to) : todayIn(timezone);
+    const from = query.from ? String(query.from) : addDays(to, -29);
+    if (!isDate(from) || !isDate(to)) throw new AnalyticsQueryError("Datas devem estar no formato AAAA-MM-DD");
+    if (from > to) throw new AnalyticsQueryError("A data inicial deve ser anterior à final");
+    if (addDays(from, MAX_RANGE_DAYS) < to) throw new AnalyticsQueryError(`O período máximo é de ${MAX_RANGE_DAYS} dias`);
+
+    return { from, to, granularity, timezone };
+}
+
+// As datas são gravadas em UTC; convertemos para o relógio local antes de agrupar ou filtrar
+const localTime = (column: Prisma.Sql, timezone: string) => Prisma.sql`(${column} AT TIME ZONE 'UTC' AT TIME ZONE ${timezone})`;
+
+const inRange = (local: Prisma.Sql, { from, to }: AnalyticsRange) =>
+    Prisma.sql`${local} >= ${from}::timestamp AND ${local} < (${to}::date + 1)::timestamp`;
+
+// Só contam as partes de pedido pagas e não canceladas
+const PAID = Prisma.sql`so."status" NOT IN ('AWAITING_PAYMENT', 'CANCELLED')`;
+
+type SalesRow = { period: string; revenue: number; units: number; orders: number };
+
+// Receita e unidades a partir dos itens da própria loja, em uma série contínua (períodos sem venda = 0)
+export async function salesReport(shopId: string, range: AnalyticsRange) {
+    const { from, to, granularity, timezone } = range;
+    const orderDate = localTime(Prisma.sql`o."date"`, timezone);
+
+    const rows = await prisma.$queryRaw<SalesRow[]>`
+        WITH sales AS (
+            SELECT date_trunc(${granularity}, ${orderDate}) AS period,
+                   SUM(oi."price" * oi."quantity") AS revenue,
+                   SUM(oi."quantity") AS units,
+                   COUNT(DISTINCT so."id") AS orders
+            FROM "OrderItem" oi
+            JOIN "ShopOrder" so ON so."id" = oi."shopOrderId"
+            JOIN "Order" o ON o."id" = so."orderId"
+            WHERE so."shopId" = ${shopId} AND ${PAID} AND ${inRange(orderDate, range)}
+            GROUP BY 1
+        )
+        SELECT to_char(s.period, 'YYYY-MM-DD') AS period,
+               COALESCE(sales.revenue, 0)::float8 AS revenue,
+               COALESCE(sales.units, 0)::int AS units,
+               COALESCE(sales.orders, 0)::int AS orders
+        FROM generate_series(
+            date_trunc(${granularity}, ${from}::timestamp),
+            date_trunc(${granularity}, ${to}::timestamp),
+            ${`1 ${granularity}`}::interval
+        ) AS s(period)
+        LEFT JOIN sales ON sales.period = s.period
+        ORDER BY s.period
+    `;
+
+    const series = rows.map(row => ({
+        ...row,
+        revenue: roundMoney(row.revenue),
+        averageOrderValue: row.orders > 0 ? roundMoney(row.revenue / row.orders) : 0
+    }));
+
+    // Cada parte de pedido cai em um único período, então a soma das contagens não repete pedidos
+    const revenue = roundMoney(series.reduce((sum, row) => sum + row.revenue, 0));
+    const units = series.reduce((sum, row) => sum + row.units, 0);
+    const orders = series.reduce((sum, row) => sum + row.orders, 0);
+
+    return {
+        ...range,
+        series,
+        totals: { revenue, units, orders, averageOrderValue: orders > 0 ? roundMoney(revenue / orders) : 0 }
+    };
+}
+
+type TopProductRow = { productId: string; name: string; units: number; revenue: number; orders: number };
+
+export async function topProducts(shopId: string, range: AnalyticsRange, { limit = 10, sort = 'revenue' }: { limit?: number; sort?: string } = {}) {
+    const orderDate = localTime(Prisma.sql`o."date"`, range.timezone);
+    const orderBy = sort === 'units' ? Prisma.sql`units DESC, revenue DESC` : Prisma.sql`revenue DESC, units DESC`;
+
+    const rows = await prisma.$queryRaw<TopProductRow[]>`
+        SELECT oi."productId",
+               (array_agg(oi."name" ORDER BY o."date" DESC))[1] AS name,
+               SUM(oi."quantity")::int AS units,
+               SUM(oi."price" * oi."quantity")::float8 AS revenue,
+               COUNT(DISTINCT so."id")::int AS orders
+        FROM "OrderItem" oi
+        JOIN "ShopOrder" so ON so."id" = oi."shopOrderId"
+        JOIN "Order" o ON o."id" = so."orderId"
+        WHERE so."shopId" = ${shopId} AND ${PAID} AND ${inRange(orderDate, range)}
+        GROUP BY oi."productId"
+        ORDER BY ${orderBy}
+        LIMIT ${limit}
+    `;
+
+    return { ...range, products: rows.map(row => ({ ...row, revenue: roundMoney(row.revenue) })) };
+}
+
+type FavoriteRow = { productId: string; name: string; favorites: number; purchases: number };
+
+// Dos clientes que favoritaram o produto no período, quantos o compraram depois de favoritar
+export async function favoritesConversion(shopId: string, range: AnalyticsRange) {
+    const favoritedAt = localTime(Prisma.sql`f."createdAt"`, range.timezone);
+    const orderDate = localTime(Prisma.sql`o."date"`, range.timezone);
+
+    const rows = await prisma.$queryRaw<FavoriteRow[]>`
+        SELECT p."id" AS "productId", p."name",
+               COUNT(*)::int AS favorites,
+               COUNT(*) FILTER (WHERE EXISTS (
+                   SELECT 1
+                   FROM "OrderItem" oi
+                   JOIN "ShopOrder" so ON so."id" = oi."shopOrderId"
+                   JOIN "Order" o ON o."id" = so."orderId"
+                   WHERE oi."productId" = f."productId"
+                     AND o."customerId" = f."userId"
+                     AND o."date" >= f."createdAt"
+                     AND ${PAID}
+                     AND ${orderDate} < (${range.to}::date + 1)::timestamp
+               ))::int AS purchases
+        FROM "Favorite" f
+        JOIN "Product" p ON p."id" = f."productId"
+        WHERE p."shopId" = ${shopId} AND ${inRange(favoritedAt, range)}
+        GROUP BY p."id", p."name"
+        ORDER BY favorites DESC, purchases DESC
+    `;
+
+    const conversion = (purchases: number, favorites: number) => favorites > 0 ? Math.round(purchases / favorites * 1000) / 1000 : 0;
+    const favorites = rows.reduce((sum, row) => sum + row.favorites, 0);
+    const purchases = rows.reduce((sum, row) => sum + row.purchases, 0);
+
+    return {
+        ...range,
+        products: rows.map(row => ({ ...row, conversionRate: conversion(row.purchases, row.favorites) })),
+        totals: { favorites, purchases, conversionRate: conversion(purchases, favorites) }
+    };
+}
+
+// --- PLATAFORMA ---
+
+// O que o cliente pagou pela parte de pedido: itens e frete, já com os cupons
+const SHOP_ORDER_GMV = Prisma.sql`(so."subtotal" - so."discount" + so."shippingCost" - so."shippingDiscount")`;
+
+type PlatformSalesRow = { period: string; gmv: number; orders: number; shops: number };
+type ShopGmvRow = { shopId: string; name: string; gmv: number; orders: number };
+
+// GMV de todas as lojas, em série contínua, e as lojas que mais venderam no período
+export async function platformSales(range: AnalyticsRange, { limit = 10 }: { limit?: number } = {}) {
+    const { from, to, granularity, timezone } = range;
+    const orderDate = localTime(Prisma.sql`o."date"`, timezone);
+
+    const [rows, topShops] = await Promise.all([
+        prisma.$queryRaw<PlatformSalesRow[]>`
+            WITH sales AS (
+                SELECT date_trunc(${granularity}, ${orderDate}) AS period,
+                       SUM(${SHOP_ORDER_GMV}) AS gmv,
+                       COUNT(DISTINCT so."orderId") AS orders,
+                       COUNT(DISTINCT so."shopId") AS shops
+                FROM "ShopOrder" so
+                JOIN "Order" o ON o."id" = so."orderId"
+                WHERE ${PAID} AND ${inRange(orderDate, range)}
+                GROUP BY 1
+            )
+            SELECT to_char(s.period, 'YYYY-MM-DD') AS period,
+                   COALESCE(sales.gmv, 0)::float8 AS gmv,
+                   COALESCE(sales.orders, 0)::int AS orders,
+                   COALESCE(sales.shops, 0)::int AS shops
+            FROM generate_series(
+                date_trunc(${granularity}, ${from}::timestamp),
+                date_trunc(${granularity}, ${to}::timestamp),
+                ${`1 ${granularity}`}::interval
+            ) AS s(period)
+            LEFT JOIN sales ON sales.period = s.period
+            ORDER BY s.period
+        `,
+        prisma.$queryRaw<ShopGmvRow[]>`
+            SELECT so."shopId", sh."name",
+                   SUM(${SHOP_ORDER_GMV})::float8 AS gmv,
+                   COUNT(*)::int AS orders
+            FROM "ShopOrder" so
+            JOIN "Order" o ON o."id" = so."orderId"
+            JOIN "Shop" sh ON sh."id" = so."shopId"
+            WHERE ${PAID} AND ${inRange(orderDate, range)}
+            GROUP BY so."shopId", sh."name"
+            ORDER BY gmv DESC
+            LIMIT ${limit}
+        `
+    ]);
+
+    const series = rows.map(row => ({
+        ...row,
+        gmv: roundMoney(row.gmv),
+        averageOrderValue: row.orders > 0 ? roundMoney(row.gmv / row.orders) : 0
+    }));
+
+    // Um pedido com várias lojas conta uma vez por período, como na série
+    const gmv = roundMoney(series.reduce((sum, row) => sum + row.gmv, 0));
+    const orders = series.reduce((sum, row) => sum + row.orders, 0);
+
+    return {
+        ...range,
+        series,
+        totals: { gmv, orders, averageOrderValue: orders > 0 ? roundMoney(gmv / orders) : 0 },
+        topShops: topShops.map(row => ({ ...row, gmv: roundMoney(row.gmv) }))
+    };
+}
+
+type CommissionRow = { period: string; earned: number; reversed: number };
+type ShopCommissionRow = { shopId: string; name: string; earned: number; reversed: number };
+
+// Comissão lançada no livro: ganha nas vendas e estornada nos reembolsos, pela data do lançamento
+export async function platformCommission(range: AnalyticsRange, { limit = 10 }: { limit?: number } = {}) {
+    const { from, to, granularity, timezone } = range;
+    const postedAt = localTime(Prisma.sql`t."createdAt"`, timezone);
+    const orderDate = localTime(Prisma.sql`o."date"`, timezone);
+
+    // Crédito (negativo) na conta da plataforma é comissão ganha; débito é estorno
+    const earned = Prisma.sql`COALESCE(-SUM(e."amount") FILTER (WHERE e."amount" < 0), 0)::float8`;
+    const reversed = Prisma.sql`COALESCE(SUM(e."amount") FILTER (WHERE e."amount" > 0), 0)::float8`;
+
+    const [rows, byShop, [{ gmv }]] = await Promise.all([
+        prisma.$queryRaw<CommissionRow[]>`
+            WITH commission AS (
+                SELECT date_trunc(${granularity}, ${postedAt}) AS period, ${earned} AS earned, ${reversed} AS reversed
+                FROM "LedgerEntry" e
+                JOIN "LedgerTransaction" t ON t."id" = e."transactionId"
+                WHERE e."account" = 'PLATFORM_COMMISSION' AND ${inRange(postedAt, range)}
+                GROUP BY 1
+            )
+            SELECT to_char(s.period, 'YYYY-MM-DD') AS period,
+                   COALESCE(commission.earned, 0)::float8 AS earned,
+                   COALESCE(commission.reversed, 0)::float8 AS reversed
+            FROM generate_series(
+                date_trunc(${granularity}, ${from}::timestamp),
+                date_trunc(${granularity}, ${to}::timestamp),
+                ${`1 ${granularity}`}::interval
+            ) AS s(period)
+            LEFT JOIN commission ON commission.period = s.period
+            ORDER BY s.period
+        `,
+        prisma.$queryRaw<ShopCommissionRow[]>`
+            SELECT e."shopId", sh."name", ${earned} AS earned, ${reversed} AS reversed
+            FROM "LedgerEntry" e
+            JOIN "LedgerTransaction" t ON t."id" = e."transactionId"
+            JOIN "Shop" sh ON sh."id" = e."shopId"
+            WHERE e."account" = 'PLATFORM_COMMISSION' AND ${inRange(postedAt, range)}
+            GROUP BY e."shopId", sh."name"
+            ORDER BY SUM(e."amount") ASC
+            LIMIT ${limit}
+        `,
+        prisma.$queryRaw<{ gmv: number }[]>`
+            SELECT COALESCE(SUM(${SHOP_ORDER_GMV}), 0)::float8 AS gmv
+            FROM "ShopOrder" so
+            JOIN "Order" o ON o."id" = so."orderId"
+            WHERE ${PAID} AND ${inRange(orderDate, range)}
+        `
+    ]);
+
+    const withNet = <T extends { earned: number; reversed: number }>(row: T) => ({
+        ...row,
+        earned: roundMoney(row.earned),
+        reversed: roundMoney(row.reversed),
+        net: roundMoney(row.earned - row.reversed)
+    });
+
+    const series = rows.map(withNet);
+    const net = roundMoney(series.reduce((sum, row) => sum + row.net, 0));
+
+    return {
+        ...range,
+        series,
+        totals: {
+            earned: roundMoney(series.reduce((sum, row) => sum + row.earned, 0)),
+            reversed: roundMoney(series.reduce((sum, row) => sum + row.reversed, 0)),
+            net,
+            gmv: roundMoney(gmv),
+            // Fração do GMV que ficou com a plataforma (0.1 = 10%)
+            takeRate: gmv > 0 ? Math.round(net / gmv * 10000) / 10000 : 0
+        },
+        byShop: byShop.map(withNet)
+    };
+}
@@ -0,0 +1,879 @@
+import { z } from 'zod';
+import { ORDER_STATUSES } from './orderStatus.js';
+import { COUPON_TYPES } from './coupons.js';
+import { GRANULARITIES } from './analytics.js';
+import { NOTIFICATION_TYPES } from './notifications.js';
+import { SHOP_STATUSES } from './moderation.js';
+import { ADMIN_ACTIONS, AUDIT_TARGET_TYPES } from './audit.js';
+
+// Descrição de cada rota para o OpenAPI (src/lib/openapi.ts). Params, query, body e upload
+// vêm dos próprios middlewares da rota; aqui ficam o resumo e o formato da resposta.
+// Toda rota registrada em src/server.ts precisa de uma entrada (ver npm run docs:check)
+
+export type RouteDoc = {
+    summary: string;
+    description?: string;
+    // Corpo da resposta de sucesso; ausente apenas quando a rota responde 204
+    response?: z.ZodType;
+    status?: number;
+    contentType?: string;
+    // Aceita visitantes com o carrinho identificado pelo cabeçalho X-Cart-Token
+    cartToken?: boolean;
+    // Corpo lido sem validate() (ex: webhook com corpo cru)
+    body?: z.ZodType;
+};
+
+// --- ENTIDADES ---
+
+const dateTime = z.string().meta({ format: 'date-time' });
+const money = z.number();
+
+export const errorResponse = z.object({
+    error: z.string(),
+    code: z.string(),
+    details: z.array(z.object({ field: z.string(), message: z.string() })).optional()
+}).meta({ description: "Formato único de erro da API" });
+
+const paginated = <T extends z.ZodType>(item: T) => z.object({
+    data: z.array(item),
+    page: z.number().int(),
+    limit: z.number().int(),
+    total: z.number().int(),
+    totalPages: z.number().int()
+});
+
+const shop = z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string().nullable(),
+    image: z.string().nullable(),
+    commissionRate: z.number().nullable(),
+    status: z.enum(SHOP_STATUSES).meta({ description: "Só lojas ACTIVE aparecem no catálogo" }),
+    statusReason: z.string().nullable().meta({ description: "Motivo da suspensão" }),
+    moderatedAt: dateTime.nullable(),
+    userId: z.string(),
+    createdAt: dateTime
+});
+
+const user = z.object({
+    id: z.string(),
+    name: z.string(),
+    email: z.string(),
+    role: z.enum(['CUSTOMER', 'SELLER', 'ADMIN']),
+    cpf: z.string().nullable().meta({ description: "Mascarado (***.456.789-**)" }),
+    phone: z.string().nullable(),
+    birthdate: z.string().nullable(),
+    emailVerifiedAt: dateTime.nullable(),
+    deletedAt: dateTime.nullable(),
+    createdAt: dateTime,
+    shop: shop.nullable()
+});
+
+const session = z.object({ accessToken: z.string(), refreshToken: z.string() });
+
+const address = z.object({
+    id: z.string(),
+    userId: z.string(),
+    zipCode: z.string(),
+    street: z.string(),
+    number: z.string(),
+    complement: z.string().nullable(),
+    neighborhood: z.string(),
+    city: z.string(),
+    state: z.string(),
+    isPrimary: z.boolean()
+});
+
+const category = z.object({
+    id: z.string(),
+    name: z.string(),
+    slug: z.string(),
+    image: z.string().nullable(),
+    position: z.number().int(),
+    commissionRate: z.number().nullable(),
+    parentId: z.string().nullable(),
+    createdAt: dateTime
+});
+
+// As subcategorias repetem o mesmo formato, em quantos níveis existirem
+const categoryNode = category.extend({ children: z.array(z.looseObject(category.shape)) });
+
+const variant = z.object({
+    id: z.string(),
+    productId: z.string(),
+    options: z.record(z.string(), z.string()),
+    name: z.string(),
+    sku: z.string().nullable(),
+    price: money.nullable(),
+    stock: z.number().int(),
+    image: z.string().nullable(),
+    active: z.boolean(),
+    createdAt: dateTime
+});
+
+const product = z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string(),
+    price: money,
+    stock: z.number().int(),
+    stockVersion: z.number().int().meta({ description: "Muda a cada alteração de estoque; enviada de volta nas edições" }),
+    lowStockThreshold: z.number().int().nullable(),
+    categoryId: z.string(),
+    image: z.string(),
+    images: z.array(z.string()),
+    rating: z.number(),
+    reviews: z.number().int(),
+    sold: z.number().int(),
+    weight: z.number(),
+    length: z.number(),
+    width: z.number(),
+    height: z.number(),
+    shopId: z.string().nullable(),
+    unpublishedAt: dateTime.nullable().meta({ description: "Retirado do catálogo pela equipe da plataforma" }),
+    unpublishedReason: z.string().nullable(),
+    createdAt: dateTime
+});
+
+const stockMovement = z.object({
+    id: z.string(),
+    productId: z.string(),
+    variantId: z.string().nullable(),
+    type: z.enum(['SALE', 'CANCELLATION', 'RETURN', 'ADJUSTMENT', 'IMPORT']),
+    quantity: z.number().int().meta({ description: "Positivo entra, negativo sai" }),
+    stockAfter: z.number().int(),
+    orderId: z.string().nullable(),
+    actorId: z.string().nullable(),
+    note: z.string().nullable(),
+    createdAt: dateTime,
+    variant: z.object({ name: z.string() }).nullable(),
+    actor: z.object({ name: z.string() }).nullable()
+});
+
+const productDetail = product.extend({ category, variants: z.array(variant), shop: shop.nullable().optional() });
+
+const productSearch = paginated(product).extend({
+    sort: z.string(),
+    facets: z.object({
+        categories: z.array(z.object({
+            id: z.string(),
+            name: z.string(),
+            slug: z.string(),
+            parentId: z.string().nullable(),
+            count: z.number().int(),
+            totalCount: z.number().int()
+        })),
+        priceBuckets: z.array(z.object({ min: z.number(), max: z.number().nullable(), count: z.number().int() }))
+    })
+});
+
+const review = z.object({
+    id: z.string(),
+    productId: z.string(),
+    orderItemId: z.string(),
+    userId: z.string(),
+    rating: z.number().int(),
+    comment: z.string().nullable(),
+    photos: z.array(z.string()),
+    sellerReply: z.string().nullable(),
+    sellerRepliedAt: dateTime.nullable(),
+    createdAt: dateTime,
+    user: z.object({ name: z.string() }).optional()
+});
+
+const cartItem = z.object({
+    id: z.string(),
+    userId: z.string().nullable(),
+    cartToken: z.string().nullable(),
+    productId: z.string(),
+    variantId: z.string().nullable(),
+    name: z.string(),
+    price: money,
+    quantity: z.number().int(),
+    image: z.string(),
+    createdAt: dateTime
+});
+
+const cart = z.object({
+    items: z.array(z.object({
+        id: z.string(),
+        productId: z.string(),
+        shopId: z.string().nullable(),
+        categoryId: z.string(),
+        variantId: z.string().nullable(),
+        variantName: z.string().nullable(),
+        name: z.string(),
+        image: z.string(),
+        quantity: z.number().int(),
+        price: money,
+        addedPrice: money,
+        lineTotal: money,
+        available: z.number().int(),
+        priceChanged: z.boolean(),
+        lowStock: z.boolean(),
+        exceedsStock: z.boolean(),
+        unavailable: z.boolean()
+    })),
+    itemCount: z.number().int(),
+    subtotal: money,
+    hasIssues: z.boolean()
+});
+
+const shippingOption = z.object({ service: z.string(), carrier: z.string(), price: money, days: z.number().int() });
+const destination = z.object({ zipCode: z.string(), state: z.string() });
+
+const coupon = z.object({
+    id: z.string(),
+    code: z.string(),
+    description: z.string().nullable(),
+    type: z.enum(COUPON_TYPES),
+    value: z.number(),
+    maxDiscount: money.nullable(),
+    shopId: z.string().nullable(),
+    minOrderValue: money.nullable(),
+    productIds: z.array(z.string()),
+    categoryIds: z.array(z.string()),
+    startsAt: dateTime.nullable(),
+    endsAt: dateTime.nullable(),
+    usageLimit: z.number().int().nullable(),
+    perUserLimit: z.number().int().nullable(),
+    usedCount: z.number().int(),
+    active: z.boolean(),
+    createdAt: dateTime
+});
+
+const orderStatus = z.enum(ORDER_STATUSES);
+
+const orderItem = z.object({
+    id: z.string(),
+    orderId: z.string(),
+    productId: z.string(),
+    variantId: z.string().nullable(),
+    variantName: z.string().nullable(),
+    name: z.string(),
+    quantity: z.number().int(),
+    price: money,
+    image: z.string(),
+    shopOrderId: z.string().nullable()
+});
+
+const refund = z.object({
+    id: z.string(),
+    amount: money,
+    status: z.enum(['PENDING', 'SUCCEEDED', 'FAILED']),
+    refundedAt: dateTime.nullable(),
+    createdAt: dateTime
+});
+
+const returnRequest = z.object({
+    id: z.string(),
+    orderItemId: z.string(),
+    shopOrderId: z.string(),
+    customerId: z.string(),
+    quantity: z.number().int(),
+    reason: z.string(),
+    photos: z.array(z.string()),
+    status: z.enum(['REQUESTED', 'APPROVED', 'REJECTED']),
+    refundAmount: money.nullable(),
+    sellerNote: z.string().nullable(),
+    decidedAt: dateTime.nullable(),
+    createdAt: dateTime,
+    orderItem: orderItem.pick({ id: true, orderId: true, productId: true, name: true, variantName: true, image: true, price: true, quantity: true }),
+    refunds: z.array(refund)
+});
+
+const orderAddress = z.object({
+    id: z.string(),
+    orderId: z.string(),
+    recipient: z.string(),
+    street: z.string(),
+    number: z.string(),
+    complement: z.string().nullable(),
+    neighborhood: z.string(),
+    city: z.string(),
+    state: z.string(),
+    zipCode: z.string()
+});
+
+const shipmentEvent = z.object({
+    id: z.string(),
+    shipmentId: z.string(),
+    status: z.string(),
+    description: z.string(),
+    location: z.string().nullable(),
+    occurredAt: dateTime,
+    createdAt: dateTime
+});
+
+const shipment = z.object({
+    id: z.string(),
+    shopOrderId: z.string(),
+    carrier: z.string(),
+    trackingCode: z.string(),
+    shippedAt: dateTime,
+    deliveredAt: dateTime.nullable(),
+    events: z.array(shipmentEvent).optional()
+});
+
+const shopOrder = z.object({
+    id: z.string(),
+    orderId: z.string(),
+    shopId: z.string(),
+    subtotal: money,
+    shippingCost: money,
+    discount: money,
+    shippingDiscount: money,
+    shippingService: z.string().nullable(),
+    shippingDays: z.number().int().nullable(),
+    status: orderStatus,
+    createdAt: dateTime,
+    shipment: shipment.nullable().optional()
+});
+
+const order = z.object({
+    id: z.string(),
+    customerId: z.string(),
+    total: money,
+    paymentMethod: z.string(),
+    addressId: z.string().nullable(),
+    status: orderStatus,
+    paymentIntentId: z.string().nullable(),
+    paymentStatus: z.enum(['PENDING', 'SUCCEEDED', 'FAILED', 'CANCELED', 'AMOUNT_MISMATCH']),
+    couponId: z.string().nullable(),
+    couponCode: z.string().nullable(),
+    discount: money,
+    reservedUntil: dateTime.nullable().meta({ description: "Até quando o estoque fica reservado aguardando o pagamento" }),
+    date: dateTime,
+    items: z.array(orderItem),
+    shopOrders: z.array(shopOrder),
+    shippingAddress: orderAddress.nullable()
+});
+
+const statusHistory = z.object({
+    id: z.string(),
+    orderId: z.string(),
+    shopOrderId: z.string().nullable(),
+    fromStatus: orderStatus.nullable(),
+    toStatus: orderStatus,
+    actorId: z.string().nullable(),
+    actorRole: z.string(),
+    note: z.string().nullable(),
+    createdAt: dateTime,
+    actor: z.object({ name: z.string() }).nullable()
+});
+
+const analyticsPeriod = {
+    from: z.string(),
+    to: z.string(),
+    granularity: z.enum(GRANULARITIES),
+    timezone: z.string()
+};
+
+const payout = z.object({
+    id: z.string(),
+    shopId: z.string(),
+    amount: money,
+    status: z.enum(['PENDING', 'PAID', 'FAILED']),
+    provider: z.string(),
+    reference: z.string().nullable(),
+    failureReason: z.string().nullable(),
+    requestedAt: dateTime,
+    paidAt: dateTime.nullable()
+});
+
+const notificationType = z.enum(NOTIFICATION_TYPES);
+
+const notification = z.object({
+    id: z.string(),
+    userId: z.string(),
+    type: notificationType,
+    title: z.string(),
+    body: z.string(),
+    data: z.record(z.string(), z.unknown()).nullable(),
+    readAt: dateTime.nullable(),
+    createdAt: dateTime
+});
+
+const notificationPreference = z.object({
+    type: notificationType,
+    label: z.string(),
+    inApp: z.boolean(),
+    email: z.boolean()
+});
+
+const userSummary = z.object({ id: z.string(), name: z.string(), email: z.string() });
+const shopSummary = z.object({ id: z.string(), name: z.string(), status: z.enum(SHOP_STATUSES) });
+
+const auditEntry = z.object({
+    id: z.string(),
+    actorId: z.string(),
+    action: z.enum(ADMIN_ACTIONS),
+    targetType: z.enum(AUDIT_TARGET_TYPES),
+    targetId: z.string(),
+    reason: z.string().nullable(),
+    data: z.record(z.string(), z.unknown()).nullable(),
+    createdAt: dateTime,
+    actor: userSummary
+});
+
+const csvNote = "Com ?format=csv responde um arquivo CSV (UTF-8 com BOM) em vez de JSON.";
+
+// --- ROTAS ---
+
+export const apiDocs: Record<string, Record<string, RouteDoc>> = {
+    'Autenticação': {
+        'POST /auth/register': {
+            summary: "Cadastra cliente ou vendedor (com loja)",
+            description: "A loja nasce PENDING e só entra no catálogo depois de aprovada pela equipe.",
+            status: 201,
+            response: user
+        },
+        'POST /auth/login': {
+            summary: "Login com e-mail e senha",
+            description: "Um carrinho de visitante (cartToken no body ou cabeçalho X-Cart-Token) passa para a conta.",
+            response: user.omit({ shop: true }).extend({ shop: shop.nullable() }).extend(session.shape)
+        },
+        'POST /auth/refresh': { summary: "Troca o refresh token por um novo par de tokens", response: session },
+        'POST /auth/logout': { summary: "Revoga o refresh token", status: 204 },
+        'GET /auth/me': { summary: "Dados do usuário dono do token", response: user },
+        'POST /auth/verify-email/request': { summary: "Reenvia o link de confirmação do e-mail", status: 204 },
+        'POST /auth/verify-email': { summary: "Confirma o e-mail com o token recebido", response: user },
+        'POST /auth/password/forgot': {
+            summary: "Envia o link para redefinir a senha",
+            description: "Responde 204 mesmo quando o e-mail não tem conta.",
+            status: 204
+        },
+        'POST /auth/password/reset': {
+            summary: "Define a nova senha com o token recebido",
+            description: "O token vale uma vez; todas as sessões abertas são encerradas.",
+            status: 204
+        }
+    },
+    'Sistema': {
+        'GET /': { summary: "Verifica se a API está no ar", response: z.string(), contentType: 'text/plain' },
+        'GET /openapi.json': { summary: "Este documento OpenAPI", response: z.looseObject({ openapi: z.string() }) },
+        'GET /docs': { summary: "Documentação interativa (Swagger UI)", response: z.string(), contentType: 'text/html' }
+    },
+    'Categorias': {
+        'GET /categories': { summary: "Árvore completa de categorias", response: z.array(categoryNode) },
+        'GET /categories/:idOrSlug': {
+            summary: "Categoria por id ou slug, com subcategorias e o caminho até a raiz",
+            response: categoryNode.extend({ ancestors: z.array(category) })
+        },
+        'POST /categories': { summary: "Cria uma categoria (admin)", status: 201, response: category },
+        'PUT /categories/:id': { summary: "Atualiza uma categoria (admin)", response: category },
+        'DELETE /categories/:id': { summary: "Remove uma categoria sem filhas, movendo os produtos para ?moveTo (admin)", status: 204 }
+    },
+    'Produtos': {
+        'POST /products': { summary: "Anuncia um produto com fotos e variantes", status: 201, response: productDetail },
+        'GET /products': {
+            summary: "Catálogo com busca, filtros, ordenação e facetas",
+            description: "Produtos retirados do catálogo ou de lojas não aprovadas só aparecem para o dono da loja (com ?shopId= da própria loja) e para o admin.",
+            response: productSearch
+        },
+        'GET /products/:id': { summary: "Detalhes do produto", description: "Fora do catálogo, só o dono da loja e o admin veem o produto.", response: productDetail },
+        'PUT /products/:id': {
+            summary: "Edita um produto da própria loja",
+            description: "Sem o campo images as fotos ficam como estão; sem variants, as variantes também. "
+                + "Para mudar stock ou variants envie a stockVersion lida do produto; se o estoque mudou "
+                + "desde então a resposta é 409 STOCK_CONFLICT com o stock e a stockVersion atuais. Produto com "
+                + "variantes não aceita stock (422 STOCK_MANAGED_BY_VARIANTS): o estoque vai em cada variante.",
+            response: productDetail
+        },
+        'DELETE /products/:id': {
+            summary: "Exclui um produto da própria loja",
+            description: "Apaga junto as variantes e os favoritos. Produto que já aparece em pedidos responde 409 PRODUCT_HAS_ORDERS.",
+            status: 204
+        },
+        'POST /products/:id/stock': {
+            summary: "Ajusta o estoque do produto ou de uma variante",
+            description: "Registra um movimento com a diferença para o valor informado. Com stockVersion desatualizada "
+                + "responde 409 STOCK_CONFLICT com o stock e a stockVersion atuais.",
+            response: z.object({
+                id: z.string(),
+                stock: z.number().int(),
+                stockVersion: z.number().int(),
+                lowStockThreshold: z.number().int().nullable(),
+                variants: z.array(z.object({ id: z.string(), name: z.string(), stock: z.number().int() }))
+            })
+        },
+        'GET /products/:id/stock-movements': {
+            summary: "Histórico de estoque do produto (vendas, cancelamentos, devoluções e ajustes)",
+            response: paginated(stockMovement)
+        }
+    },
+    'Avaliações': {
+        'GET /products/:id/reviews': { summary: "Avaliações do produto, mais recentes primeiro", response: paginated(review) },
+        'GET /products/:id/reviews/eligible': {
+            summary: "Compras entregues do produto que o cliente ainda pode avaliar",
+            response: z.array(z.object({ orderItemId: z.string(), orderId: z.string() }))
+        },
+        'POST /products/:id/reviews': { summary: "Avalia uma compra entregue, com fotos opcionais", status: 201, response: review },
+        'POST /reviews/:id/reply': { summary: "Resposta do vendedor (uma por avaliação)", response: review }
+    },
+    'Carrinho': {
+        'GET /cart': { summary: "Carrinho do usuário ou do visitante", cartToken: true, response: cart },
+        'GET /cart/:userId': { summary: "Carrinho do usuário autenticado", response: cart },
+        'POST /cart': {
+            summary: "Adiciona um item ao carrinho",
+            description: "Visitante sem X-Cart-Token recebe um cartToken novo na resposta.",
+            cartToken: true,
+            status: 201,
+            response: cartItem.extend({ cartToken: z.string().optional() })
+        },
+        'PUT /cart/:id': { summary: "Altera a quantidade de um item", cartToken: true, response: cartItem },
+        'DELETE /cart/:id': { summary: "Remove um item do carrinho", cartToken: true, status: 204 },
+        'DELETE /cart/user/:userId': { summary: "Esvazia o carrinho do usuário", status: 204 }
+    },
+    'Frete': {
+        'POST /shipping/quote': {
+            summary: "Cota o frete do carrinho por loja",
+            description: "A faixa de preço sai do estado do CEP de origem e de destino; CEP de outro estado que não "
+                + "o informado responde 400 INVALID_DESTINATION.",
+            cartToken: true,
+            response: z.object({
+                destination,
+                shops: z.array(z.object({ shopId: z.string(), shopName: z.string(), options: z.array(shippingOption) }))
+            })
+        },
+        'GET /products/:id/shipping': {
+            summary: "Estimativa de frete na página do produto",
+            response: z.object({ destination, options: z.array(shippingOption) })
+        }
+    },
+    'Cupons': {
+        'GET /coupons': { summary: "Cupons da loja (vendedor) ou de todas as lojas (admin)", response: paginated(coupon) },
+        'POST /coupons': { summary: "Cria um cupom", status: 201, response: coupon },
+        'PUT /coupons/:id': { summary: "Edita um cupom", response: coupon },
+        'DELETE /coupons/:id': { summary: "Exclui o cupom, ou só o desativa se já foi usado", status: 204 },
+        'POST /coupons/preview': {
+            summary: "Calcula o desconto do cupom no carrinho atual, sem reservar o uso",
+            response: z.object({
+                code: z.string(),
+                type: z.enum(COUPON_TYPES),
+                description: z.string().nullable(),
+                subtotal: money,
+                eligibleSubtotal: money,
+                discount: money,
+                shippingDiscount: money,
+                total: money,
+                shops: z.array(z.object({ shopId: z.string(), discount: money, shippingDiscount: money }))
+            })
+        }
+    },
+    'Pedidos': {
+        'POST /orders': { summary: "Fecha o pedido a partir do carrinho salvo", status: 201, response: order },
+        'GET /orders': { summary: "Pedidos do cliente ou, para o vendedor, os que têm produtos da loja", response: paginated(order) },
+        'GET /orders/customer/:customerId': { summary: "Pedidos do cliente com envios e rastreio", response: paginated(order) },
+        'PATCH /orders/:id/status': {
+            summary: "Muda o status do pedido (cliente) ou da parte da loja (vendedor)",
+            description: "Para SHIPPED o vendedor informa carrier e trackingCode. DELIVERED é a confirmação de recebimento "
+                + "pelo cliente. O cliente cancela (CANCELLED) as partes ainda não enviadas; o que já foi pago é "
+                + "reembolsado. Cancelar um pedido não pago "
+                + "cancela também o PaymentIntent (409 PAYMENT_IN_PROGRESS se o pagamento já estiver sendo confirmado).",
+            response: order.omit({ shippingAddress: true })
+        },
+        'GET /orders/:id/history': { summary: "Linha do tempo de status do pedido", response: z.array(statusHistory) },
+        'GET /orders/:id/shipments': {
+            summary: "Envios e eventos de rastreio do pedido",
+            response: z.array(shipment.extend({
+                shopOrder: z.object({ id: z.string(), shopId: z.string(), status: orderStatus, shop: z.object({ name: z.string() }) })
+            }))
+        },
+        'POST /shipments/:id/events': {
+            summary: "Registra um evento de rastreio no envio da loja",
+            description: "Um evento DELIVERED do vendedor fica no rastreio, mas não marca o pedido como entregue: "
+                + "isso depende da confirmação do cliente ou da transportadora.",
+            status: 201,
+            response: shipment
+        }
+    },
+    'Devoluções': {
+        'POST /returns': {
+            summary: "Pede a devolução de um item entregue, com motivo e fotos",
+            description: "Dentro do prazo de devolução contado da entrega; uma devolução aberta por item.",
+            status: 201,
+            response: returnRequest
+        },
+        'GET /returns': { summary: "Devoluções pedidas pelo cliente ou, para o vendedor, as da loja", response: paginated(returnRequest) },
+        'GET /returns/:id': { summary: "Detalhes de uma devolução", response: returnRequest },
+        'PATCH /returns/:id': {
+            summary: "Aprova ou recusa uma devolução (vendedor)",
+            description: "A aprovação reembolsa refundAmount (padrão: o valor pago pelas unidades) e devolve as unidades ao estoque. "
+                + "A recusa exige note com o motivo.",
+            response: returnRequest
+        }
+    },
+    'Mídia': {
+        'POST /upload': {
+            summary: "Envia uma imagem avulsa (perfil da loja, categoria)",
+            response: z.object({ url: z.string(), thumbnailUrl: z.string() })
+        }
+    },
+    'Favoritos': {
+        'POST /favorites/toggle': { summary: "Marca ou desmarca um produto como favorito", response: z.object({ favorited: z.boolean() }) },
+        'GET /favorites/user/:userId': { summary: "Ids dos produtos favoritos", response: z.array(z.string()) },
+        'GET /favorites/details/:userId': {
+            summary: "Lista de desejos: produtos favoritos com histórico de preço",
+            description: "priceChange e priceChangePercent comparam o preço atual com o de quando o produto foi favoritado. "
+                + "Os alertas de preço menor e de volta ao estoque (PRICE_DROP e BACK_IN_STOCK) são ligados em /notifications/preferences.",
+            response: z.array(product.extend({
+                favoritedAt: dateTime,
+                priceAtFavorite: money.nullable(),
+                priceChange: money.nullable(),
+                priceChangePercent: z.number().nullable(),
+                priceHistory: z.array(z.object({ price: money, createdAt: dateTime }))
+            }))
+        }
+    },
+    'Endereços': {
+        'GET /addresses/user/:userId': { summary: "Endereços do usuário", response: z.array(address) },
+        'POST /addresses': { summary: "Cadastra um endereço", status: 201, response: address },
+        'PUT /addresses/:id': { summary: "Atualiza um endereço", response: address },
+        'DELETE /addresses/:id': { summary: "Remove um endereço", status: 204 }
+    },
+    'Pagamentos': {
+        'POST /payments/intent': {
+            summary: "Cria (ou reaproveita) o pagamento do pedido no Stripe",
+            description: "A primeira chamada renova a reserva de estoque do pedido; as seguintes reaproveitam o pagamento "
+                + "sem estender o prazo. Se a reserva já expirou, responde 409 RESERVATION_EXPIRED.",
+            response: z.object({ clientSecret: z.string().nullable(), paymentIntentId: z.string(), amount: z.number().int() })
+        },
+        'POST /payments/webhook': {
+            summary: "Webhook do Stripe (assinado pelo cabeçalho Stripe-Signature)",
+            description: "Pagamento confirmado para um pedido já cancelado, ou com valor diferente do total (paymentStatus "
+                + "AMOUNT_MISMATCH, e o pedido é cancelado), é registrado e reembolsado por inteiro. Se o status do pedido "
+                + "mudar durante o processamento, responde 409 sem registrar o evento e o Stripe o reenvia.",
+            body: z.looseObject({ id: z.string(), type: z.string() }),
+            response: z.object({ received: z.boolean(), duplicate: z.boolean() })
+        }
+    },
+    'Vendedor': {
+        'GET /seller/stats/:shopId': {
+            summary: "Quantidade de pedidos da loja por status",
+            response: z.object({
+                aPagar: z.number().int(),
+                aEnviar: z.number().int(),
+                enviado: z.number().int(),
+                entregue: z.number().int(),
+                concluido: z.number().int(),
+                cancelado: z.number().int()
+            })
+        },
+        'GET /seller/sales-chart/:shopId': {
+            summary: "Vendas dos últimos 7 dias para o gráfico do painel",
+            response: z.array(z.object({ name: z.string(), sales: money }))
+        },
+        'GET /seller/analytics/:shopId/sales': {
+            summary: "Receita, unidades e pedidos por período",
+            description: csvNote,
+            response: z.object({
+                ...analyticsPeriod,
+                series: z.array(z.object({ period: z.string(), revenue: money, units: z.number().int(), orders: z.number().int(), averageOrderValue: money })),
+                totals: z.object({ revenue: money, units: z.number().int(), orders: z.number().int(), averageOrderValue: money })
+            })
+        },
+        'GET /seller/analytics/:shopId/top-products': {
+            summary: "Produtos mais vendidos no período",
+            description: csvNote,
+            response: z.object({
+                ...analyticsPeriod,
+                products: z.array(z.object({ productId: z.string(), name: z.string(), units: z.number().int(), revenue: money, orders: z.number().int() }))
+            })
+        },
+        'GET /seller/analytics/:shopId/favorites': {
+            summary: "Conversão de favoritos em compras no período",
+            description: csvNote,
+            response: z.object({
+                ...analyticsPeriod,
+                products: z.array(z.object({ productId: z.string(), name: z.string(), favorites: z.number().int(), purchases: z.number().int(), conversionRate: z.number() })),
+                totals: z.object({ favorites: z.number().int(), purchases: z.number().int(), conversionRate: z.number() })
+            })
+        },
+        'GET /seller/income/:shopId': {
+            summary: "Extrato por venda: bruto, comissão e líquido",
+            response: z.array(z.object({
+                id: z.string(),
+                orderId: z.string(),
+                date: z.string(),
+                buyerName: z.string(),
+                gross: money,
+                commission: money,
+                refunded: money,
+                refunds: z.array(z.object({ date: dateTime, description: z.string(), amount: money })),
+                amount: money,
+                status: z.enum(['Pendente', 'Liberado', 'Estornado'])
+            }))
+        },
+        'GET /seller/balance/:shopId': {
+            summary: "Saldo a liberar, disponível e já sacado",
+            response: z.object({ pending: money, available: money, paidOut: money, holdDays: z.number().int() })
+        },
+        'GET /seller/statement/:shopId': {
+            summary: "Lançamentos do livro da loja",
+            response: paginated(z.object({
+                id: z.string(),
+                type: z.string(),
+                shopId: z.string(),
+                shopOrderId: z.string().nullable(),
+                payoutId: z.string().nullable(),
+                description: z.string(),
+                createdAt: dateTime,
+                orderId: z.string().nullable(),
+                pending: money,
+                available: money
+            }))
+        },
+        'GET /seller/events/:shopId': {
+            summary: "Eventos da loja em tempo real (Server-Sent Events)",
+            description: "Eventos ORDER_PLACED, ORDER_STATUS_CHANGED, PAYMENT_CONFIRMED e LOW_STOCK, com o JSON em data. "
+                + "O EventSource não envia cabeçalhos, então o token pode ir em ?token=. Ao reconectar, o cabeçalho "
+                + "Last-Event-ID (ou ?lastEventId=) reenvia o que aconteceu desde aquele evento (até 7 dias).",
+            contentType: 'text/event-stream',
+            response: z.string().meta({ example: 'id: 42\nevent: ORDER_PLACED\ndata: {"orderId":"...","orderNumber":"#1A2B3C4D","subtotal":99.9,"items":2}\n\n' })
+        },
+        'GET /seller/low-stock/:shopId': {
+            summary: "Produtos e variantes no limite de estoque baixo ou abaixo dele",
+            response: z.array(z.object({
+                productId: z.string(),
+                variantId: z.string().nullable(),
+                name: z.string(),
+                stock: z.number().int(),
+                threshold: z.number().int()
+            }))
+        },
+        'GET /seller/payouts/:shopId': { summary: "Saques da loja", response: paginated(payout) },
+        'POST /seller/payouts/:shopId': {
+            summary: "Saca o saldo disponível (tudo, sem amount)",
+            description: "Responde 502 com o saque FAILED quando o repasse é recusado e 403 SHOP_SUSPENDED quando a loja está suspensa.",
+            status: 201,
+            response: payout
+        },
+        'GET /seller/orders/:shopId': {
+            summary: "Partes de pedidos da loja, com endereço de entrega",
+            response: paginated(shopOrder.extend({
+                shopOrderId: z.string(),
+                date: dateTime,
+                paymentMethod: z.string(),
+                customer: z.object({ name: z.string() }),
+                shippingAddress: orderAddress.nullable(),
+                items: z.array(orderItem),
+                total: money
+            }))
+        }
+    },
+    'Lojas': {
+        'GET /shops/:id': { summary: "Perfil público da loja", description: "Loja pendente ou suspensa só é visível para o dono e o admin.", response: shop },
+        'GET /shops/:id/reviews': {
+            summary: "Avaliações de todos os produtos da loja",
+            response: paginated(review.extend({ product: z.object({ id: z.string(), name: z.string(), image: z.string() }) }))
+        },
+        'PUT /shops/:id': { summary: "Atualiza o perfil da própria loja", response: shop },
+        'PUT /shops/:id/commission': { summary: "Define a comissão da loja (admin)", response: shop }
+    },
+    'Usuários': {
+        'GET /users/:id': { summary: "Dados da própria conta", response: user },
+        'PUT /users/:id': {
+            summary: "Atualiza os dados da própria conta",
+            description: "Trocar e-mail ou senha exige currentPassword. O e-mail novo volta a ficar sem confirmação; a senha nova encerra as sessões e a resposta traz uma nova.",
+            response: user.extend(session.partial().shape)
+        },
+        'GET /users/:id/export': {
+            summary: "Exporta todos os dados da conta (LGPD)",
+            description: "Perfil, endereços, pedidos, favoritos, carrinho, avaliações, devoluções, notificações e sessões, com o CPF completo.",
+            response: z.object({ exportedAt: dateTime, user: z.looseObject(user.shape) })
+        },
+        'DELETE /users/:id': {
+            summary: "Exclui a própria conta (LGPD)",
+            description: "Pede a senha. Os dados pessoais são apagados e os pedidos ficam anonimizados; contas com loja ou com pedidos em andamento não podem ser excluídas.",
+            status: 204
+        }
+    },
+    'Notificações': {
+        'GET /notifications': {
+            summary: "Notificações do usuário, mais recentes primeiro",
+            description: "unread traz o total de não lidas, independente do filtro.",
+            response: paginated(notification).extend({ unread: z.number().int() })
+        },
+        'PATCH /notifications/:id': { summary: "Marca a notificação como lida ou não lida", response: notification },
+        'POST /notifications/read': {
+            summary: "Marca várias notificações como lidas (todas, sem ids)",
+            response: z.object({ updated: z.number().int() })
+        },
+        'GET /notifications/preferences': {
+            summary: "Canais ligados para cada evento",
+            description: "Todos vêm ligados, menos os alertas da lista de desejos (PRICE_DROP e BACK_IN_STOCK), que o usuário precisa ligar.",
+            response: z.array(notificationPreference)
+        },
+        'PUT /notifications/preferences': {
+            summary: "Liga ou desliga o aviso no app e o e-mail de cada evento",
+            description: "Eventos não enviados ficam como estão.",
+            response: z.array(notificationPreference)
+        }
+    },
+    'Administração': {
+        'GET /admin/shops': {
+            summary: "Lojas da plataforma (?status=PENDING traz as que aguardam aprovação)",
+            description: "search procura no nome da loja e no e-mail do vendedor.",
+            response: paginated(shop.extend({ user: userSummary, _count: z.object({ products: z.number().int() }) }))
+        },
+        'PATCH /admin/shops/:id/status': {
+            summary: "Aprova, reativa ou suspende a loja",
+            description: "A suspensão exige reason, enviado ao vendedor. Loja suspensa sai do catálogo e não pode sacar.",
+            response: shop
+        },
+        'GET /admin/products': {
+            summary: "Todos os produtos, inclusive os fora do catálogo",
+            response: paginated(product.extend({ shop: shopSummary.nullable() }))
+        },
+        'PATCH /admin/products/:id/publication': {
+            summary: "Retira o produto do catálogo ou o publica de novo",
+            description: "Retirar exige reason, exibido ao vendedor no produto e na notificação.",
+            response: product
+        },
+        'GET /admin/users': {
+            summary: "Busca usuários por nome ou e-mail",
+            response: paginated(user.omit({ shop: true }).extend({ shop: shopSummary.nullable(), _count: z.object({ orders: z.number().int() }) }))
+        },
+        'GET /admin/orders': {
+            summary: "Busca pedidos de toda a plataforma",
+            description: "search aceita o número do pedido (#1A2B3C4D), o e-mail ou o nome do cliente. from e to (AAAA-MM-DD) valem no horário de Brasília.",
+            response: paginated(order.omit({ items: true, shopOrders: true, shippingAddress: true }).extend({
+                customer: userSummary,
+                shopOrders: z.array(z.object({ id: z.string(), shopId: z.string(), status: orderStatus, shop: z.object({ name: z.string() }) }))
+            }))
+        },
+        'GET /admin/orders/:id': {
+            summary: "Pedido completo, com histórico e reembolsos",
+            response: order.extend({
+                customer: userSummary,
+                statusHistory: z.array(statusHistory.omit({ actor: true })),
+                refunds: z.array(refund)
+            })
+        },
+        'GET /admin/analytics/sales': {
+            summary: "GMV da plataforma por período e as lojas que mais venderam",
+            description: `GMV soma o que os clientes pagaram (itens e frete, com cupons) nas partes de pedido pagas. ${csvNote}`,
+            response: z.object({
+                ...analyticsPeriod,
+                series: z.array(z.object({ period: z.string(), gmv: money, orders: z.number().int(), shops: z.number().int(), averageOrderValue: money })),
+                totals: z.object({ gmv: money, orders: z.number().int(), averageOrderValue: money }),
+                topShops: z.array(z.object({ shopId: z.string(), name: z.string(), gmv: money, orders: z.number().int() }))
+            })
+        },
+        'GET /admin/analytics/commission': {
+            summary: "Comissão da plataforma por período e por loja",
+            description: `earned é a comissão das vendas, reversed o que voltou nos reembolsos; takeRate é net sobre o GMV. ${csvNote}`,
+            response: z.object({
+                ...analyticsPeriod,
+                series: z.array(z.object({ period: z.string(), earned: money, reversed: money, net: money })),
+                totals: z.object({ earned: money, reversed: money, net: money, gmv: money, takeRate: z.number() }),
+                byShop: z.array(z.object({ shopId: z.string(), name: z.string(), earned: money, reversed: money, net: money }))
+            })
+        },
+        'GET /admin/audit-log': {
+            summary: "Ações da equipe da plataforma, mais recentes primeiro",
+            response: paginated(auditEntry)
+        }
+    }
+};
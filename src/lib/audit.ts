@@ -0,0 +1,31 @@
+import type { AdminAction, AuditTargetType, Prisma } from '../generated/prisma/client/client.js';
+
+export const ADMIN_ACTIONS: AdminAction[] = [
+    'SHOP_APPROVED',
+    'SHOP_SUSPENDED',
+    'SHOP_COMMISSION_CHANGED',
+    'PRODUCT_UNPUBLISHED',
+    'PRODUCT_REPUBLISHED',
+    'CATEGORY_CREATED',
+    'CATEGORY_UPDATED',
+    'CATEGORY_DELETED',
+    'COUPON_CREATED',
+    'COUPON_UPDATED',
+    'COUPON_DELETED'
+];
+
+export const AUDIT_TARGET_TYPES: AuditTargetType[] = ['SHOP', 'PRODUCT', 'CATEGORY', 'COUPON'];
+
+type AuditEntry = {
+    actorId: string;
+    action: AdminAction;
+    targetType: AuditTargetType;
+    targetId: string;
+    reason?: string | null;
+    data?: Prisma.InputJsonObject;
+};
+
+// Chamar na mesma transação da mudança quando houver uma: ação desfeita não fica registrada
+export async function recordAdminAction(db: Pick<Prisma.TransactionClient, 'adminAuditLog'>, entry: AuditEntry) {
+    await db.adminAuditLog.create({ data: entry });
+}
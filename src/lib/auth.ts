@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import type { Request, Response, NextFunction } from 'express';
+import 'dotenv/config';
+import prisma from './prisma.js';
+import { ApiError } from './errors.js';
+import type { Prisma, Role } from '../generated/prisma/client/client.js';
+
+const JWT_SECRET = process.env.JWT_SECRET as string;
+const ACCESS_TOKEN_TTL = '15m';
+const REFRESH_TOKEN_TTL_DAYS = 30;
+const BCRYPT_ROUNDS = 12;
+
+// --- SENHAS ---
+
+export function hashPassword(password: string) {
+    return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+// Contas antigas guardaram a senha em texto puro; hashes do bcrypt começam com "$2a$", "$2b$" ou "$2y$"
+export function isPasswordHash(value: string) {
+    return /^\$2[aby]\$\d{2}\$/.test(value);
+}
+
+export async function verifyPassword(password: string, stored: string) {
+    if (isPasswordHash(stored)) {
+        return { valid: await bcrypt.compare(password, stored), needsRehash: false };
+    }
+
+    const a = Buffer.from(password);
+    const b = Buffer.from(stored);
+    const valid = a.length === b.length && crypto.timingSafeEqual(a, b);
+    return { valid, needsRehash: valid };
+}
+
+// --- TOKENS ---
+
+type TokenPayload = { sub: string; role: string };
+
+export function signAccessToken(user: { id: string; role: string }) {
+    return jwt.sign({ role: user.role }, JWT_SECRET, {
+        subject: user.id,
+        expiresIn: ACCESS_TOKEN_TTL
+    });
+}
+
+export function hashToken(token: string) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export async function issueRefreshToken(userId: string) {
+    const token = crypto.randomBytes(48).toString('hex');
+    const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    await prisma.refreshToken.create({
+        data: { tokenHash: hashToken(token), userId, expiresAt }
+    });
+
+    return token;
+}
+
+export async function issueSession(user: { id: string; role: string }) {
+    return {
+        accessToken: signAccessToken(user),
+        refreshToken: await issueRefreshToken(user.id)
+    };
+}
+
+// Troca um refresh token válido por um novo par (o antigo é revogado na hora)
+export async function rotateRefreshToken(token: string) {
+    const stored = await prisma.refreshToken.findUnique({
+        where: { tokenHash: hashToken(token) },
+        include: { user: true }
+    });
+
+    if (!stored || stored.revokedAt || stored.expiresAt < new Date()) return null;
+
+    // Revoga de forma condicional para que dois refresh simultâneos não gerem duas sessões
+    const { count } = await prisma.refreshToken.updateMany({
+        where: { id: stored.id, revokedAt: null },
+        data: { revokedAt: new Date() }
+    });
+    if (count === 0) return null;
+
+    return issueSession(stored.user);
+}
+
+export async function revokeRefreshToken(token: string) {
+    await prisma.refreshToken.updateMany({
+        where: { tokenHash: hashToken(token), revokedAt: null },
+        data: { revokedAt: new Date() }
+    });
+}
+
+// Encerra todas as sessões do usuário (troca de senha, exclusão da conta)
+export async function revokeAllRefreshTokens(tx: Prisma.TransactionClient, userId: string) {
+    await tx.refreshToken.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: new Date() }
+    });
+}
+
+// --- MIDDLEWARE ---
+
+// Lê o "Authorization: Bearer <token>" e carrega o utilizador em req.user
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+    const [scheme, token] = (req.headers.authorization || '').split(' ');
+
+    if (scheme !== 'Bearer' || !token) {
+        return next(new ApiError(401, 'UNAUTHORIZED', "Token de acesso não informado"));
+    }
+
+    let payload: TokenPayload;
+    try {
+        payload = jwt.verify(token, JWT_SECRET) as TokenPayload;
+    } catch {
+        return next(new ApiError(401, 'UNAUTHORIZED', "Token inválido ou expirado"));
+    }
+
+    // Conta excluída não volta a entrar, mesmo com um token de acesso ainda no prazo
+    const user = await prisma.user.findFirst({
+        where: { id: payload.sub, deletedAt: null },
+        select: { id: true, name: true, email: true, role: true, shop: { select: { id: true } } }
+    });
+
+    if (!user) return next(new ApiError(401, 'UNAUTHORIZED', "Utilizador não encontrado"));
+
+    req.user = user;
+    next();
+}
+
+// Rotas abertas a visitantes: sem cabeçalho segue anónimo, mas um token inválido continua a ser recusado
+export function optionalAuthenticate(req: Request, res: Response, next: NextFunction) {
+    if (!req.headers.authorization) return next();
+    return authenticate(req, res, next);
+}
+
+// O EventSource do navegador não envia cabeçalhos: em rotas de stream o token pode vir em ?token=
+export function acceptQueryToken(req: Request, res: Response, next: NextFunction) {
+    const { token } = req.query;
+    if (!req.headers.authorization && typeof token === 'string') req.headers.authorization = `Bearer ${token}`;
+    next();
+}
+
+// --- AUTORIZAÇÃO ---
+
+export function requireRole(...roles: Role[]) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (!req.user || !roles.includes(req.user.role)) {
+            return next(new ApiError(403, 'FORBIDDEN', "Acesso negado para este perfil"));
+        }
+        next();
+    };
+}
+
+// O parâmetro da URL tem de ser o próprio utilizador autenticado (ex: /cart/:userId)
+export function requireSelf(param = 'userId') {
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (!req.user || req.params[param] !== req.user.id) {
+            return next(new ApiError(403, 'FORBIDDEN', "Acesso negado a dados de outro utilizador"));
+        }
+        next();
+    };
+}
+
+// O parâmetro da URL tem de ser a loja do vendedor autenticado (ex: /seller/orders/:shopId)
+export function requireShopOwner(param = 'shopId') {
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (!req.user?.shop || req.params[param] !== req.user.shop.id) {
+            return next(new ApiError(403, 'FORBIDDEN', "Acesso negado a dados de outra loja"));
+        }
+        next();
+    };
+}
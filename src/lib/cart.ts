@@ -0,0 +1,206 @@
+import crypto from 'crypto';
+import prisma from './prisma.js';
+import { roundMoney } from './checkout.js';
+import { LOW_STOCK_THRESHOLD } from './inventory.js';
+import { isListed } from './moderation.js';
+import type { Prisma } from '../generated/prisma/client/client.js';
+
+// Carrinho de um utilizador autenticado ou de um visitante identificado pelo token do carrinho
+export type CartOwner = { userId: string } | { cartToken: string };
+
+export class CartError extends Error {
+    constructor(
+        public code: 'INVALID_QUANTITY' | 'INVALID_VARIANT' | 'UNAVAILABLE' | 'OUT_OF_STOCK' | 'ITEM_NOT_FOUND',
+        message: string,
+        public available?: number
+    ) {
+        super(message);
+    }
+}
+
+export function newCartToken() {
+    return crypto.randomUUID();
+}
+
+function ownerWhere(owner: CartOwner): Prisma.CartItemWhereInput {
+    return 'userId' in owner ? { userId: owner.userId } : { cartToken: owner.cartToken, userId: null };
+}
+
+function ownerData(owner: CartOwner) {
+    return 'userId' in owner ? { userId: owner.userId } : { cartToken: owner.cartToken };
+}
+
+const productWithVariants = {
+    variants: { where: { active: true } },
+    shop: { select: { status: true } }
+} satisfies Prisma.ProductInclude;
+type LiveProduct = Prisma.ProductGetPayload<{ include: typeof productWithVariants }>;
+
+// Preço, estoque e disponibilidade atuais de um produto (ou da variante escolhida)
+function liveState(product: LiveProduct | null, variantId: string | null) {
+    if (!product) return { unavailable: true, variant: undefined, price: 0, available: 0 };
+
+    const hasVariants = product.variants.length > 0;
+    const variant = product.variants.find(v => v.id === variantId);
+    const invalid = !product.shopId || !isListed(product) || (hasVariants && !variant) || (!hasVariants && !!variantId);
+    const available = invalid ? 0 : (variant ? variant.stock : product.stock);
+
+    return {
+        unavailable: invalid || available <= 0,
+        variant,
+        price: variant?.price ?? product.price,
+        available
+    };
+}
+
+function assertQuantity(quantity: unknown): asserts quantity is number {
+    if (!Number.isInteger(quantity) || (quantity as number) < 1) {
+        throw new CartError('INVALID_QUANTITY', "A quantidade deve ser um número inteiro maior que zero");
+    }
+}
+
+// Itens reprecificados a partir do produto atual; o preço gravado serve só para avisar mudanças
+export async function getCart(owner: CartOwner) {
+    const items = await prisma.cartItem.findMany({
+        where: ownerWhere(owner),
+        include: { product: { include: productWithVariants } },
+        orderBy: { createdAt: 'asc' }
+    });
+
+    const lines = items.map(item => {
+        const { unavailable, variant, price, available } = liveState(item.product, item.variantId);
+        return {
+            id: item.id,
+            productId: item.productId,
+            shopId: item.product.shopId,
+            categoryId: item.product.categoryId,
+            variantId: item.variantId,
+            variantName: variant?.name ?? null,
+            name: item.product.name,
+            image: variant?.image || item.product.image,
+            quantity: item.quantity,
+            price,
+            addedPrice: item.price,
+            lineTotal: roundMoney(price * item.quantity),
+            available,
+            priceChanged: price !== item.price,
+            // "Últimas unidades" segue o mesmo limite que avisa a loja de estoque baixo
+            lowStock: !unavailable && available <= (item.product.lowStockThreshold ?? LOW_STOCK_THRESHOLD),
+            exceedsStock: !unavailable && item.quantity > available,
+            unavailable
+        };
+    });
+
+    // Itens indisponíveis continuam visíveis, mas não entram no subtotal
+    const purchasable = lines.filter(line => !line.unavailable);
+
+    return {
+        items: lines,
+        itemCount: purchasable.reduce((sum, line) => sum + line.quantity, 0),
+        subtotal: roundMoney(purchasable.reduce((sum, line) => sum + line.lineTotal, 0)),
+        hasIssues: lines.some(line => line.unavailable || line.exceedsStock)
+    };
+}
+
+type AddToCartInput = {
+    productId: string;
+    variantId: string | null;
+    quantity: unknown;
+};
+
+export async function addToCart(owner: CartOwner, { productId, variantId, quantity }: AddToCartInput) {
+    assertQuantity(quantity);
+
+    const product = await prisma.product.findUnique({ where: { id: productId }, include: productWithVariants });
+    if (!product || !product.shopId || !isListed(product)) throw new CartError('UNAVAILABLE', "Produto indisponível");
+
+    // Produto com variantes exige a escolha de uma delas (ex: tamanho e cor)
+    const hasVariants = product.variants.length > 0;
+    if (hasVariants && !product.variants.some(v => v.id === variantId)) {
+        throw new CartError('INVALID_VARIANT', "Escolha uma variante válida deste produto");
+    }
+    if (!hasVariants && variantId) {
+        throw new CartError('INVALID_VARIANT', "Este produto não possui variantes");
+    }
+
+    const { variant, price, available } = liveState(product, variantId);
+
+    // Verifica se o produto (na mesma variante) já está no carrinho para somar a quantidade
+    const existingItem = await prisma.cartItem.findFirst({
+        where: { ...ownerWhere(owner), productId, variantId }
+    });
+
+    const total = (existingItem?.quantity ?? 0) + quantity;
+    if (total > available) {
+        throw new CartError('OUT_OF_STOCK', `Só há ${available} unidade(s) disponível(is)`, available);
+    }
+
+    // O cliente viu o preço atual ao adicionar, então o preço de referência é renovado
+    const snapshot = { name: product.name, price, image: variant?.image || product.image };
+
+    if (existingItem) {
+        return prisma.cartItem.update({
+            where: { id: existingItem.id },
+            data: { ...snapshot, quantity: total }
+        });
+    }
+
+    return prisma.cartItem.create({
+        data: { ...ownerData(owner), productId, variantId, ...snapshot, quantity }
+    });
+}
+
+export async function updateCartItemQuantity(owner: CartOwner, id: string, quantity: unknown) {
+    const item = await prisma.cartItem.findFirst({
+        where: { ...ownerWhere(owner), id },
+        include: { product: { include: productWithVariants } }
+    });
+    if (!item) throw new CartError('ITEM_NOT_FOUND', "Item não encontrado no seu carrinho");
+
+    assertQuantity(quantity);
+
+    const { unavailable, available } = liveState(item.product, item.variantId);
+    if (unavailable) throw new CartError('UNAVAILABLE', "Produto indisponível", 0);
+    if (quantity > available) {
+        throw new CartError('OUT_OF_STOCK', `Só há ${available} unidade(s) disponível(is)`, available);
+    }
+
+    return prisma.cartItem.update({ where: { id }, data: { quantity } });
+}
+
+export async function removeCartItem(owner: CartOwner, id: string) {
+    const { count } = await prisma.cartItem.deleteMany({ where: { ...ownerWhere(owner), id } });
+    if (count === 0) throw new CartError('ITEM_NOT_FOUND', "Item não encontrado no seu carrinho");
+}
+
+// Junta o carrinho de visitante ao do utilizador no login, somando quantidades repetidas
+export async function mergeGuestCart(cartToken: string, userId: string) {
+    return prisma.$transaction(async (tx) => {
+        const guestItems = await tx.cartItem.findMany({
+            where: { cartToken, userId: null },
+            include: { product: { include: productWithVariants } }
+        });
+
+        for (const item of guestItems) {
+            const existing = await tx.cartItem.findFirst({
+                where: { userId, productId: item.productId, variantId: item.variantId }
+            });
+
+            if (!existing) {
+                await tx.cartItem.update({ where: { id: item.id }, data: { userId, cartToken: null } });
+                continue;
+            }
+
+            // A soma nunca passa do estoque atual; se nada estiver disponível o item fica sinalizado no GET
+            const { available } = liveState(item.product, item.variantId);
+            const total = existing.quantity + item.quantity;
+            await tx.cartItem.update({
+                where: { id: existing.id },
+                data: { quantity: available > 0 ? Math.min(total, Math.max(available, existing.quantity)) : total }
+            });
+            await tx.cartItem.delete({ where: { id: item.id } });
+        }
+
+        return guestItems.length;
+    });
+}
@@ -0,0 +1,147 @@
+import prisma from './prisma.js';
+import { Prisma } from '../generated/prisma/client/client.js';
+import { paginated, parsePagination } from './pagination.js';
+import { descendantIds, findCategory, loadCategoryTree, type CategoryNode } from './categories.js';
+
+export const PRODUCT_SORTS = ['relevance', 'newest', 'price_asc', 'price_desc', 'best_selling', 'rating'] as const;
+type ProductSort = typeof PRODUCT_SORTS[number];
+
+// Faixas fixas para a barra lateral de filtros (max null = "acima de")
+export const PRICE_BUCKETS = [
+    { min: 0, max: 50 },
+    { min: 50, max: 100 },
+    { min: 100, max: 200 },
+    { min: 200, max: 500 },
+    { min: 500, max: null }
+];
+
+const ORDER_BY: Record<Exclude<ProductSort, 'relevance'>, Prisma.Sql> = {
+    newest: Prisma.sql`p."createdAt" DESC`,
+    price_asc: Prisma.sql`p."price" ASC, p."createdAt" DESC`,
+    price_desc: Prisma.sql`p."price" DESC, p."createdAt" DESC`,
+    best_selling: Prisma.sql`p."sold" DESC, p."createdAt" DESC`,
+    rating: Prisma.sql`p."rating" DESC, p."reviews" DESC, p."createdAt" DESC`
+};
+
+function toNumber(value: unknown) {
+    if (value === undefined || value === '') return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// "Vestido azul" -> "vestido:* & azul:*" (prefixo para buscar enquanto o cliente digita)
+function toPrefixQuery(search: string) {
+    const terms = search.normalize('NFC').split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    return terms.map(term => `${term}:*`).join(' & ');
+}
+
+// O vendedor vê os próprios produtos fora do catálogo (retirados ou de loja não aprovada) e o admin vê todos
+export async function searchProducts(query: Record<string, unknown>, { includeUnlisted = false } = {}) {
+    const pagination = parsePagination(query);
+    const search = query.search ? toPrefixQuery(String(query.search)) : '';
+    const { nodes } = await loadCategoryTree();
+    const category = query.category ? findCategory(nodes, String(query.category)) : undefined;
+    const minPrice = toNumber(query.minPrice);
+    const maxPrice = toNumber(query.maxPrice);
+    const minRating = toNumber(query.minRating);
+    const inStock = query.inStock === 'true' || query.inStock === '1';
+    const sort: ProductSort = PRODUCT_SORTS.includes(query.sort as ProductSort)
+        ? query.sort as ProductSort
+        : (search ? 'relevance' : 'newest');
+
+    const tsQuery = Prisma.sql`to_tsquery('pt_unaccent', ${search})`;
+
+    // Cada faceta conta ignorando o próprio filtro, para o cliente ver as outras opções
+    const baseFilters: Prisma.Sql[] = [Prisma.sql`TRUE`];
+    if (!includeUnlisted) {
+        baseFilters.push(Prisma.sql`p."unpublishedAt" IS NULL`);
+        baseFilters.push(Prisma.sql`(p."shopId" IS NULL OR EXISTS (SELECT 1 FROM "Shop" s WHERE s."id" = p."shopId" AND s."status" = 'ACTIVE'))`);
+    }
+    if (query.shopId) baseFilters.push(Prisma.sql`p."shopId" = ${String(query.shopId)}`);
+    if (search) baseFilters.push(Prisma.sql`p."searchVector" @@ ${tsQuery}`);
+    if (minRating !== undefined) baseFilters.push(Prisma.sql`p."rating" >= ${minRating}`);
+    if (inStock) baseFilters.push(Prisma.sql`p."stock" > 0`);
+
+    // Filtrar por uma categoria inclui todas as subcategorias dela
+    const categoryFilters: Prisma.Sql[] = [];
+    if (query.category) {
+        categoryFilters.push(category
+            ? Prisma.sql`p."categoryId" IN (${Prisma.join(descendantIds(category))})`
+            : Prisma.sql`FALSE`);
+    }
+
+    const priceFilters: Prisma.Sql[] = [];
+    if (minPrice !== undefined) priceFilters.push(Prisma.sql`p."price" >= ${minPrice}`);
+    if (maxPrice !== undefined) priceFilters.push(Prisma.sql`p."price" <= ${maxPrice}`);
+
+    const where = (...groups: Prisma.Sql[][]) => Prisma.join(groups.flat(), ' AND ');
+
+    const orderBy = sort === 'relevance'
+        ? Prisma.sql`ts_rank(p."searchVector", ${tsQuery}) DESC, p."sold" DESC`
+        : ORDER_BY[sort];
+
+    const bucketCounts = PRICE_BUCKETS.map((bucket, index) => {
+        const condition = bucket.max === null
+            ? Prisma.sql`p."price" >= ${bucket.min}`
+            : Prisma.sql`p."price" >= ${bucket.min} AND p."price" < ${bucket.max}`;
+        return Prisma.sql`COUNT(*) FILTER (WHERE ${condition})::int AS ${Prisma.raw(`"b${index}"`)}`;
+    });
+
+    const [rows, [{ total }], categoryRows, [priceRow]] = await Promise.all([
+        prisma.$queryRaw<{ id: string }[]>`
+            SELECT p."id" FROM "Product" p
+            WHERE ${where(baseFilters, categoryFilters, priceFilters)}
+            ORDER BY ${orderBy}
+            LIMIT ${pagination.limit} OFFSET ${pagination.skip}`,
+        prisma.$queryRaw<{ total: number }[]>`
+            SELECT COUNT(*)::int AS total FROM "Product" p
+            WHERE ${where(baseFilters, categoryFilters, priceFilters)}`,
+        prisma.$queryRaw<{ categoryId: string; count: number }[]>`
+            SELECT p."categoryId", COUNT(*)::int AS count FROM "Product" p
+            WHERE ${where(baseFilters, priceFilters)}
+            GROUP BY p."categoryId"`,
+        prisma.$queryRaw<Record<string, number>[]>`
+            SELECT ${Prisma.join(bucketCounts)} FROM "Product" p
+            WHERE ${where(baseFilters, categoryFilters)}`
+    ]);
+
+    const products = await prisma.product.findMany({
+        where: { id: { in: rows.map(row => row.id) } },
+        // 👈 IMPORTANTE: Inclui os dados da loja associada ao produto
+        include: {
+            shop: true,
+            category: true,
+            variants: { where: { active: true } }
+        }
+    });
+    const byId = new Map(products.map(product => [product.id, product]));
+
+    return {
+        ...paginated(rows.map(row => byId.get(row.id)!).filter(Boolean), total, pagination),
+        sort,
+        facets: {
+            categories: categoryFacets(nodes, categoryRows),
+            priceBuckets: PRICE_BUCKETS.map((bucket, index) => ({ ...bucket, count: priceRow[`b${index}`] }))
+        }
+    };
+}
+
+// Contagem por categoria: "count" são os produtos ligados diretamente a ela e
+// "totalCount" soma também os das subcategorias (o que o filtro ?category= retornaria)
+function categoryFacets(nodes: Map<string, CategoryNode>, rows: { categoryId: string; count: number }[]) {
+    const direct = new Map(rows.map(row => [row.categoryId, row.count]));
+    const total = (node: CategoryNode): number =>
+        (direct.get(node.id) ?? 0) + node.children.reduce((sum, child) => sum + total(child), 0);
+
+    return [...nodes.values()]
+        .map(node => ({
+            id: node.id,
+            name: node.name,
+            slug: node.slug,
+            parentId: node.parentId,
+            count: direct.get(node.id) ?? 0,
+            totalCount: total(node)
+        }))
+        .filter(facet => facet.totalCount > 0)
+        .sort((a, b) => b.totalCount - a.totalCount || a.name.localeCompare(b.name));
+}
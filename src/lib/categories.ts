@@ -0,0 +1,63 @@
+import prisma from './prisma.js';
+import type { Category, Prisma } from '../generated/prisma/client/client.js';
+
+export type CategoryNode = Category & { children: CategoryNode[] };
+
+// "Calçados Femininos" -> "calcados-femininos" (mesma regra usada na migração)
+export function slugify(value: string) {
+    return value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+}
+
+// A árvore é pequena: carregamos tudo e montamos em memória.
+// Dentro de uma transação, passe o tx para não abrir outra conexão
+export async function loadCategoryTree(db: Pick<Prisma.TransactionClient, 'category'> = prisma) {
+    const categories = await db.category.findMany({ orderBy: [{ position: 'asc' }, { name: 'asc' }] });
+    const nodes = new Map<string, CategoryNode>(categories.map(c => [c.id, { ...c, children: [] }]));
+    const roots: CategoryNode[] = [];
+
+    for (const node of nodes.values()) {
+        const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+        if (parent) parent.children.push(node);
+        else roots.push(node);
+    }
+
+    return { roots, nodes };
+}
+
+// Aceita o id ou o slug (as URLs da loja usam o slug)
+export function findCategory(nodes: Map<string, CategoryNode>, idOrSlug: string) {
+    return nodes.get(idOrSlug) ?? [...nodes.values()].find(node => node.slug === idOrSlug);
+}
+
+// A própria categoria e todas as que estão abaixo dela
+export function descendantIds(node: CategoryNode): string[] {
+    return [node.id, ...node.children.flatMap(descendantIds)];
+}
+
+// Caminho da raiz até a categoria (para breadcrumbs)
+export function ancestorsOf(nodes: Map<string, CategoryNode>, node: CategoryNode) {
+    const path: CategoryNode[] = [];
+    let current = node.parentId ? nodes.get(node.parentId) : undefined;
+    while (current) {
+        path.unshift(current);
+        current = current.parentId ? nodes.get(current.parentId) : undefined;
+    }
+    return path;
+}
+
+// Resolve a categoria enviada no cadastro de produto (id, slug ou o nome, como os apps antigos enviam)
+export async function resolveCategoryId(idOrSlug: unknown) {
+    if (!idOrSlug || typeof idOrSlug !== 'string') return null;
+
+    const category = await prisma.category.findFirst({
+        where: { OR: [{ id: idOrSlug }, { slug: slugify(idOrSlug) }] },
+        select: { id: true }
+    });
+    return category?.id ?? null;
+}
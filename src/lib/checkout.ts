@@ -0,0 +1,278 @@
+import prisma from './prisma.js';
+import { notify, orderNumber } from './notifications.js';
+import { publishShopEvent } from './shopEvents.js';
+import { moveStock, reservationDeadline } from './inventory.js';
+import { evaluateCoupon, redeemCoupon } from './coupons.js';
+import { isListed } from './moderation.js';
+import type { CouponResult } from './coupons.js';
+import { normalizeZipCode, pickShippingOption, quoteShops } from './shipping.js';
+import type { ShippingOption } from './shipping.js';
+
+export type CheckoutIssue = {
+    cartItemId: string;
+    productId: string;
+    name: string;
+    requested: number;
+    available: number;
+    reason: 'UNAVAILABLE' | 'OUT_OF_STOCK' | 'INVALID_QUANTITY';
+};
+
+// Lançado dentro da transação para desfazer tudo e devolver o motivo por item
+export class CheckoutError extends Error {
+    constructor(
+        public code: 'EMPTY_CART' | 'CART_ITEMS_INVALID' | 'INVALID_ADDRESS' | 'SHIPPING_UNAVAILABLE',
+        public issues: CheckoutIssue[] = []
+    ) {
+        super(code);
+    }
+}
+
+export function roundMoney(value: number) {
+    return Math.round(value * 100) / 100;
+}
+
+type OrderLine = {
+    productId: string;
+    variantId: string | null;
+    variantName: string | null;
+    name: string;
+    quantity: number;
+    price: number;
+    image: string;
+};
+
+type PlaceOrderInput = {
+    customerId: string;
+    paymentMethod: string;
+    addressId: string;
+    couponCode?: string | null;
+    // Serviço de frete (ex: PAC, SEDEX) usado em todas as lojas; sem escolha vai o mais barato
+    shippingService?: string | null;
+};
+
+// Monta o pedido a partir do carrinho salvo: preços e total vêm do banco, nunca do cliente
+export async function placeOrder({ customerId, paymentMethod, addressId, couponCode, shippingService }: PlaceOrderInput) {
+    const address = await prisma.address.findFirst({
+        where: { id: addressId, userId: customerId },
+        include: { user: { select: { name: true } } }
+    });
+    if (!address) throw new CheckoutError('INVALID_ADDRESS');
+
+    // O frete é cotado fora da transação porque o provedor pode ser um serviço externo lento
+    const quotedItems = await prisma.cartItem.findMany({
+        where: { userId: customerId },
+        select: { productId: true, quantity: true }
+    });
+    const quotes = await quoteShops(quotedItems, { zipCode: normalizeZipCode(address.zipCode), state: address.state });
+
+    return prisma.$transaction(async (tx) => {
+        const cartItems = await tx.cartItem.findMany({
+            where: { userId: customerId },
+            orderBy: { productId: 'asc' } // Ordem fixa de bloqueio evita deadlocks entre checkouts
+        });
+
+        if (cartItems.length === 0) throw new CheckoutError('EMPTY_CART');
+
+        const products = await tx.product.findMany({
+            where: { id: { in: cartItems.map(item => item.productId) } },
+            include: { variants: { where: { active: true } }, shop: { select: { status: true } } }
+        });
+        const productsById = new Map(products.map(p => [p.id, p]));
+
+        // Variante escolhida de cada item (undefined quando o produto não tem variantes)
+        const variantOf = (item: typeof cartItems[number]) =>
+            productsById.get(item.productId)?.variants.find(v => v.id === item.variantId);
+
+        const issues: CheckoutIssue[] = [];
+
+        for (const item of cartItems) {
+            const product = productsById.get(item.productId);
+            const variant = variantOf(item);
+            const issue = { cartItemId: item.id, productId: item.productId, name: product?.name ?? item.name, requested: item.quantity };
+            const hasVariants = (product?.variants.length ?? 0) > 0;
+            const available = variant ? variant.stock : (product?.stock ?? 0);
+
+            // Produto sem loja não tem quem o envie; produto com variantes exige uma variante ativa
+            if (!product || !product.shopId || !isListed(product) || (hasVariants && !variant) || (!hasVariants && item.variantId)) {
+                issues.push({ ...issue, available: 0, reason: 'UNAVAILABLE' });
+            } else if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+                issues.push({ ...issue, available, reason: 'INVALID_QUANTITY' });
+            } else if (available < item.quantity) {
+                issues.push({ ...issue, available, reason: 'OUT_OF_STOCK' });
+            }
+        }
+
+        if (issues.length > 0) throw new CheckoutError('CART_ITEMS_INVALID', issues);
+
+        // Um grupo por loja: cada vendedor enxerga e movimenta apenas os próprios itens
+        const groups = new Map<string, OrderLine[]>();
+        for (const item of cartItems) {
+            const product = productsById.get(item.productId)!;
+            const variant = variantOf(item);
+            const lines = groups.get(product.shopId!) ?? [];
+            lines.push({
+                productId: product.id,
+                variantId: variant?.id ?? null,
+                variantName: variant?.name ?? null,
+                name: product.name,
+                quantity: item.quantity,
+                price: variant?.price ?? product.price,
+                image: variant?.image || product.image
+            });
+            groups.set(product.shopId!, lines);
+        }
+
+        const shipping = new Map<string, ShippingOption>();
+        for (const shopId of groups.keys()) {
+            const option = pickShippingOption(quotes.find(quote => quote.shopId === shopId)?.options ?? [], shippingService);
+            if (!option) throw new CheckoutError('SHIPPING_UNAVAILABLE');
+            shipping.set(shopId, option);
+        }
+
+        // O cupom é conferido com os preços que vão de fato para o pedido
+        let coupon: CouponResult | null = null;
+        if (couponCode) {
+            coupon = await evaluateCoupon(tx, {
+                code: couponCode,
+                userId: customerId,
+                shippingByShop: new Map([...shipping].map(([shopId, option]) => [shopId, option.price])),
+                lines: cartItems.map(item => {
+                    const product = productsById.get(item.productId)!;
+                    return {
+                        productId: product.id,
+                        shopId: product.shopId!,
+                        categoryId: product.categoryId,
+                        price: variantOf(item)?.price ?? product.price,
+                        quantity: item.quantity
+                    };
+                })
+            });
+        }
+
+        const shopOrders = [...groups].map(([shopId, lines]) => {
+            const share = coupon?.shops.find(shop => shop.shopId === shopId);
+            return {
+                shopId,
+                lines,
+                subtotal: roundMoney(lines.reduce((sum, line) => sum + line.price * line.quantity, 0)),
+                discount: share?.discount ?? 0,
+                shipping: shipping.get(shopId)!,
+                shippingDiscount: share?.shippingDiscount ?? 0
+            };
+        });
+
+        const total = roundMoney(shopOrders.reduce(
+            (sum, group) => sum + group.subtotal - group.discount + group.shipping.price - group.shippingDiscount,
+            0
+        ));
+
+        const order = await tx.order.create({
+            data: {
+                customerId,
+                total,
+                paymentMethod,
+                addressId,
+                couponId: coupon?.coupon.id,
+                couponCode: coupon?.coupon.code,
+                discount: coupon ? roundMoney(coupon.discount + coupon.shippingDiscount) : 0,
+                shippingAddress: {
+                    create: {
+                        recipient: address.user.name,
+                        street: address.street,
+                        number: address.number,
+                        complement: address.complement,
+                        neighborhood: address.neighborhood,
+                        city: address.city,
+                        state: address.state,
+                        zipCode: address.zipCode
+                    }
+                },
+                status: 'AWAITING_PAYMENT',
+                reservedUntil: reservationDeadline(),
+                statusHistory: {
+                    create: { toStatus: 'AWAITING_PAYMENT', actorId: customerId, actorRole: 'CUSTOMER' }
+                }
+            }
+        });
+
+        const sellers = await tx.shop.findMany({
+            where: { id: { in: shopOrders.map(group => group.shopId) } },
+            select: { id: true, userId: true }
+        });
+
+        for (const group of shopOrders) {
+            const shopOrder = await tx.shopOrder.create({
+                data: {
+                    orderId: order.id,
+                    shopId: group.shopId,
+                    subtotal: group.subtotal,
+                    discount: group.discount,
+                    shippingCost: group.shipping.price,
+                    shippingService: group.shipping.service,
+                    shippingDays: group.shipping.days,
+                    shippingDiscount: group.shippingDiscount,
+                    status: 'AWAITING_PAYMENT',
+                    items: {
+                        create: group.lines.map(line => ({ ...line, orderId: order.id }))
+                    }
+                }
+            });
+
+            // A loja fica sabendo do pedido na hora, sem precisar consultar /seller/orders
+            const units = group.lines.reduce((sum, line) => sum + line.quantity, 0);
+            await publishShopEvent(tx, group.shopId, 'ORDER_PLACED', {
+                orderId: order.id,
+                shopOrderId: shopOrder.id,
+                orderNumber: orderNumber(order.id),
+                subtotal: group.subtotal,
+                items: units
+            });
+            await notify(tx, {
+                userId: sellers.find(shop => shop.id === group.shopId)!.userId,
+                type: 'ORDER_PLACED',
+                title: "Novo pedido",
+                body: `Novo pedido ${orderNumber(order.id)} com ${units} ${units === 1 ? 'item' : 'itens'}, aguardando pagamento.`,
+                data: { orderId: order.id, shopOrderId: shopOrder.id, shopId: group.shopId }
+            });
+        }
+
+        // Baixa condicional: só sai do estoque o que ainda houver no momento da escrita.
+        // A saída fica reservada para o pedido até reservedUntil (ver cancelExpiredReservations)
+        for (const item of cartItems) {
+            const variant = variantOf(item);
+            const stock = await moveStock(tx, {
+                productId: item.productId,
+                variantId: variant?.id,
+                type: 'SALE',
+                quantity: -item.quantity,
+                orderId: order.id,
+                actorId: customerId
+            });
+
+            if (stock === null) {
+                const current = variant
+                    ? await tx.productVariant.findUnique({ where: { id: variant.id } })
+                    : await tx.product.findUnique({ where: { id: item.productId } });
+                issues.push({
+                    cartItemId: item.id,
+                    productId: item.productId,
+                    name: productsById.get(item.productId)?.name ?? item.name,
+                    requested: item.quantity,
+                    available: current?.stock ?? 0,
+                    reason: 'OUT_OF_STOCK'
+                });
+            }
+        }
+
+        if (issues.length > 0) throw new CheckoutError('CART_ITEMS_INVALID', issues);
+
+        if (coupon) await redeemCoupon(tx, coupon, customerId, order.id);
+
+        await tx.cartItem.deleteMany({ where: { userId: customerId } });
+
+        return tx.order.findUniqueOrThrow({
+            where: { id: order.id },
+            include: { items: true, shopOrders: true, shippingAddress: true }
+        });
+    });
+}
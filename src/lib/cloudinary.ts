@@ -1,5 +1,7 @@
 import { v2 as cloudinary } from 'cloudinary';
 import 'dotenv/config';
+import { IMAGE_SIZES } from './storage.js';
+import type { MediaStorage } from './storage.js';
 
 cloudinary.config({
   cloud_name: process.env.CLOUDINARY_CLOUD_NAME as string,
@@ -8,4 +10,47 @@ cloudinary.config({
   secure: true
 });
 
-export default cloudinary;
\ No newline at end of file
+// O original é limitado ao tamanho de exibição no upload; a miniatura é uma transformação na URL
+export class CloudinaryStorage implements MediaStorage {
+  name = 'cloudinary';
+
+  async save(filePath: string, folder: string) {
+    const result = await cloudinary.uploader.upload(filePath, {
+      folder,
+      transformation: [{ width: IMAGE_SIZES.display, height: IMAGE_SIZES.display, crop: 'limit' }]
+    });
+    return { key: result.public_id, url: result.secure_url, thumbnailUrl: this.thumbnailOf(result.secure_url) };
+  }
+
+  // https://res.cloudinary.com/<cloud>/image/upload/[transformações/][v123/]<pasta>/<id>.<ext>
+  keyOf(url: string) {
+    const prefix = `res.cloudinary.com/${cloudinary.config().cloud_name}/image/upload/`;
+    const start = url.indexOf(prefix);
+    if (start === -1) return null;
+
+    const segments = url.slice(start + prefix.length).split('?')[0].split('/');
+    while (segments.length > 1 && (segments[0].includes(',') || /^[a-z]{1,2}_/.test(segments[0]))) segments.shift();
+    if (segments.length > 1 && /^v\d+$/.test(segments[0])) segments.shift();
+
+    return segments.join('/').replace(/\.[a-z0-9]+$/i, '') || null;
+  }
+
+  thumbnailOf(url: string) {
+    const key = this.keyOf(url);
+    if (!key) return url;
+    return cloudinary.url(key, {
+      secure: true,
+      width: IMAGE_SIZES.thumbnail,
+      height: IMAGE_SIZES.thumbnail,
+      crop: 'fill',
+      fetch_format: 'auto',
+      urlAnalytics: false
+    });
+  }
+
+  async remove(key: string) {
+    await cloudinary.uploader.destroy(key, { invalidate: true });
+  }
+}
+
+export default cloudinary;
@@ -0,0 +1,273 @@
+import prisma from './prisma.js';
+import { roundMoney } from './checkout.js';
+import { getCart } from './cart.js';
+import { descendantIds, loadCategoryTree } from './categories.js';
+import type { Coupon, CouponType, Prisma } from '../generated/prisma/client/client.js';
+
+export const COUPON_TYPES: CouponType[] = ['PERCENTAGE', 'FIXED_AMOUNT', 'FREE_SHIPPING'];
+
+export type CouponErrorCode =
+    | 'COUPON_NOT_FOUND'
+    | 'COUPON_INACTIVE'
+    | 'COUPON_NOT_STARTED'
+    | 'COUPON_EXPIRED'
+    | 'COUPON_NOT_APPLICABLE'
+    | 'MIN_ORDER_NOT_MET'
+    | 'USAGE_LIMIT_REACHED'
+    | 'USER_LIMIT_REACHED';
+
+// Cupom recusado no preview ou no checkout (dentro da transação, desfaz o pedido)
+export class CouponError extends Error {
+    constructor(public code: CouponErrorCode, message: string) {
+        super(message);
+    }
+}
+
+export class CouponInputError extends Error {}
+
+// Linha de carrinho/pedido já com o preço atual
+export type CouponLine = {
+    productId: string;
+    shopId: string;
+    categoryId: string;
+    price: number;
+    quantity: number;
+};
+
+export type CouponShopShare = {
+    shopId: string;
+    discount: number;
+    shippingDiscount: number;
+};
+
+export type CouponResult = {
+    coupon: Coupon;
+    eligibleSubtotal: number;
+    discount: number;
+    shippingDiscount: number;
+    shops: CouponShopShare[];
+};
+
+export function normalizeCouponCode(code: unknown) {
+    return typeof code === 'string' ? code.trim().toUpperCase() : '';
+}
+
+// --- CADASTRO ---
+
+const optionalNumber = (value: unknown, field: string) => {
+    if (value === undefined || value === null || value === '') return null;
+    const number = Number(value);
+    if (!Number.isFinite(number) || number <= 0) throw new CouponInputError(`${field} deve ser um número positivo`);
+    return number;
+};
+
+const optionalInt = (value: unknown, field: string) => {
+    const number = optionalNumber(value, field);
+    if (number !== null && !Number.isInteger(number)) throw new CouponInputError(`${field} deve ser um número inteiro`);
+    return number;
+};
+
+const optionalDate = (value: unknown, field: string) => {
+    if (value === undefined || value === null || value === '') return null;
+    const date = new Date(value as string);
+    if (Number.isNaN(date.getTime())) throw new CouponInputError(`${field} deve ser uma data válida`);
+    return date;
+};
+
+const idList = (value: unknown, field: string) => {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value) || value.some(id => typeof id !== 'string')) {
+        throw new CouponInputError(`${field} deve ser uma lista de ids`);
+    }
+    return [...new Set(value as string[])];
+};
+
+// Valida o cupom inteiro; na edição recebe o cupom atual mesclado com o que veio no body
+export function parseCouponInput(input: Record<string, unknown>) {
+    const code = normalizeCouponCode(input.code);
+    if (!/^[A-Z0-9_-]{3,30}$/.test(code)) {
+        throw new CouponInputError("O código deve ter de 3 a 30 letras, números, _ ou -");
+    }
+
+    const type = input.type as CouponType;
+    if (!COUPON_TYPES.includes(type)) throw new CouponInputError("Tipo de cupom inválido");
+
+    const value = type === 'FREE_SHIPPING' ? 0 : Number(input.value);
+    if (type === 'PERCENTAGE' && !(value > 0 && value <= 100)) {
+        throw new CouponInputError("O percentual deve estar entre 0 e 100");
+    }
+    if (type === 'FIXED_AMOUNT' && !(value > 0)) {
+        throw new CouponInputError("O valor do desconto deve ser maior que zero");
+    }
+
+    const startsAt = optionalDate(input.startsAt, 'startsAt');
+    const endsAt = optionalDate(input.endsAt, 'endsAt');
+    if (startsAt && endsAt && endsAt <= startsAt) {
+        throw new CouponInputError("A data final deve ser posterior à inicial");
+    }
+
+    return {
+        code,
+        type,
+        value,
+        description: typeof input.description === 'string' ? input.description : null,
+        maxDiscount: optionalNumber(input.maxDiscount, 'maxDiscount'),
+        minOrderValue: optionalNumber(input.minOrderValue, 'minOrderValue'),
+        productIds: idList(input.productIds, 'productIds'),
+        categoryIds: idList(input.categoryIds, 'categoryIds'),
+        startsAt,
+        endsAt,
+        usageLimit: optionalInt(input.usageLimit, 'usageLimit'),
+        perUserLimit: optionalInt(input.perUserLimit, 'perUserLimit'),
+        active: input.active === undefined ? true : Boolean(input.active)
+    };
+}
+
+// --- CÁLCULO ---
+
+// Divide o valor entre as lojas na proporção de cada base; o arredondamento sobra para a última
+function splitProportionally(amount: number, bases: [string, number][]) {
+    const total = bases.reduce((sum, [, base]) => sum + base, 0);
+    let remaining = amount;
+
+    return new Map(bases.map(([shopId, base], index) => {
+        const share = index === bases.length - 1 ? remaining : roundMoney(amount * base / total);
+        remaining = roundMoney(remaining - share);
+        return [shopId, share];
+    }));
+}
+
+type EvaluateInput = {
+    code: string;
+    userId: string;
+    lines: CouponLine[];
+    // Frete de cada loja; vazio enquanto o pedido não tem frete cotado
+    shippingByShop?: Map<string, number>;
+};
+
+// Confere as regras do cupom e calcula o desconto, já repartido entre as lojas do pedido
+export async function evaluateCoupon(db: Prisma.TransactionClient, { code, userId, lines, shippingByShop = new Map() }: EvaluateInput): Promise<CouponResult> {
+    const coupon = await db.coupon.findUnique({ where: { code: normalizeCouponCode(code) } });
+    const now = new Date();
+
+    if (!coupon) throw new CouponError('COUPON_NOT_FOUND', "Cupom não encontrado");
+    if (!coupon.active) throw new CouponError('COUPON_INACTIVE', "Este cupom não está ativo");
+    if (coupon.startsAt && coupon.startsAt > now) throw new CouponError('COUPON_NOT_STARTED', "Este cupom ainda não está valendo");
+    if (coupon.endsAt && coupon.endsAt < now) throw new CouponError('COUPON_EXPIRED', "Este cupom expirou");
+    if (coupon.usageLimit !== null && coupon.usedCount >= coupon.usageLimit) {
+        throw new CouponError('USAGE_LIMIT_REACHED', "Este cupom já atingiu o limite de usos");
+    }
+    if (coupon.perUserLimit !== null) {
+        const used = await db.couponRedemption.count({ where: { couponId: coupon.id, userId } });
+        if (used >= coupon.perUserLimit) throw new CouponError('USER_LIMIT_REACHED', "Você já usou este cupom o máximo de vezes permitido");
+    }
+
+    // Categorias do cupom valem também para as subcategorias
+    let categoryScope: Set<string> | null = null;
+    if (coupon.categoryIds.length > 0) {
+        const { nodes } = await loadCategoryTree(db);
+        categoryScope = new Set(coupon.categoryIds.flatMap(id => {
+            const node = nodes.get(id);
+            return node ? descendantIds(node) : [];
+        }));
+    }
+
+    const eligible = lines.filter(line =>
+        (!coupon.shopId || line.shopId === coupon.shopId) &&
+        (coupon.productIds.length === 0 || coupon.productIds.includes(line.productId)) &&
+        (!categoryScope || categoryScope.has(line.categoryId))
+    );
+    if (eligible.length === 0) throw new CouponError('COUPON_NOT_APPLICABLE', "Nenhum item do carrinho é válido para este cupom");
+
+    const eligibleByShop = new Map<string, number>();
+    for (const line of eligible) {
+        eligibleByShop.set(line.shopId, (eligibleByShop.get(line.shopId) ?? 0) + line.price * line.quantity);
+    }
+    const eligibleSubtotal = roundMoney([...eligibleByShop.values()].reduce((sum, value) => sum + value, 0));
+
+    if (coupon.minOrderValue !== null && eligibleSubtotal < coupon.minOrderValue) {
+        throw new CouponError('MIN_ORDER_NOT_MET', `O valor mínimo para este cupom é R$ ${coupon.minOrderValue.toFixed(2)}`);
+    }
+
+    let discount = 0;
+    if (coupon.type === 'PERCENTAGE') discount = eligibleSubtotal * coupon.value / 100;
+    if (coupon.type === 'FIXED_AMOUNT') discount = Math.min(coupon.value, eligibleSubtotal);
+    if (coupon.maxDiscount !== null) discount = Math.min(discount, coupon.maxDiscount);
+    discount = roundMoney(discount);
+
+    const itemShares = splitProportionally(discount, [...eligibleByShop]);
+    const shops = [...eligibleByShop.keys()].map(shopId => ({
+        shopId,
+        discount: itemShares.get(shopId) ?? 0,
+        // Frete grátis zera o frete das lojas que têm itens elegíveis
+        shippingDiscount: coupon.type === 'FREE_SHIPPING' ? (shippingByShop.get(shopId) ?? 0) : 0
+    }));
+
+    return {
+        coupon,
+        eligibleSubtotal,
+        discount,
+        shippingDiscount: roundMoney(shops.reduce((sum, shop) => sum + shop.shippingDiscount, 0)),
+        shops
+    };
+}
+
+// Prévia do cupom contra o carrinho atual do cliente, sem reservar uso
+export async function previewCoupon(userId: string, code: string) {
+    const cart = await getCart({ userId });
+    const lines = cart.items
+        .filter(line => !line.unavailable && line.shopId)
+        .map(line => ({ ...line, shopId: line.shopId! }));
+
+    const result = await prisma.$transaction(tx => evaluateCoupon(tx, { code, userId, lines }));
+
+    return {
+        code: result.coupon.code,
+        type: result.coupon.type,
+        description: result.coupon.description,
+        subtotal: cart.subtotal,
+        eligibleSubtotal: result.eligibleSubtotal,
+        discount: result.discount,
+        shippingDiscount: result.shippingDiscount,
+        total: roundMoney(cart.subtotal - result.discount),
+        shops: result.shops
+    };
+}
+
+// --- USO ---
+
+// Reserva o uso no checkout. O update trava a linha do cupom, então a contagem por cliente
+// feita logo depois já enxerga os pedidos concorrentes que usaram o mesmo cupom
+export async function redeemCoupon(tx: Prisma.TransactionClient, result: CouponResult, userId: string, orderId: string) {
+    const { coupon } = result;
+
+    const { count } = await tx.coupon.updateMany({
+        where: {
+            id: coupon.id,
+            ...(coupon.usageLimit !== null && { usedCount: { lt: coupon.usageLimit } })
+        },
+        data: { usedCount: { increment: 1 } }
+    });
+    if (count === 0) throw new CouponError('USAGE_LIMIT_REACHED', "Este cupom já atingiu o limite de usos");
+
+    if (coupon.perUserLimit !== null) {
+        const used = await tx.couponRedemption.count({ where: { couponId: coupon.id, userId } });
+        if (used >= coupon.perUserLimit) throw new CouponError('USER_LIMIT_REACHED', "Você já usou este cupom o máximo de vezes permitido");
+    }
+
+    await tx.couponRedemption.create({
+        data: { couponId: coupon.id, userId, orderId, discount: roundMoney(result.discount + result.shippingDiscount) }
+    });
+}
+
+// Pedido cancelado por inteiro devolve o uso do cupom ao cliente e ao limite total
+export async function releaseCoupon(tx: Prisma.TransactionClient, orderId: string) {
+    const redemption = await tx.couponRedemption.findUnique({ where: { orderId } });
+    if (!redemption) return;
+
+    await tx.couponRedemption.delete({ where: { id: redemption.id } });
+    await tx.coupon.update({
+        where: { id: redemption.couponId },
+        data: { usedCount: { decrement: 1 } }
+    });
+}
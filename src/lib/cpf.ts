@@ -0,0 +1,29 @@
+// Só os 11 dígitos, sem pontos e traço
+export function normalizeCpf(value: string) {
+    return value.replace(/\D/g, '');
+}
+
+// Confere os dois dígitos verificadores; sequências repetidas (111.111.111-11) passam na conta
+// mas não são CPFs emitidos
+export function isValidCpf(value: string) {
+    const digits = normalizeCpf(value);
+    if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) return false;
+
+    const checkDigit = (length: number) => {
+        let sum = 0;
+        for (let i = 0; i < length; i++) sum += Number(digits[i]) * (length + 1 - i);
+        const rest = (sum * 10) % 11;
+        return rest === 10 ? 0 : rest;
+    };
+
+    return checkDigit(9) === Number(digits[9]) && checkDigit(10) === Number(digits[10]);
+}
+
+// Formato exibido nas respostas da API: só os dígitos do meio ficam visíveis (***.456.789-**)
+export function maskCpf(cpf: string | null) {
+    if (!cpf) return cpf;
+
+    const digits = normalizeCpf(cpf);
+    if (digits.length !== 11) return '***';
+    return `***.${digits.slice(3, 6)}.${digits.slice(6, 9)}-**`;
+}
@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { toCsv } from './csv.js';
+
+type Row = { name: string; amount: number };
+
+const columns = [
+    { header: 'Produto', value: (row: Row) => row.name },
+    { header: 'Valor', value: (row: Row) => row.amount }
+];
+
+const lines = (csv: string) => csv.replace(/^﻿/, '').split('\r\n').slice(1, -1);
+
+describe('exportação em CSV', () => {
+    test('põe entre aspas o que tem separador, aspas ou quebra de linha', () => {
+        const csv = toCsv([{ name: 'Vestido "longo", azul', amount: 10 }, { name: 'Saia\nmidi', amount: 5 }], columns);
+        assert.deepEqual(lines(csv), ['"Vestido ""longo"", azul",10', '"Saia\nmidi",5']);
+    });
+
+    test('neutraliza texto que a planilha leria como fórmula', () => {
+        const csv = toCsv([
+            { name: '=HYPERLINK("http://exemplo.invalid","Clique")', amount: 1 },
+            { name: '+55 11 99999', amount: 1 },
+            { name: '-desconto', amount: 1 },
+            { name: '@SUM(A1)', amount: 1 }
+        ], columns);
+
+        assert.deepEqual(lines(csv), [
+            `"'=HYPERLINK(""http://exemplo.invalid"",""Clique"")",1`,
+            "'+55 11 99999,1",
+            "'-desconto,1",
+            "'@SUM(A1),1"
+        ]);
+    });
+
+    test('mantém números negativos como números', () => {
+        assert.deepEqual(lines(toCsv([{ name: 'Reembolso', amount: -12.5 }], columns)), ['Reembolso,-12.5']);
+        assert.deepEqual(lines(toCsv([{ name: (-3).toFixed(2), amount: 0 }], columns)), ['-3.00,0']);
+    });
+});
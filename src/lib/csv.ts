@@ -0,0 +1,26 @@
+export type CsvColumn<T> = {
+    header: string;
+    value: (row: T) => unknown;
+};
+
+// Texto que começa assim vira fórmula na planilha (ex: nome de produto "=HYPERLINK(...)")
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+// Aspas quando o valor tem separador, aspas ou quebra de linha (RFC 4180). Texto com cara de
+// fórmula ganha um apóstrofo na frente para a planilha tratá-lo como texto; valores negativos
+// (ex: "-12.50" de um toFixed) ficam como estão
+function escape(value: unknown) {
+    let text = value === null || value === undefined ? '' : String(value);
+    if (FORMULA_START.test(text) && !PLAIN_NUMBER.test(text)) text = `'${text}`;
+    return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// BOM no início para o Excel abrir os acentos corretamente
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]) {
+    const lines = [
+        columns.map(column => escape(column.header)).join(','),
+        ...rows.map(row => columns.map(column => escape(column.value(row))).join(','))
+    ];
+    return '﻿' + lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,97 @@
+import type { NextFunction, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { Prisma } from '../generated/prisma/client/client.js';
+
+// Campo com problema, no formato "local.caminho" (ex: body.userData.email, query.page)
+export type ErrorDetail = { field: string; message: string };
+
+// Toda resposta de erro da API tem esta forma:
+// { error: mensagem para exibir, code: código estável para o cliente, details?: erros por campo }
+// "extra" leva dados de contexto de alguns erros (ex: estoque disponível no carrinho)
+export class ApiError extends Error {
+    constructor(
+        public status: number,
+        public code: string,
+        message: string,
+        public details?: ErrorDetail[],
+        public extra?: Record<string, unknown>
+    ) {
+        super(message);
+    }
+}
+
+export function zodDetails(error: ZodError, location?: string): ErrorDetail[] {
+    return error.issues.map(issue => ({
+        field: [location, ...issue.path].filter(part => part !== undefined).join('.'),
+        message: issue.message
+    }));
+}
+
+// Campos da constraint violada: "target" no driver nativo, "constraint.fields" com adapter
+function constraintFields(error: Prisma.PrismaClientKnownRequestError): string[] {
+    const meta: Record<string, unknown> = error.meta ?? {};
+    const fields = meta.target ?? field(meta.driverAdapterError, 'cause', 'constraint', 'fields') ?? meta.field_name;
+    if (Array.isArray(fields)) return fields.map(String);
+    return typeof fields === 'string' ? [fields] : [];
+}
+
+// Lê um caminho dentro de um valor desconhecido, parando no primeiro nível que não for objeto
+function field(value: unknown, ...path: string[]): unknown {
+    for (const key of path) {
+        if (typeof value !== 'object' || value === null) return undefined;
+        value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+}
+
+function prismaError(error: Prisma.PrismaClientKnownRequestError) {
+    const fields = constraintFields(error);
+    const details = fields.map(field => ({ field: `body.${field}`, message: "Valor inválido" }));
+
+    switch (error.code) {
+        case 'P2002':
+            return new ApiError(409, 'CONFLICT', "Já existe um registro com estes dados",
+                fields.map(field => ({ field: `body.${field}`, message: "Já está em uso" })));
+        case 'P2025':
+            return new ApiError(404, 'NOT_FOUND', "Registro não encontrado");
+        case 'P2003':
+            return new ApiError(422, 'INVALID_REFERENCE', "Referência a um registro inexistente", details);
+    }
+}
+
+export function toApiError(error: unknown): ApiError {
+    if (error instanceof ApiError) return error;
+    if (error instanceof ZodError) return new ApiError(400, 'VALIDATION_ERROR', "Dados inválidos", zodDetails(error));
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        const mapped = prismaError(error);
+        if (mapped) return mapped;
+    }
+
+    // Erros do body-parser (JSON malformado, corpo grande demais)
+    const type = (error as { type?: string } | null)?.type;
+    if (type === 'entity.parse.failed') return new ApiError(400, 'INVALID_JSON', "O corpo da requisição não é um JSON válido");
+    if (type === 'entity.too.large') return new ApiError(413, 'PAYLOAD_TOO_LARGE', "O corpo da requisição é grande demais");
+
+    return new ApiError(500, 'INTERNAL_ERROR', "Erro interno no servidor");
+}
+
+export function sendError(res: Response, error: ApiError) {
+    const { status, code, message, details, extra } = error;
+    return res.status(status).json({ ...extra, error: message, code, ...(details && details.length > 0 && { details }) });
+}
+
+// Último middleware da API. "mapError" converte os erros de domínio das libs (CartError, CouponError...)
+export function errorHandler(mapError: (error: unknown) => ApiError | undefined) {
+    return (error: unknown, req: Request, res: Response, next: NextFunction) => {
+        if (res.headersSent) return next(error);
+
+        const apiError = mapError(error) ?? toApiError(error);
+        if (apiError.status >= 500) console.error(`❌ Erro em ${req.method} ${req.path}:`, error);
+
+        sendError(res, apiError);
+    };
+}
+
+export function routeNotFound(req: Request, res: Response) {
+    sendError(res, new ApiError(404, 'ROUTE_NOT_FOUND', `Rota ${req.method} ${req.path} não existe`));
+}
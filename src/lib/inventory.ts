@@ -0,0 +1,187 @@
+import prisma from './prisma.js';
+import { notify } from './notifications.js';
+import { publishShopEvent } from './shopEvents.js';
+import { trackProductChanges } from './wishlist.js';
+import type { Prisma, StockMovementType } from '../generated/prisma/client/client.js';
+
+// Limite de estoque baixo para produtos sem um limite próprio
+export const LOW_STOCK_THRESHOLD = Number(process.env.LOW_STOCK_THRESHOLD ?? 5);
+
+// Quanto tempo o estoque de um pedido fica reservado esperando o pagamento
+export const RESERVATION_MINUTES = Number(process.env.STOCK_RESERVATION_MINUTES ?? 30);
+
+export class InventoryError extends Error {
+    constructor(
+        public code: 'STOCK_CONFLICT' | 'VARIANT_NOT_FOUND',
+        message: string,
+        public current?: { stock: number; stockVersion: number }
+    ) {
+        super(message);
+    }
+}
+
+export function reservationDeadline() {
+    return new Date(Date.now() + RESERVATION_MINUTES * 60 * 1000);
+}
+
+type Movement = {
+    productId: string;
+    variantId?: string | null;
+    type: StockMovementType;
+    // Positivo entra, negativo sai
+    quantity: number;
+    orderId?: string | null;
+    actorId?: string | null;
+    note?: string | null;
+};
+
+// Único caminho para mudar o estoque: aplica a variação (na variante e no produto, que é a
+// soma delas), avança a stockVersion, grava o movimento e avisa a loja se cruzar o limite.
+// Uma saída maior que o estoque não é aplicada e devolve null
+export async function moveStock(tx: Prisma.TransactionClient, { productId, variantId = null, type, quantity, ...movement }: Movement) {
+    const fits = quantity < 0 ? { stock: { gte: -quantity } } : {};
+
+    if (variantId) {
+        const { count } = await tx.productVariant.updateMany({
+            where: { id: variantId, productId, ...fits },
+            data: { stock: { increment: quantity } }
+        });
+        if (count === 0) return null;
+    }
+
+    const { count } = await tx.product.updateMany({
+        where: { id: productId, ...(!variantId && fits) },
+        data: {
+            stock: { increment: quantity },
+            stockVersion: { increment: 1 },
+            ...(type === 'SALE' && { sold: { increment: -quantity } }),
+            ...((type === 'CANCELLATION' || type === 'RETURN') && { sold: { decrement: quantity } })
+        }
+    });
+    if (count === 0) return null;
+
+    const product = await tx.product.findUniqueOrThrow({
+        where: { id: productId },
+        select: { name: true, stock: true, shopId: true, lowStockThreshold: true }
+    });
+    const variant = variantId
+        ? await tx.productVariant.findUniqueOrThrow({ where: { id: variantId }, select: { name: true, stock: true } })
+        : null;
+    const stockAfter = variant ? variant.stock : product.stock;
+
+    await tx.stockMovement.create({
+        data: { productId, variantId, type, quantity, stockAfter, ...movement }
+    });
+
+    // Avisa só na passagem para o limite, não a cada venda abaixo dele
+    const threshold = product.lowStockThreshold ?? LOW_STOCK_THRESHOLD;
+    if (product.shopId && stockAfter - quantity > threshold && stockAfter <= threshold) {
+        const name = variant ? `${product.name} - ${variant.name}` : product.name;
+        const data = { productId, variantId, name, stock: stockAfter, threshold };
+
+        await publishShopEvent(tx, product.shopId, 'LOW_STOCK', data);
+
+        const shop = await tx.shop.findUniqueOrThrow({ where: { id: product.shopId }, select: { userId: true } });
+        await notify(tx, {
+            userId: shop.userId,
+            type: 'LOW_STOCK',
+            title: "Estoque baixo",
+            body: stockAfter === 0
+                ? `${name} esgotou.`
+                : `${name} está com ${stockAfter} ${stockAfter === 1 ? 'unidade' : 'unidades'} em estoque.`,
+            data: { ...data, shopId: product.shopId }
+        });
+    }
+
+    return stockAfter;
+}
+
+// Confere a versão que o vendedor leu e trava o produto até o fim da transação; outra
+// mudança de estoque no meio do caminho vira STOCK_CONFLICT em vez de ser sobrescrita
+export async function lockStockVersion(tx: Prisma.TransactionClient, productId: string, stockVersion: number) {
+    const { count } = await tx.product.updateMany({
+        where: { id: productId, stockVersion },
+        data: { stockVersion }
+    });
+
+    if (count === 0) {
+        const current = await tx.product.findUniqueOrThrow({ where: { id: productId }, select: { stock: true, stockVersion: true } });
+        throw new InventoryError(
+            'STOCK_CONFLICT',
+            "O estoque mudou desde que você abriu o produto. Confira o valor atual e tente de novo",
+            current
+        );
+    }
+}
+
+type Adjustment = {
+    productId: string;
+    variantId?: string | null;
+    // Novo estoque informado pelo vendedor; vira um movimento com a diferença
+    stock: number;
+    actorId: string;
+    type?: StockMovementType;
+    note?: string | null;
+};
+
+// Leva o estoque (do produto ou da variante) ao valor informado. Chamar depois de lockStockVersion
+export async function setStock(tx: Prisma.TransactionClient, { productId, variantId = null, stock, type = 'ADJUSTMENT', ...rest }: Adjustment) {
+    const current = variantId
+        ? await tx.productVariant.findFirst({ where: { id: variantId, productId }, select: { stock: true } })
+        : await tx.product.findUnique({ where: { id: productId }, select: { stock: true } });
+    if (!current) throw new InventoryError('VARIANT_NOT_FOUND', "Variante não encontrada neste produto");
+
+    const quantity = stock - current.stock;
+    if (quantity === 0) return current.stock;
+
+    return moveStock(tx, { productId, variantId, type, quantity, ...rest });
+}
+
+type StockEdit = Omit<Adjustment, 'type'> & { stockVersion: number };
+
+export function adjustStock({ stockVersion, ...adjustment }: StockEdit) {
+    return prisma.$transaction(async (tx) => {
+        await lockStockVersion(tx, adjustment.productId, stockVersion);
+
+        const before = await tx.product.findUniqueOrThrow({ where: { id: adjustment.productId }, select: { price: true, stock: true } });
+        await setStock(tx, adjustment);
+        await trackProductChanges(tx, adjustment.productId, before);
+
+        return tx.product.findUniqueOrThrow({
+            where: { id: adjustment.productId },
+            select: {
+                id: true,
+                stock: true,
+                stockVersion: true,
+                lowStockThreshold: true,
+                variants: { where: { active: true }, select: { id: true, name: true, stock: true } }
+            }
+        });
+    });
+}
+
+// Produtos (ou variantes) da loja no limite de estoque baixo ou abaixo dele
+export async function lowStockItems(shopId: string) {
+    const products = await prisma.product.findMany({
+        where: { shopId },
+        select: {
+            id: true,
+            name: true,
+            stock: true,
+            lowStockThreshold: true,
+            variants: { where: { active: true }, select: { id: true, name: true, stock: true } }
+        },
+        orderBy: { stock: 'asc' }
+    });
+
+    return products.flatMap(product => {
+        const threshold = product.lowStockThreshold ?? LOW_STOCK_THRESHOLD;
+        const items = product.variants.length > 0
+            ? product.variants.map(variant => ({ variantId: variant.id, name: `${product.name} - ${variant.name}`, stock: variant.stock }))
+            : [{ variantId: null, name: product.name, stock: product.stock }];
+
+        return items
+            .filter(item => item.stock <= threshold)
+            .map(item => ({ productId: product.id, ...item, threshold }));
+    });
+}
@@ -0,0 +1,270 @@
+import prisma from './prisma.js';
+import { roundMoney } from './checkout.js';
+import { loadCategoryTree } from './categories.js';
+import type { CategoryNode } from './categories.js';
+import type { LedgerAccount, LedgerTransactionType, Prisma } from '../generated/prisma/client/client.js';
+
+// Comissão quando nem a loja nem a categoria têm taxa própria
+export const DEFAULT_COMMISSION_RATE = Number(process.env.PLATFORM_COMMISSION_RATE ?? 0.10);
+
+// Dias após a entrega em que o valor fica retido (janela de devolução/contestação)
+export const PAYOUT_HOLD_DAYS = Number(process.env.PAYOUT_HOLD_DAYS ?? 7);
+
+export class PayoutError extends Error {
+    constructor(public code: 'INVALID_AMOUNT' | 'INSUFFICIENT_FUNDS' | 'SHOP_SUSPENDED', message: string) {
+        super(message);
+    }
+}
+
+type LedgerLine = { account: LedgerAccount; amount: number };
+
+type PostInput = {
+    type: LedgerTransactionType;
+    shopId: string;
+    shopOrderId?: string;
+    payoutId?: string;
+    description: string;
+    entries: LedgerLine[];
+};
+
+// Grava um lançamento; recusa qualquer um cujas linhas não somem zero.
+// Os valores chegam já arredondados para que débito e crédito sejam exatamente opostos
+async function post(tx: Prisma.TransactionClient, { entries, shopId, ...transaction }: PostInput) {
+    const lines = entries.filter(line => line.amount !== 0);
+    if (roundMoney(lines.reduce((sum, line) => sum + line.amount, 0)) !== 0) {
+        throw new Error(`Lançamento ${transaction.type} desbalanceado`);
+    }
+
+    return tx.ledgerTransaction.create({
+        data: { ...transaction, shopId, entries: { create: lines.map(line => ({ ...line, shopId })) } }
+    });
+}
+
+// Taxa da loja, senão a da categoria mais próxima (subindo na árvore), senão a padrão
+export function commissionRateFor(shopRate: number | null, categoryId: string, nodes: Map<string, CategoryNode>) {
+    if (shopRate !== null) return shopRate;
+
+    let node = nodes.get(categoryId);
+    while (node) {
+        if (node.commissionRate !== null) return node.commissionRate;
+        node = node.parentId ? nodes.get(node.parentId) : undefined;
+    }
+    return DEFAULT_COMMISSION_RATE;
+}
+
+// Saldo de cada conta considerando só os lançamentos de uma parte de pedido
+async function shopOrderBalances(tx: Prisma.TransactionClient, shopOrderId: string) {
+    const sums = await tx.ledgerEntry.groupBy({
+        by: ['account'],
+        where: { transaction: { shopOrderId } },
+        _sum: { amount: true }
+    });
+    return (account: LedgerAccount) => roundMoney(sums.find(sum => sum.account === account)?._sum.amount ?? 0);
+}
+
+// Pagamento confirmado: a loja passa a ter a receber o valor da sua parte, menos a comissão
+export async function recordSale(tx: Prisma.TransactionClient, shopOrderId: string) {
+    if (await tx.ledgerTransaction.findFirst({ where: { shopOrderId, type: 'SALE' } })) return;
+
+    const shopOrder = await tx.shopOrder.findUniqueOrThrow({
+        where: { id: shopOrderId },
+        include: { shop: true, items: { include: { product: { select: { categoryId: true } } } } }
+    });
+    const { nodes } = await loadCategoryTree(tx);
+
+    // A loja recebe o que o cliente pagou pela parte dela (itens e frete, já com o cupom)
+    const gross = roundMoney(shopOrder.subtotal - shopOrder.discount + shopOrder.shippingCost - shopOrder.shippingDiscount);
+
+    // A comissão incide só sobre os itens, com o desconto repartido na proporção de cada um
+    const discountFactor = shopOrder.subtotal > 0 ? (shopOrder.subtotal - shopOrder.discount) / shopOrder.subtotal : 0;
+    const commission = roundMoney(shopOrder.items.reduce((sum, item) => {
+        const rate = commissionRateFor(shopOrder.shop.commissionRate, item.product.categoryId, nodes);
+        return sum + item.price * item.quantity * discountFactor * rate;
+    }, 0));
+
+    await post(tx, {
+        type: 'SALE',
+        shopId: shopOrder.shopId,
+        shopOrderId,
+        description: "Venda",
+        entries: [
+            { account: 'CUSTOMER_FUNDS', amount: gross },
+            { account: 'SHOP_PENDING', amount: -gross }
+        ]
+    });
+    await post(tx, {
+        type: 'COMMISSION',
+        shopId: shopOrder.shopId,
+        shopOrderId,
+        description: "Comissão da plataforma",
+        entries: [
+            { account: 'SHOP_PENDING', amount: commission },
+            { account: 'PLATFORM_COMMISSION', amount: -commission }
+        ]
+    });
+}
+
+// Devolve ao cliente parte (ou o restante) do que foi pago por uma parte de pedido.
+// A comissão é estornada na mesma proporção e o valor sai do saldo onde o dinheiro estiver.
+// Retorna o valor estornado (0 quando não há nada pago a devolver)
+export async function recordRefund(tx: Prisma.TransactionClient, shopOrderId: string, amount?: number, description = "Reembolso") {
+    const shopOrder = await tx.shopOrder.findUniqueOrThrow({ where: { id: shopOrderId } });
+    const balance = await shopOrderBalances(tx, shopOrderId);
+
+    const refundable = balance('CUSTOMER_FUNDS');
+    const value = roundMoney(Math.min(amount ?? refundable, refundable));
+    if (value <= 0) return 0;
+
+    const commission = roundMoney(-balance('PLATFORM_COMMISSION') * value / refundable);
+    const released = await tx.ledgerTransaction.findFirst({ where: { shopOrderId, type: 'RELEASE' } });
+    const account: LedgerAccount = released ? 'SHOP_AVAILABLE' : 'SHOP_PENDING';
+
+    await post(tx, {
+        type: 'REFUND',
+        shopId: shopOrder.shopId,
+        shopOrderId,
+        description,
+        entries: [
+            { account, amount: value },
+            { account: 'CUSTOMER_FUNDS', amount: -value },
+            { account: 'PLATFORM_COMMISSION', amount: commission },
+            { account, amount: -commission }
+        ]
+    });
+    return value;
+}
+
+async function releaseShopOrder(tx: Prisma.TransactionClient, shopOrderId: string, shopId: string) {
+    if (await tx.ledgerTransaction.findFirst({ where: { shopOrderId, type: 'RELEASE' } })) return;
+
+    const pending = -(await shopOrderBalances(tx, shopOrderId))('SHOP_PENDING');
+    await post(tx, {
+        type: 'RELEASE',
+        shopId,
+        shopOrderId,
+        description: "Saldo liberado",
+        entries: [
+            { account: 'SHOP_PENDING', amount: pending },
+            { account: 'SHOP_AVAILABLE', amount: -pending }
+        ]
+    });
+}
+
+// Libera o saldo das partes entregues há mais tempo que o período de retenção
+export async function releaseMaturedFunds(shopId?: string) {
+    const cutoff = new Date(Date.now() - PAYOUT_HOLD_DAYS * 24 * 60 * 60 * 1000);
+
+    const matured = await prisma.shopOrder.findMany({
+        where: {
+            ...(shopId && { shopId }),
+            status: { in: ['DELIVERED', 'COMPLETED'] },
+            statusHistory: { some: { toStatus: 'DELIVERED', createdAt: { lte: cutoff } } },
+            ledger: { some: { type: 'SALE' }, none: { type: 'RELEASE' } }
+        },
+        select: { id: true, shopId: true }
+    });
+
+    for (const shopOrder of matured) {
+        await prisma.$transaction(tx => releaseShopOrder(tx, shopOrder.id, shopOrder.shopId));
+    }
+    return matured.length;
+}
+
+async function balanceOf(tx: Prisma.TransactionClient, shopId: string) {
+    const sums = await tx.ledgerEntry.groupBy({
+        by: ['account'],
+        where: { shopId, account: { in: ['SHOP_PENDING', 'SHOP_AVAILABLE'] } },
+        _sum: { amount: true }
+    });
+    const balance = (account: LedgerAccount) => roundMoney(-(sums.find(sum => sum.account === account)?._sum.amount ?? 0));
+
+    return { pending: balance('SHOP_PENDING'), available: balance('SHOP_AVAILABLE') };
+}
+
+export function getShopBalance(shopId: string) {
+    return prisma.$transaction(tx => balanceOf(tx, shopId));
+}
+
+// --- REPASSES ---
+
+// Qualquer meio de repasse (PIX, TED, gateway) entra implementando esta interface
+export interface PayoutProvider {
+    name: string;
+    // Lança erro quando o repasse é recusado
+    send(payout: { id: string; shopId: string; amount: number }): Promise<{ reference: string }>;
+}
+
+// Provedor local: aprova tudo na hora, sem movimentar dinheiro de verdade
+export class FakePayoutProvider implements PayoutProvider {
+    name = 'fake';
+
+    async send(payout: { id: string }) {
+        return { reference: `fake_${payout.id}` };
+    }
+}
+
+let payoutProvider: PayoutProvider = new FakePayoutProvider();
+
+export function setPayoutProvider(next: PayoutProvider) {
+    payoutProvider = next;
+}
+
+// Reserva o valor no livro antes de chamar o provedor; se ele recusar, o lançamento é estornado
+export async function requestPayout(shopId: string, amount?: number) {
+    if (amount !== undefined && !(Number.isFinite(amount) && amount > 0)) {
+        throw new PayoutError('INVALID_AMOUNT', "Informe um valor de saque maior que zero");
+    }
+
+    const payout = await prisma.$transaction(async (tx) => {
+        // Trava a loja para que dois saques simultâneos não usem o mesmo saldo
+        const [shop] = await tx.$queryRaw<{ status: string }[]>`SELECT "status" FROM "Shop" WHERE "id" = ${shopId} FOR UPDATE`;
+        if (shop?.status === 'SUSPENDED') {
+            throw new PayoutError('SHOP_SUSPENDED', "Loja suspensa: os saques ficam bloqueados até a revisão da equipe");
+        }
+
+        const { available } = await balanceOf(tx, shopId);
+        const value = roundMoney(amount ?? available);
+        if (value <= 0 || value > available) {
+            throw new PayoutError('INSUFFICIENT_FUNDS', `Saldo disponível insuficiente (R$ ${available.toFixed(2)})`);
+        }
+
+        const created = await tx.payout.create({ data: { shopId, amount: value, provider: payoutProvider.name } });
+        await post(tx, {
+            type: 'PAYOUT',
+            shopId,
+            payoutId: created.id,
+            description: "Saque solicitado",
+            entries: [
+                { account: 'SHOP_AVAILABLE', amount: value },
+                { account: 'PAYOUTS', amount: -value }
+            ]
+        });
+        return created;
+    });
+
+    try {
+        const { reference } = await payoutProvider.send(payout);
+        return prisma.payout.update({
+            where: { id: payout.id },
+            data: { status: 'PAID', reference, paidAt: new Date() }
+        });
+    } catch (error) {
+        console.error(`❌ Repasse ${payout.id} recusado:`, error);
+        return prisma.$transaction(async (tx) => {
+            await post(tx, {
+                type: 'PAYOUT_REVERSAL',
+                shopId,
+                payoutId: payout.id,
+                description: "Saque recusado pelo provedor",
+                entries: [
+                    { account: 'SHOP_AVAILABLE', amount: -payout.amount },
+                    { account: 'PAYOUTS', amount: payout.amount }
+                ]
+            });
+            return tx.payout.update({
+                where: { id: payout.id },
+                data: { status: 'FAILED', failureReason: error instanceof Error ? error.message : String(error) }
+            });
+        });
+    }
+}
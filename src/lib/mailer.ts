@@ -0,0 +1,35 @@
+import nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+import 'dotenv/config';
+
+export const MAIL_FROM = process.env.MAIL_FROM ?? 'Insinuante <nao-responda@insinuante.com.br>';
+
+export type Mail = {
+    to: string;
+    subject: string;
+    text: string;
+};
+
+let transporter: Transporter | null | undefined;
+
+// SMTP configurado por variáveis de ambiente; em testes basta apontar SMTP_HOST/SMTP_PORT
+// para um servidor local de captura. Sem SMTP_HOST não há envio (os e-mails ficam na fila)
+export function getMailer() {
+    if (transporter !== undefined) return transporter;
+
+    const host = process.env.SMTP_HOST;
+    transporter = host
+        ? nodemailer.createTransport({
+            host,
+            port: Number(process.env.SMTP_PORT ?? 587),
+            secure: process.env.SMTP_SECURE === 'true',
+            auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined
+        })
+        : null;
+
+    return transporter;
+}
+
+export async function sendMail(mailer: Transporter, { to, subject, text }: Mail) {
+    await mailer.sendMail({ from: MAIL_FROM, to, subject, text });
+}
@@ -0,0 +1,171 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import multer from 'multer';
+import type { NextFunction, Request, Response } from 'express';
+import prisma from './prisma.js';
+import { CloudinaryStorage } from './cloudinary.js';
+import { LocalStorage } from './storage.js';
+import type { MediaStorage, StoredImage } from './storage.js';
+
+export const MAX_IMAGE_SIZE = Number(process.env.MAX_IMAGE_SIZE_MB ?? 5) * 1024 * 1024;
+
+// Assinatura dos primeiros bytes de cada tipo aceito: o mimetype enviado pelo cliente não basta
+const IMAGE_SIGNATURES: Record<string, (header: Buffer) => boolean> = {
+    'image/jpeg': header => header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff,
+    'image/png': header => header.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+    'image/webp': header => header.toString('ascii', 0, 4) === 'RIFF' && header.toString('ascii', 8, 12) === 'WEBP'
+};
+export const ALLOWED_IMAGE_TYPES = Object.keys(IMAGE_SIGNATURES);
+
+export class MediaError extends Error {
+    constructor(public code: 'INVALID_FILE_TYPE' | 'FILE_TOO_LARGE' | 'TOO_MANY_FILES', message: string) {
+        super(message);
+    }
+}
+
+// --- ARMAZENAMENTO ---
+
+// STORAGE_DRIVER=local|cloudinary; sem configuração do Cloudinary, usa o disco local
+function createStorage(): MediaStorage {
+    const driver = process.env.STORAGE_DRIVER ?? (process.env.CLOUDINARY_CLOUD_NAME ? 'cloudinary' : 'local');
+    if (driver === 'cloudinary') return new CloudinaryStorage();
+
+    const dir = path.resolve(process.env.MEDIA_DIR ?? 'media');
+    const publicUrl = (process.env.MEDIA_PUBLIC_URL ?? 'http://localhost:3333/media').replace(/\/$/, '');
+    return new LocalStorage(dir, publicUrl);
+}
+
+let storage = createStorage();
+
+export function getStorage() {
+    return storage;
+}
+
+export function setStorage(next: MediaStorage) {
+    storage = next;
+}
+
+// --- RECEBIMENTO ---
+
+// Temporários do multer ficam fora do projeto e saem ao fim de cada requisição
+const TEMP_DIR = path.join(os.tmpdir(), 'insinuante-uploads');
+
+const upload = multer({
+    dest: TEMP_DIR,
+    limits: { fileSize: MAX_IMAGE_SIZE },
+    fileFilter: (req, file, callback) => {
+        if (ALLOWED_IMAGE_TYPES.includes(file.mimetype)) return callback(null, true);
+        callback(new MediaError('INVALID_FILE_TYPE', "Formato de imagem não suportado (use JPEG, PNG ou WebP)"));
+    }
+});
+
+export function uploadedFiles(req: Request) {
+    return (req.files as Express.Multer.File[] | undefined) ?? [];
+}
+
+function removeTempFiles(req: Request) {
+    for (const file of uploadedFiles(req)) fs.rm(file.path, { force: true }, () => {});
+}
+
+// Substitui o upload.array() do multer: converte as recusas do multer em MediaError
+// e apaga os temporários quando a resposta termina, tenha dado certo ou não
+export function receiveImages(field: string, maxCount: number) {
+    const handler = upload.array(field, maxCount);
+
+    const middleware = (req: Request, res: Response, next: NextFunction) => {
+        res.on('close', () => removeTempFiles(req));
+
+        handler(req, res, (error?: unknown) => {
+            if (!error) return next();
+
+            let mediaError = error instanceof MediaError ? error : null;
+            if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+                mediaError = new MediaError('FILE_TOO_LARGE', `Cada imagem pode ter no máximo ${MAX_IMAGE_SIZE / 1024 / 1024} MB`);
+            }
+            if (error instanceof multer.MulterError && (error.code === 'LIMIT_UNEXPECTED_FILE' || error.code === 'LIMIT_FILE_COUNT')) {
+                mediaError = new MediaError('TOO_MANY_FILES', `Envie no máximo ${maxCount} imagem(ns) no campo "${field}"`);
+            }
+            next(mediaError ?? error);
+        });
+    };
+    return Object.assign(middleware, { upload: { field, maxCount } });
+}
+
+// Sobras de processos interrompidos antes do fim da requisição
+export function sweepTempUploads(maxAgeMs = 60 * 60 * 1000) {
+    if (!fs.existsSync(TEMP_DIR)) return;
+    const cutoff = Date.now() - maxAgeMs;
+
+    for (const name of fs.readdirSync(TEMP_DIR)) {
+        const file = path.join(TEMP_DIR, name);
+        if (fs.statSync(file).mtimeMs < cutoff) fs.rmSync(file, { force: true });
+    }
+}
+
+// --- GRAVAÇÃO E REMOÇÃO ---
+
+function checkSignature(file: Express.Multer.File) {
+    const header = Buffer.alloc(12);
+    const fd = fs.openSync(file.path, 'r');
+    try {
+        fs.readSync(fd, header, 0, header.length, 0);
+    } finally {
+        fs.closeSync(fd);
+    }
+
+    if (!IMAGE_SIGNATURES[file.mimetype]?.(header)) {
+        throw new MediaError('INVALID_FILE_TYPE', `O arquivo ${file.originalname} não é uma imagem válida`);
+    }
+}
+
+// Grava todas as imagens ou nenhuma: se uma falhar, as que já subiram são apagadas
+export async function saveImages(files: Express.Multer.File[], folder: string) {
+    files.forEach(checkSignature);
+
+    const saved: StoredImage[] = [];
+    try {
+        for (const file of files) saved.push(await storage.save(file.path, folder));
+        return saved;
+    } catch (error) {
+        await Promise.all(saved.map(image => storage.remove(image.key).catch(() => {})));
+        throw error;
+    }
+}
+
+// Chaves ainda citadas em algum registro (produtos, variantes, lojas, categorias, avaliações,
+// devoluções, carrinhos e a foto guardada nos itens de pedidos antigos)
+async function referencedKeys(keys: string[]) {
+    const rows = await prisma.$queryRaw<{ key: string }[]>`
+        SELECT k AS key
+        FROM unnest(${keys}::text[]) AS k
+        WHERE EXISTS (SELECT 1 FROM "Product" p WHERE strpos(p."image" || ' ' || array_to_string(p."images", ' '), k) > 0)
+           OR EXISTS (SELECT 1 FROM "ProductVariant" v WHERE strpos(v."image", k) > 0)
+           OR EXISTS (SELECT 1 FROM "Shop" s WHERE strpos(s."image", k) > 0)
+           OR EXISTS (SELECT 1 FROM "Category" c WHERE strpos(c."image", k) > 0)
+           OR EXISTS (SELECT 1 FROM "Review" r WHERE strpos(array_to_string(r."photos", ' '), k) > 0)
+           OR EXISTS (SELECT 1 FROM "ReturnRequest" rr WHERE strpos(array_to_string(rr."photos", ' '), k) > 0)
+           OR EXISTS (SELECT 1 FROM "CartItem" ci WHERE strpos(ci."image", k) > 0)
+           OR EXISTS (SELECT 1 FROM "OrderItem" oi WHERE strpos(oi."image", k) > 0)
+    `;
+    return new Set(rows.map(row => row.key));
+}
+
+// Apaga do armazenamento as imagens que deixaram de ser usadas. Chamar depois de gravar a
+// alteração no banco; falhas só são registradas para não derrubar a requisição
+export async function deleteMedia(urls: (string | null | undefined)[]) {
+    const keys = [...new Set(urls.flatMap(url => {
+        const key = url ? storage.keyOf(url) : null;
+        return key ? [key] : [];
+    }))];
+    if (keys.length === 0) return;
+
+    try {
+        const inUse = await referencedKeys(keys);
+        for (const key of keys.filter(key => !inUse.has(key))) {
+            await storage.remove(key).catch(error => console.error(`❌ Erro ao apagar a imagem ${key}:`, error));
+        }
+    } catch (error) {
+        console.error("❌ Erro ao apagar imagens:", error);
+    }
+}
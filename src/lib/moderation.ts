@@ -0,0 +1,105 @@
+import prisma from './prisma.js';
+import { notify } from './notifications.js';
+import { recordAdminAction } from './audit.js';
+import type { Prisma, ShopStatus } from '../generated/prisma/client/client.js';
+
+export const SHOP_STATUSES: ShopStatus[] = ['PENDING', 'ACTIVE', 'SUSPENDED'];
+export const SHOP_DECISIONS = ['ACTIVE', 'SUSPENDED'] as const;
+
+export class ModerationError extends Error {
+    constructor(public code: 'SHOP_NOT_FOUND' | 'PRODUCT_NOT_FOUND' | 'ALREADY_APPLIED', message: string) {
+        super(message);
+    }
+}
+
+// Produto visível no catálogo: não foi retirado pela equipe e a loja (quando há uma) está aprovada
+export function isListed(product: { unpublishedAt: Date | null; shop: { status: ShopStatus } | null }) {
+    return !product.unpublishedAt && (!product.shop || product.shop.status === 'ACTIVE');
+}
+
+type ShopDecision = {
+    shopId: string;
+    actorId: string;
+    status: typeof SHOP_DECISIONS[number];
+    reason?: string | null;
+};
+
+// Aprovar vale tanto para loja nova quanto para reativar uma suspensa. Suspensa, a loja some do
+// catálogo e não saca, mas as vendas já feitas seguem o fluxo normal
+export function setShopStatus({ shopId, actorId, status, reason }: ShopDecision) {
+    return prisma.$transaction(async (tx) => {
+        const shop = await tx.shop.findUnique({ where: { id: shopId } });
+        if (!shop) throw new ModerationError('SHOP_NOT_FOUND', "Loja não encontrada");
+        if (shop.status === status) {
+            throw new ModerationError('ALREADY_APPLIED', status === 'ACTIVE' ? "A loja já está aprovada" : "A loja já está suspensa");
+        }
+
+        const updated = await tx.shop.update({
+            where: { id: shopId },
+            data: { status, statusReason: status === 'SUSPENDED' ? reason : null, moderatedAt: new Date() }
+        });
+
+        await recordAdminAction(tx, {
+            actorId,
+            action: status === 'ACTIVE' ? 'SHOP_APPROVED' : 'SHOP_SUSPENDED',
+            targetType: 'SHOP',
+            targetId: shopId,
+            reason,
+            data: { from: shop.status, to: status }
+        });
+        await notify(tx, {
+            userId: shop.userId,
+            type: status === 'ACTIVE' ? 'SHOP_APPROVED' : 'SHOP_SUSPENDED',
+            title: status === 'ACTIVE' ? "Sua loja foi aprovada" : "Sua loja foi suspensa",
+            body: status === 'ACTIVE'
+                ? `A loja ${shop.name} está no ar e os produtos já aparecem no catálogo.`
+                : `A loja ${shop.name} foi suspensa e os produtos saíram do catálogo. Motivo: ${reason}`,
+            data: { shopId, status }
+        });
+
+        return updated;
+    });
+}
+
+type PublicationChange = {
+    productId: string;
+    actorId: string;
+    published: boolean;
+    reason?: string | null;
+};
+
+// Retirar do catálogo não mexe em carrinhos nem em pedidos: o produto só deixa de ser vendido
+export function setProductPublication({ productId, actorId, published, reason }: PublicationChange) {
+    return prisma.$transaction(async (tx) => {
+        const product = await tx.product.findUnique({ where: { id: productId }, include: { shop: { select: { userId: true } } } });
+        if (!product) throw new ModerationError('PRODUCT_NOT_FOUND', "Produto não encontrado");
+        if (published === !product.unpublishedAt) {
+            throw new ModerationError('ALREADY_APPLIED', published ? "O produto já está publicado" : "O produto já foi retirado do catálogo");
+        }
+
+        const data: Prisma.ProductUpdateInput = published
+            ? { unpublishedAt: null, unpublishedReason: null }
+            : { unpublishedAt: new Date(), unpublishedReason: reason };
+        const updated = await tx.product.update({ where: { id: productId }, data });
+
+        await recordAdminAction(tx, {
+            actorId,
+            action: published ? 'PRODUCT_REPUBLISHED' : 'PRODUCT_UNPUBLISHED',
+            targetType: 'PRODUCT',
+            targetId: productId,
+            reason,
+            data: { shopId: product.shopId }
+        });
+        if (!published && product.shop) {
+            await notify(tx, {
+                userId: product.shop.userId,
+                type: 'PRODUCT_UNPUBLISHED',
+                title: "Produto retirado do catálogo",
+                body: `${product.name} foi retirado do catálogo pela equipe da plataforma. Motivo: ${reason}`,
+                data: { productId, shopId: product.shopId }
+            });
+        }
+
+        return updated;
+    });
+}
@@ -0,0 +1,136 @@
+import 'dotenv/config';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import net from 'node:net';
+import { after, before, describe, test } from 'node:test';
+import prisma from './prisma.js';
+import { deliverPendingEmails, notify, updatePreferences } from './notifications.js';
+import { database } from './testFixtures.js';
+
+// Servidor SMTP mínimo que guarda as mensagens em memória. Endereços com "recusado" são
+// rejeitados no RCPT, como um servidor que não aceita o destinatário
+type CapturedMail = { to: string[]; data: string };
+
+function startCaptureServer() {
+    const messages: CapturedMail[] = [];
+
+    const server = net.createServer(socket => {
+        let buffer = '';
+        let to: string[] = [];
+        let readingData = false;
+
+        const reply = (line: string) => socket.write(`${line}\r\n`);
+        reply('220 captura ESMTP');
+
+        socket.on('data', chunk => {
+            buffer += chunk.toString();
+
+            while (true) {
+                if (readingData) {
+                    const end = buffer.indexOf('\r\n.\r\n');
+                    if (end === -1) return;
+                    messages.push({ to, data: buffer.slice(0, end) });
+                    buffer = buffer.slice(end + 5);
+                    readingData = false;
+                    reply('250 OK');
+                    continue;
+                }
+
+                const end = buffer.indexOf('\r\n');
+                if (end === -1) return;
+                const line = buffer.slice(0, end);
+                buffer = buffer.slice(end + 2);
+                const command = line.slice(0, 4).toUpperCase();
+
+                if (command === 'EHLO' || command === 'HELO') reply('250 captura');
+                else if (command === 'MAIL') { to = []; reply('250 OK'); }
+                else if (command === 'RCPT') {
+                    if (line.includes('recusado')) { reply('550 Destinatário recusado'); continue; }
+                    to.push(line.replace(/^RCPT TO:\s*<?([^>]*)>?.*$/i, '$1'));
+                    reply('250 OK');
+                }
+                else if (command === 'DATA') { readingData = true; reply('354 Pode enviar'); }
+                else if (command === 'QUIT') { reply('221 Tchau'); socket.end(); }
+                else reply('250 OK');
+            }
+        });
+    });
+
+    return { server, messages };
+}
+
+async function createUser(name: string) {
+    return prisma.user.create({
+        data: { name, email: `${name}-${crypto.randomUUID()}@teste.invalid`, password: '-' }
+    });
+}
+
+// Entrega tudo o que estiver vencido na fila, não só o primeiro lote
+async function drainOutbox() {
+    while (await deliverPendingEmails() > 0);
+}
+
+describe('e-mails da outbox', () => {
+    const capture = startCaptureServer();
+
+    before(async () => {
+        await new Promise<void>(resolve => capture.server.listen(0, '127.0.0.1', resolve));
+        const { port } = capture.server.address() as net.AddressInfo;
+
+        // O transporte é criado no primeiro envio, já com estas variáveis
+        process.env.SMTP_HOST = '127.0.0.1';
+        process.env.SMTP_PORT = String(port);
+        process.env.SMTP_SECURE = 'false';
+        delete process.env.SMTP_USER;
+    });
+
+    after(async () => {
+        await prisma.$disconnect();
+        await new Promise(resolve => capture.server.close(resolve));
+    });
+
+    test('entrega pelo SMTP o e-mail gravado junto com o aviso', database, async () => {
+        const user = await createUser('cliente');
+        await prisma.$transaction(tx => notify(tx, {
+            userId: user.id,
+            type: 'ORDER_SHIPPED',
+            title: 'Pedido enviado',
+            body: 'Seu pedido #ABC foi enviado.'
+        }));
+
+        await drainOutbox();
+
+        const message = capture.messages.find(mail => mail.to.includes(user.email));
+        assert.ok(message, "e-mail não chegou ao servidor de captura");
+        assert.match(message.data, /^Subject: Pedido enviado\r?$/m);
+
+        const [email] = await prisma.emailOutbox.findMany({ where: { userId: user.id } });
+        assert.equal(email.status, 'SENT');
+        assert.ok(email.sentAt);
+        assert.equal(await prisma.notification.count({ where: { userId: user.id, type: 'ORDER_SHIPPED' } }), 1);
+    });
+
+    test('respeita a preferência de não receber o evento por e-mail', database, async () => {
+        const user = await createUser('silencioso');
+        await updatePreferences(user.id, [{ type: 'ORDER_SHIPPED', email: false }]);
+
+        await prisma.$transaction(tx => notify(tx, { userId: user.id, type: 'ORDER_SHIPPED', title: 'Pedido enviado', body: '-' }));
+
+        assert.equal(await prisma.emailOutbox.count({ where: { userId: user.id } }), 0);
+        assert.equal(await prisma.notification.count({ where: { userId: user.id } }), 1);
+    });
+
+    test('devolve à fila o e-mail recusado pelo servidor', database, async () => {
+        const user = await createUser('recusado');
+        await prisma.$transaction(tx => notify(tx, { userId: user.id, type: 'ORDER_PAID', title: 'Pagamento confirmado', body: '-' }));
+
+        await drainOutbox();
+
+        const [email] = await prisma.emailOutbox.findMany({ where: { userId: user.id } });
+        assert.equal(email.status, 'PENDING');
+        assert.equal(email.attempts, 1);
+        assert.ok(email.lastError);
+        assert.ok(email.nextAttemptAt > new Date());
+        assert.ok(!capture.messages.some(mail => mail.to.includes(user.email)));
+    });
+});
@@ -0,0 +1,172 @@
+import prisma from './prisma.js';
+import { getMailer, sendMail } from './mailer.js';
+import type { NotificationType, Prisma } from '../generated/prisma/client/client.js';
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+    'ORDER_PLACED',
+    'ORDER_PAID',
+    'ORDER_SHIPPED',
+    'ORDER_DELIVERED',
+    'ORDER_COMPLETED',
+    'ORDER_CANCELLED',
+    'LOW_STOCK',
+    'RETURN_REQUESTED',
+    'RETURN_APPROVED',
+    'RETURN_REJECTED',
+    'PRICE_DROP',
+    'BACK_IN_STOCK',
+    'SHOP_APPROVED',
+    'SHOP_SUSPENDED',
+    'PRODUCT_UNPUBLISHED'
+];
+
+// Rótulos da tela de preferências
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+    ORDER_PLACED: 'Novo pedido na loja',
+    ORDER_PAID: 'Pagamento confirmado',
+    ORDER_SHIPPED: 'Pedido enviado',
+    ORDER_DELIVERED: 'Pedido entregue',
+    ORDER_COMPLETED: 'Pedido concluído',
+    ORDER_CANCELLED: 'Pedido cancelado',
+    LOW_STOCK: 'Estoque baixo na loja',
+    RETURN_REQUESTED: 'Pedido de devolução na loja',
+    RETURN_APPROVED: 'Devolução aprovada',
+    RETURN_REJECTED: 'Devolução recusada',
+    PRICE_DROP: 'Favorito baixou de preço',
+    BACK_IN_STOCK: 'Favorito voltou ao estoque',
+    SHOP_APPROVED: 'Loja aprovada',
+    SHOP_SUSPENDED: 'Loja suspensa',
+    PRODUCT_UNPUBLISHED: 'Produto retirado do catálogo'
+};
+
+// Alertas da lista de desejos só chegam a quem ligou nas preferências
+const OPT_IN_TYPES: NotificationType[] = ['PRICE_DROP', 'BACK_IN_STOCK'];
+
+const enabledByDefault = (type: NotificationType) => !OPT_IN_TYPES.includes(type);
+
+// Número curto exibido ao cliente e ao vendedor (#1A2B3C4D)
+export function orderNumber(orderId: string) {
+    return `#${orderId.split('-')[0].toUpperCase()}`;
+}
+
+type NotificationInput = {
+    userId: string;
+    type: NotificationType;
+    title: string;
+    body: string;
+    data?: Prisma.InputJsonObject;
+};
+
+// Grava o aviso no app e o e-mail na outbox dentro da transação do evento: se ela for
+// desfeita, nada é avisado; se for confirmada, o worker entrega o e-mail depois
+export async function notify(tx: Prisma.TransactionClient, { userId, ...notification }: NotificationInput) {
+    await notifyMany(tx, [userId], notification);
+}
+
+// O mesmo aviso para vários usuários (ex: todos que favoritaram um produto) em poucas consultas.
+// Retorna quem recebeu o aviso em algum canal; quem desligou os dois fica de fora
+export async function notifyMany(tx: Prisma.TransactionClient, userIds: string[], { type, title, body, data }: Omit<NotificationInput, 'userId'>) {
+    if (userIds.length === 0) return [];
+
+    const users = await tx.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, email: true, notificationPreferences: { where: { type } } }
+    });
+    const wants = (channel: 'inApp' | 'email') =>
+        users.filter(user => user.notificationPreferences[0]?.[channel] ?? enabledByDefault(type));
+
+    const inApp = wants('inApp');
+    const email = wants('email');
+
+    await tx.notification.createMany({
+        data: inApp.map(user => ({ userId: user.id, type, title, body, data }))
+    });
+    await tx.emailOutbox.createMany({
+        data: email.map(user => ({ userId: user.id, to: user.email, subject: title, text: `${body}\n\nEquipe Insinuante` }))
+    });
+    return [...new Set([...inApp, ...email].map(user => user.id))];
+}
+
+// Todos os eventos com o valor efetivo (sem linha salva = ligado nos dois canais, menos os opcionais)
+export async function getPreferences(userId: string) {
+    const saved = await prisma.notificationPreference.findMany({ where: { userId } });
+
+    return NOTIFICATION_TYPES.map(type => {
+        const preference = saved.find(item => item.type === type);
+        return {
+            type,
+            label: NOTIFICATION_TYPE_LABELS[type],
+            inApp: preference?.inApp ?? enabledByDefault(type),
+            email: preference?.email ?? enabledByDefault(type)
+        };
+    });
+}
+
+type PreferenceChange = { type: NotificationType; inApp?: boolean; email?: boolean };
+
+export async function updatePreferences(userId: string, changes: PreferenceChange[]) {
+    await prisma.$transaction(changes.map(({ type, inApp, email }) => prisma.notificationPreference.upsert({
+        where: { userId_type: { userId, type } },
+        create: { userId, type, inApp: inApp ?? enabledByDefault(type), email: email ?? enabledByDefault(type) },
+        update: { inApp, email }
+    })));
+
+    return getPreferences(userId);
+}
+
+// --- ENTREGA DOS E-MAILS ---
+
+const MAX_ATTEMPTS = 5;
+const BATCH_SIZE = 20;
+// Tempo que um e-mail fica reservado para quem o pegou antes de voltar à fila
+const CLAIM_MS = 5 * 60 * 1000;
+
+let delivering = false;
+
+// Envia os e-mails vencidos da outbox. Cada linha é reservada antes do envio, então duas
+// instâncias da API não mandam o mesmo e-mail; falhas voltam à fila com espera crescente
+export async function deliverPendingEmails() {
+    const mailer = getMailer();
+    if (!mailer || delivering) return 0;
+
+    delivering = true;
+    try {
+        const due = await prisma.emailOutbox.findMany({
+            where: { status: 'PENDING', nextAttemptAt: { lte: new Date() } },
+            orderBy: { createdAt: 'asc' },
+            take: BATCH_SIZE
+        });
+
+        let sent = 0;
+        for (const email of due) {
+            const { count } = await prisma.emailOutbox.updateMany({
+                where: { id: email.id, status: 'PENDING', nextAttemptAt: email.nextAttemptAt },
+                data: { nextAttemptAt: new Date(Date.now() + CLAIM_MS), attempts: { increment: 1 } }
+            });
+            if (count === 0) continue;
+
+            try {
+                await sendMail(mailer, email);
+                await prisma.emailOutbox.update({
+                    where: { id: email.id },
+                    data: { status: 'SENT', sentAt: new Date(), lastError: null }
+                });
+                sent++;
+            } catch (error) {
+                const attempts = email.attempts + 1;
+                await prisma.emailOutbox.update({
+                    where: { id: email.id },
+                    data: {
+                        status: attempts >= MAX_ATTEMPTS ? 'FAILED' : 'PENDING',
+                        lastError: error instanceof Error ? error.message : String(error),
+                        nextAttemptAt: new Date(Date.now() + 2 ** attempts * 60 * 1000)
+                    }
+                });
+                console.error(`❌ Falha ao enviar e-mail ${email.id} (tentativa ${attempts}):`, error);
+            }
+        }
+        return sent;
+    } finally {
+        delivering = false;
+    }
+}
@@ -0,0 +1,218 @@
+import { z } from 'zod';
+import type { Express, RequestHandler } from 'express';
+import { authenticate, optionalAuthenticate } from './auth.js';
+import { apiDocs, errorResponse } from './apiDocs.js';
+import type { RouteDoc } from './apiDocs.js';
+import type { RequestSchemas } from './validation.js';
+
+// Gera o documento OpenAPI 3.1 a partir das rotas registradas no Express: o caminho, o
+// método, a autenticação, o upload e os schemas do validate() são lidos da própria rota
+
+type RouteInfo = {
+    method: string;
+    path: string;
+    key: string;
+    handlers: RequestHandler[];
+};
+
+type JsonSchema = z.core.JSONSchema.JSONSchema;
+
+type Parameter = {
+    name: string;
+    in: 'path' | 'query' | 'header';
+    required: boolean;
+    description?: string;
+    schema: z.core.JSONSchema._JSONSchema;
+};
+
+// Datas chegam como texto ISO na query/body (z.coerce.date)
+function toJsonSchema(schema: z.ZodType): JsonSchema {
+    const { $schema, ...json } = z.toJSONSchema(schema, {
+        io: 'input',
+        unrepresentable: 'any',
+        override: ctx => {
+            if (ctx.zodSchema._zod.def.type === 'date') Object.assign(ctx.jsonSchema, { type: 'string', format: 'date-time' });
+        }
+    });
+    return json;
+}
+
+export function listRoutes(app: Express): RouteInfo[] {
+    return app.router.stack
+        .filter(layer => layer.route)
+        .flatMap(layer => {
+            const route = layer.route!;
+            const handlers = route.stack.map(item => item.handle as RequestHandler);
+            return Object.keys((route as unknown as { methods: Record<string, boolean> }).methods).map(method => ({
+                method: method.toUpperCase(),
+                path: String(route.path),
+                key: `${method.toUpperCase()} ${route.path}`,
+                handlers
+            }));
+        });
+}
+
+const routeDocs = new Map(Object.entries(apiDocs).flatMap(([tag, routes]) =>
+    Object.entries(routes).map(([key, doc]) => [key, { tag, ...doc }] as const)));
+
+function requestSchemas(handlers: RequestHandler[]): RequestSchemas {
+    return Object.assign({}, ...handlers.map(handler => (handler as { schemas?: RequestSchemas }).schemas ?? {}));
+}
+
+function uploadOf(handlers: RequestHandler[]) {
+    return handlers.map(handler => (handler as { upload?: { field: string; maxCount: number } }).upload).find(Boolean);
+}
+
+// Rotas sem entrada em apiDocs, sem resposta descrita ou que recebem corpo sem schema
+export function undocumentedRoutes(app: Express) {
+    const routes = listRoutes(app);
+
+    return routes.flatMap(route => {
+        const doc = routeDocs.get(route.key);
+        if (!doc) return [`${route.key}: sem entrada em src/lib/apiDocs.ts`];
+
+        const problems: string[] = [];
+        if (!doc.response && doc.status !== 204) problems.push(`${route.key}: resposta sem schema`);
+
+        const hasBody = ['POST', 'PUT', 'PATCH'].includes(route.method);
+        if (hasBody && !requestSchemas(route.handlers).body && !uploadOf(route.handlers) && !doc.body) {
+            problems.push(`${route.key}: corpo da requisição sem schema (use validate({ body }))`);
+        }
+        return problems;
+    }).concat([...routeDocs.keys()]
+        .filter(key => !routes.some(route => route.key === key))
+        .map(key => `${key}: documentada mas não existe`));
+}
+
+function parameters(route: RouteInfo, schemas: RequestSchemas, doc: RouteDoc) {
+    const params: JsonSchema = schemas.params ? toJsonSchema(schemas.params) : { properties: {} };
+    const pathNames = [...route.path.matchAll(/:(\w+)/g)].map(match => match[1]);
+
+    const list: Parameter[] = pathNames.map(name => ({
+        name,
+        in: 'path',
+        required: true,
+        schema: params.properties?.[name] ?? { type: 'string' }
+    }));
+
+    if (schemas.query) {
+        const query = toJsonSchema(schemas.query);
+        for (const [name, schema] of Object.entries(query.properties ?? {})) {
+            list.push({ name, in: 'query', required: query.required?.includes(name) ?? false, schema });
+        }
+    }
+
+    if (doc.cartToken) {
+        list.push({
+            name: 'X-Cart-Token',
+            in: 'header',
+            required: false,
+            description: "Carrinho do visitante (recebido no primeiro POST /cart)",
+            schema: { type: 'string' }
+        });
+    }
+    return list;
+}
+
+function requestBody(route: RouteInfo, schemas: RequestSchemas, doc: RouteDoc) {
+    const upload = uploadOf(route.handlers);
+    const body = schemas.body ?? doc.body;
+
+    if (upload) {
+        // Multipart: campos de texto do schema + o campo de arquivos do receiveImages()
+        const fields: JsonSchema = body ? toJsonSchema(body) : { type: 'object', properties: {} };
+        const file: JsonSchema = { type: 'string', format: 'binary' };
+        fields.properties = {
+            ...fields.properties,
+            [upload.field]: upload.maxCount > 1 ? { type: 'array', items: file, maxItems: upload.maxCount } : file
+        };
+        return { required: true, content: { 'multipart/form-data': { schema: fields } } };
+    }
+
+    if (!body) return undefined;
+    return { required: true, content: { 'application/json': { schema: toJsonSchema(body) } } };
+}
+
+function responses(doc: RouteDoc, validated: boolean, auth: boolean) {
+    const status = doc.status ?? 200;
+    const error = (description: string) => ({ description, content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } } });
+
+    return {
+        [status]: doc.response
+            ? { description: "Sucesso", content: { [doc.contentType ?? 'application/json']: { schema: toJsonSchema(doc.response) } } }
+            : { description: "Sem conteúdo" },
+        ...(validated && { 400: error("Dados inválidos (VALIDATION_ERROR, com details por campo)") }),
+        ...(auth && { 401: error("Token ausente, inválido ou expirado") }),
+        default: error("Erro no formato padrão da API")
+    };
+}
+
+// GET /products/:id/reviews -> getProductsByIdReviews
+function operationId(route: RouteInfo) {
+    const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+    const words = route.path.split(/[/-]/).filter(Boolean)
+        .map(segment => segment.startsWith(':') ? `By${capitalize(segment.slice(1))}` : capitalize(segment.replace('.json', '')));
+    return route.method.toLowerCase() + (words.join('') || 'Root');
+}
+
+export function buildOpenApiDocument(app: Express, { serverUrl }: { serverUrl?: string } = {}) {
+    const paths: Record<string, Record<string, unknown>> = {};
+
+    for (const route of listRoutes(app)) {
+        const doc = routeDocs.get(route.key);
+        if (!doc) continue;
+
+        const schemas = requestSchemas(route.handlers);
+        const auth = route.handlers.includes(authenticate);
+        const optionalAuth = route.handlers.includes(optionalAuthenticate as RequestHandler);
+        const path = route.path.replace(/:(\w+)/g, '{$1}');
+
+        paths[path] ??= {};
+        paths[path][route.method.toLowerCase()] = {
+            tags: [doc.tag],
+            summary: doc.summary,
+            ...(doc.description && { description: doc.description }),
+            operationId: operationId(route),
+            ...(auth && { security: [{ bearerAuth: [] }] }),
+            ...(optionalAuth && { security: [{}, { bearerAuth: [] }] }),
+            parameters: parameters(route, schemas, doc),
+            requestBody: requestBody(route, schemas, doc),
+            responses: responses(doc, Object.keys(schemas).length > 0, auth || optionalAuth)
+        };
+    }
+
+    return {
+        openapi: '3.1.0',
+        info: {
+            title: 'Insinuante API',
+            version: process.env.npm_package_version ?? '1.0.0',
+            description: "API do marketplace Insinuante. Erros seguem sempre o formato { error, code, details? }."
+        },
+        ...(serverUrl && { servers: [{ url: serverUrl }] }),
+        tags: Object.keys(apiDocs).map(name => ({ name })),
+        paths,
+        components: {
+            schemas: { Error: toJsonSchema(errorResponse) },
+            securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' } }
+        }
+    };
+}
+
+// Página do Swagger UI apontando para o /openapi.json
+export function docsPage(specUrl: string) {
+    return `<!doctype html>
+<html lang="pt-BR">
+<head>
+    <meta charset="utf-8">
+    <title>Insinuante API - Documentação</title>
+    <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/swagger-ui-dist@5/swagger-ui.css">
+</head>
+<body>
+    <div id="swagger-ui"></div>
+    <script src="https://cdn.jsdelivr.net/npm/swagger-ui-dist@5/swagger-ui-bundle.js"></script>
+    <script>
+        SwaggerUIBundle({ url: ${JSON.stringify(specUrl)}, dom_id: '#swagger-ui', persistAuthorization: true });
+    </script>
+</body>
+</html>`;
+}
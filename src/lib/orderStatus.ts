@@ -0,0 +1,269 @@
+import prisma from './prisma.js';
+import { releaseCoupon } from './coupons.js';
+import { recordSale } from './ledger.js';
+import { issueRefund } from './refunds.js';
+import { notify, orderNumber } from './notifications.js';
+import { publishShopEvent } from './shopEvents.js';
+import { moveStock } from './inventory.js';
+import type { NotificationType, OrderStatus, Prisma } from '../generated/prisma/client/client.js';
+
+export type StatusActor = 'CUSTOMER' | 'SELLER' | 'SYSTEM';
+
+export const ORDER_STATUSES: OrderStatus[] = [
+    'AWAITING_PAYMENT',
+    'TO_SHIP',
+    'SHIPPED',
+    'DELIVERED',
+    'COMPLETED',
+    'CANCELLED'
+];
+
+// Rótulos exibidos no app e no painel do vendedor
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+    AWAITING_PAYMENT: 'A Pagar',
+    TO_SHIP: 'A Enviar',
+    SHIPPED: 'Enviando',
+    DELIVERED: 'Entregue',
+    COMPLETED: 'Concluído',
+    CANCELLED: 'Cancelado'
+};
+
+// Para cada status: para onde pode ir e quem pode disparar a mudança
+const TRANSITIONS: Record<OrderStatus, Partial<Record<OrderStatus, StatusActor[]>>> = {
+    AWAITING_PAYMENT: {
+        TO_SHIP: ['SYSTEM'], // Confirmação de pagamento
+        CANCELLED: ['CUSTOMER', 'SYSTEM']
+    },
+    TO_SHIP: {
+        SHIPPED: ['SELLER'],
+        CANCELLED: ['CUSTOMER', 'SELLER', 'SYSTEM'] // O cliente cancela enquanto nada foi enviado
+    },
+    SHIPPED: {
+        DELIVERED: ['CUSTOMER', 'SYSTEM'] // O cliente confirma o recebimento ou a transportadora informa a entrega
+    },
+    DELIVERED: {
+        COMPLETED: ['CUSTOMER', 'SYSTEM']
+    },
+    COMPLETED: {},
+    CANCELLED: {}
+};
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+    return ORDER_STATUSES.includes(value as OrderStatus);
+}
+
+export function allowedTransitions(from: OrderStatus, actor: StatusActor) {
+    return ORDER_STATUSES.filter(to => TRANSITIONS[from][to]?.includes(actor));
+}
+
+// Ordem de avanço usada para derivar o status do pedido a partir dos grupos por loja
+const PROGRESS: OrderStatus[] = ['AWAITING_PAYMENT', 'TO_SHIP', 'SHIPPED', 'DELIVERED', 'COMPLETED'];
+
+export class OrderStatusError extends Error {
+    constructor(public code: 'ORDER_NOT_FOUND' | 'INVALID_TRANSITION' | 'STATUS_CONFLICT', message: string) {
+        super(message);
+    }
+}
+
+type StatusChange = {
+    to: OrderStatus;
+    actor: StatusActor;
+    actorId?: string | null;
+    note?: string;
+};
+
+type ShopOrderWithItems = Prisma.ShopOrderGetPayload<{ include: { items: true } }>;
+
+type StatusMessage = { title: string; body: (order: string, shop?: string) => string };
+
+const fromShop = (shop?: string) => shop ? ` da loja ${shop}` : '';
+
+// Aviso de cada status para o cliente e para a loja; quem fez a mudança não é avisado
+const STATUS_NOTIFICATIONS: Partial<Record<OrderStatus, { type: NotificationType; customer: StatusMessage; seller: StatusMessage }>> = {
+    TO_SHIP: {
+        type: 'ORDER_PAID',
+        customer: { title: "Pagamento confirmado", body: (order, shop) => `Recebemos o pagamento do pedido ${order}${fromShop(shop)}. Avisaremos quando for enviado.` },
+        seller: { title: "Pedido pago", body: order => `O pagamento do pedido ${order} foi confirmado. Ele já pode ser enviado.` }
+    },
+    SHIPPED: {
+        type: 'ORDER_SHIPPED',
+        customer: { title: "Pedido enviado", body: (order, shop) => `Seu pedido ${order}${fromShop(shop)} foi enviado. Acompanhe o rastreio pelo app.` },
+        seller: { title: "Pedido enviado", body: order => `O pedido ${order} foi marcado como enviado.` }
+    },
+    DELIVERED: {
+        type: 'ORDER_DELIVERED',
+        customer: { title: "Pedido entregue", body: (order, shop) => `Seu pedido ${order}${fromShop(shop)} foi entregue.` },
+        seller: { title: "Pedido entregue", body: order => `O pedido ${order} foi entregue ao cliente.` }
+    },
+    COMPLETED: {
+        type: 'ORDER_COMPLETED',
+        customer: { title: "Pedido concluído", body: (order, shop) => `Seu pedido ${order}${fromShop(shop)} foi concluído.` },
+        seller: { title: "Pedido concluído", body: order => `O pedido ${order} foi concluído.` }
+    },
+    CANCELLED: {
+        type: 'ORDER_CANCELLED',
+        customer: { title: "Pedido cancelado", body: (order, shop) => `Seu pedido ${order}${fromShop(shop)} foi cancelado.` },
+        seller: { title: "Pedido cancelado", body: order => `O pedido ${order} foi cancelado.` }
+    }
+};
+
+async function notifySeller(tx: Prisma.TransactionClient, shopOrder: ShopOrderWithItems, { to, actor }: StatusChange) {
+    const message = STATUS_NOTIFICATIONS[to];
+    if (!message || actor === 'SELLER') return;
+
+    const shop = await tx.shop.findUniqueOrThrow({ where: { id: shopOrder.shopId }, select: { userId: true } });
+    await notify(tx, {
+        userId: shop.userId,
+        type: message.type,
+        title: message.seller.title,
+        body: message.seller.body(orderNumber(shopOrder.orderId)),
+        data: { orderId: shopOrder.orderId, shopOrderId: shopOrder.id, shopId: shopOrder.shopId, status: to }
+    });
+}
+
+// Mudança do pedido inteiro gera um aviso só; a de uma loja cita a loja
+async function notifyCustomer(tx: Prisma.TransactionClient, orderId: string, { to, actor }: StatusChange, shopOrder?: { id: string; shopId: string }) {
+    const message = STATUS_NOTIFICATIONS[to];
+    if (!message || actor === 'CUSTOMER') return;
+
+    const order = await tx.order.findUniqueOrThrow({ where: { id: orderId }, select: { customerId: true } });
+    const shop = shopOrder && await tx.shop.findUniqueOrThrow({ where: { id: shopOrder.shopId }, select: { name: true } });
+
+    await notify(tx, {
+        userId: order.customerId,
+        type: message.type,
+        title: message.customer.title,
+        body: message.customer.body(orderNumber(orderId), shop?.name),
+        data: { orderId, status: to, ...(shopOrder && { shopOrderId: shopOrder.id, shopId: shopOrder.shopId }) }
+    });
+}
+
+function invalidTransition(from: OrderStatus, to: OrderStatus) {
+    return new OrderStatusError(
+        'INVALID_TRANSITION',
+        `Não é possível passar de "${ORDER_STATUS_LABELS[from]}" para "${ORDER_STATUS_LABELS[to]}"`
+    );
+}
+
+async function transitionShopOrder(tx: Prisma.TransactionClient, shopOrder: ShopOrderWithItems, { to, actor, actorId = null, note }: StatusChange) {
+    if (!TRANSITIONS[shopOrder.status][to]?.includes(actor)) throw invalidTransition(shopOrder.status, to);
+
+    // Só grava se ninguém mudou o status entre a leitura e a escrita
+    const { count } = await tx.shopOrder.updateMany({
+        where: { id: shopOrder.id, status: shopOrder.status },
+        data: { status: to }
+    });
+    if (count === 0) throw new OrderStatusError('STATUS_CONFLICT', "O status do pedido foi alterado por outra operação");
+
+    await tx.orderStatusHistory.create({
+        data: {
+            orderId: shopOrder.orderId,
+            shopOrderId: shopOrder.id,
+            fromStatus: shopOrder.status,
+            toStatus: to,
+            actorId,
+            actorRole: actor,
+            note
+        }
+    });
+
+    // Entrega confirmada pelo cliente fecha o envio; a da transportadora já vem com a data
+    if (to === 'DELIVERED') {
+        await tx.shipment.updateMany({ where: { shopOrderId: shopOrder.id, deliveredAt: null }, data: { deliveredAt: new Date() } });
+    }
+
+    // Pagamento confirmado vira venda no livro da loja; cancelamento depois disso, reembolso
+    if (shopOrder.status === 'AWAITING_PAYMENT' && to === 'TO_SHIP') await recordSale(tx, shopOrder.id);
+    if (to === 'CANCELLED') await issueRefund(tx, { shopOrderId: shopOrder.id, description: "Pedido cancelado" });
+
+    // Cancelamento devolve o estoque e desfaz o contador de vendas dos itens desta loja
+    if (to === 'CANCELLED') {
+        for (const item of shopOrder.items) {
+            await moveStock(tx, {
+                productId: item.productId,
+                variantId: item.variantId,
+                type: 'CANCELLATION',
+                quantity: item.quantity,
+                orderId: shopOrder.orderId,
+                actorId,
+                note
+            });
+        }
+    }
+
+    const event = { orderId: shopOrder.orderId, shopOrderId: shopOrder.id, orderNumber: orderNumber(shopOrder.orderId) };
+    await publishShopEvent(tx, shopOrder.shopId, 'ORDER_STATUS_CHANGED', { ...event, from: shopOrder.status, to, actor });
+    if (shopOrder.status === 'AWAITING_PAYMENT' && to === 'TO_SHIP') {
+        await publishShopEvent(tx, shopOrder.shopId, 'PAYMENT_CONFIRMED', event);
+    }
+
+    await notifySeller(tx, shopOrder, { to, actor });
+}
+
+// O pedido acompanha o grupo mais atrasado; só fica cancelado quando todas as lojas cancelarem
+async function syncOrderStatus(tx: Prisma.TransactionClient, orderId: string, { actor, actorId = null, note }: Omit<StatusChange, 'to'>) {
+    const order = await tx.order.findUniqueOrThrow({ where: { id: orderId }, include: { shopOrders: true } });
+    const active = order.shopOrders.filter(group => group.status !== 'CANCELLED');
+
+    if (order.shopOrders.length === 0) return;
+
+    const next = active.length === 0
+        ? 'CANCELLED'
+        : PROGRESS[Math.min(...active.map(group => PROGRESS.indexOf(group.status)))];
+
+    if (next === order.status) return;
+
+    await tx.order.update({ where: { id: orderId }, data: { status: next } });
+    await tx.orderStatusHistory.create({
+        data: { orderId, fromStatus: order.status, toStatus: next, actorId, actorRole: actor, note }
+    });
+
+    if (next === 'CANCELLED') await releaseCoupon(tx, orderId);
+}
+
+function findOrderWithGroups(tx: Prisma.TransactionClient, orderId: string) {
+    return tx.order.findUniqueOrThrow({
+        where: { id: orderId },
+        include: { items: true, shopOrders: { include: { items: true } } }
+    });
+}
+
+// Muda o pedido inteiro (pagamento, cancelamento pelo cliente...): aplica em todos os grupos que aceitam a transição
+export async function applyOrderStatus(tx: Prisma.TransactionClient, { orderId, ...change }: StatusChange & { orderId: string }) {
+    const order = await tx.order.findUnique({
+        where: { id: orderId },
+        include: { shopOrders: { include: { items: true } } }
+    });
+    if (!order) throw new OrderStatusError('ORDER_NOT_FOUND', "Pedido não encontrado");
+
+    const targets = order.shopOrders.filter(group => TRANSITIONS[group.status][change.to]?.includes(change.actor));
+    if (targets.length === 0) throw invalidTransition(order.status, change.to);
+
+    for (const group of targets) {
+        await transitionShopOrder(tx, group, change);
+    }
+    await syncOrderStatus(tx, orderId, change);
+    await notifyCustomer(tx, orderId, change);
+
+    return findOrderWithGroups(tx, orderId);
+}
+
+// Muda apenas a parte de uma loja (ex: o vendedor marca como enviado)
+export async function applyShopOrderStatus(tx: Prisma.TransactionClient, { shopOrderId, ...change }: StatusChange & { shopOrderId: string }) {
+    const shopOrder = await tx.shopOrder.findUnique({ where: { id: shopOrderId }, include: { items: true } });
+    if (!shopOrder) throw new OrderStatusError('ORDER_NOT_FOUND', "Pedido não encontrado");
+
+    await transitionShopOrder(tx, shopOrder, change);
+    await syncOrderStatus(tx, shopOrder.orderId, change);
+    await notifyCustomer(tx, shopOrder.orderId, change, shopOrder);
+
+    return findOrderWithGroups(tx, shopOrder.orderId);
+}
+
+export function changeOrderStatus(input: StatusChange & { orderId: string }) {
+    return prisma.$transaction(tx => applyOrderStatus(tx, input));
+}
+
+export function changeShopOrderStatus(input: StatusChange & { shopOrderId: string }) {
+    return prisma.$transaction(tx => applyShopOrderStatus(tx, input));
+}
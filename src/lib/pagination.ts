@@ -0,0 +1,20 @@
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// Lê ?page= e ?limit= da query string com limites seguros
+export function parsePagination(query: Record<string, unknown>) {
+    const page = Math.max(1, parseInt(String(query.page ?? '1')) || 1);
+    const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(String(query.limit ?? DEFAULT_LIMIT)) || DEFAULT_LIMIT));
+
+    return { page, limit, skip: (page - 1) * limit };
+}
+
+export function paginated<T>(data: T[], total: number, { page, limit }: { page: number; limit: number }) {
+    return {
+        data,
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+    };
+}
@@ -0,0 +1,121 @@
+import 'dotenv/config';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { after, describe, test } from 'node:test';
+import Stripe from 'stripe';
+
+// Os eventos são assinados aqui mesmo, com o segredo do webhook; nada vai para a rede
+process.env.STRIPE_SECRET_KEY ??= 'sk_test_local';
+process.env.STRIPE_WEBHOOK_SECRET ??= 'whsec_local';
+const WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET;
+
+// Importados depois do ambiente pronto: payments.ts lê o segredo ao carregar
+const { default: prisma } = await import('./prisma.js');
+const { constructWebhookEvent, handleStripeEvent, toCents } = await import('./payments.js');
+const { createPendingOrder, database } = await import('./testFixtures.js');
+const { OrderStatusError, changeOrderStatus } = await import('./orderStatus.js');
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY);
+
+type PaymentIntentFixture = { id: string; orderId: string; amount: number; received?: number };
+
+function signedEvent(type: string, { id, orderId, amount, received = amount }: PaymentIntentFixture, secret = WEBHOOK_SECRET) {
+    const payload = JSON.stringify({
+        id: `evt_${crypto.randomUUID()}`,
+        object: 'event',
+        type,
+        data: {
+            object: {
+                id,
+                object: 'payment_intent',
+                amount,
+                amount_received: type === 'payment_intent.succeeded' ? received : 0,
+                metadata: { orderId }
+            }
+        }
+    });
+    return { payload: Buffer.from(payload), signature: stripe.webhooks.generateTestHeaderString({ payload, secret }) };
+}
+
+// Pedido do checkout com o PaymentIntent que o pagaria
+async function createOrderToPay() {
+    const fixture = await createPendingOrder();
+    const paymentIntent = { id: `pi_${crypto.randomUUID()}`, orderId: fixture.order.id, amount: toCents(fixture.order.total) };
+    return { ...fixture, paymentIntent };
+}
+
+function deliver({ payload, signature }: ReturnType<typeof signedEvent>) {
+    return handleStripeEvent(constructWebhookEvent(payload, signature));
+}
+
+describe('webhook do Stripe', () => {
+    after(() => prisma.$disconnect());
+
+    test('rejeita assinatura de outro segredo ou corpo alterado', () => {
+        const fixture = { id: 'pi_assinatura', orderId: crypto.randomUUID(), amount: 1000 };
+
+        const wrongSecret = signedEvent('payment_intent.succeeded', fixture, 'whsec_outro');
+        assert.throws(() => constructWebhookEvent(wrongSecret.payload, wrongSecret.signature), Stripe.errors.StripeSignatureVerificationError);
+
+        const tampered = signedEvent('payment_intent.succeeded', fixture);
+        const payload = Buffer.from(tampered.payload.toString().replace('"amount":1000', '"amount":1'));
+        assert.throws(() => constructWebhookEvent(payload, tampered.signature), Stripe.errors.StripeSignatureVerificationError);
+    });
+
+    test('confirma o pagamento uma única vez quando o evento chega repetido', database, async () => {
+        const { order, paymentIntent } = await createOrderToPay();
+        const event = signedEvent('payment_intent.succeeded', paymentIntent);
+
+        assert.deepEqual(await deliver(event), { duplicate: false });
+        assert.deepEqual(await deliver(event), { duplicate: true });
+
+        const paid = await prisma.order.findUniqueOrThrow({ where: { id: order.id }, include: { shopOrders: true } });
+        assert.equal(paid.status, 'TO_SHIP');
+        assert.equal(paid.paymentStatus, 'SUCCEEDED');
+        assert.equal(paid.paymentIntentId, paymentIntent.id);
+        assert.equal(await prisma.ledgerTransaction.count({ where: { shopOrderId: paid.shopOrders[0].id, type: 'SALE' } }), 1);
+    });
+
+    test('desfaz o evento inteiro quando o pedido não aceita a confirmação', database, async () => {
+        const { order, paymentIntent } = await createOrderToPay();
+        const event = signedEvent('payment_intent.succeeded', paymentIntent);
+        const { id: eventId } = JSON.parse(event.payload.toString());
+
+        // Grupo da loja fora de "aguardando pagamento" sem o pedido acompanhar
+        await prisma.shopOrder.updateMany({ where: { orderId: order.id }, data: { status: 'SHIPPED' } });
+
+        await assert.rejects(deliver(event), OrderStatusError);
+
+        const unchanged = await prisma.order.findUniqueOrThrow({ where: { id: order.id } });
+        assert.equal(unchanged.status, 'AWAITING_PAYMENT');
+        assert.equal(unchanged.paymentStatus, order.paymentStatus);
+        assert.equal(unchanged.paymentIntentId, null);
+        assert.equal(await prisma.stripeEvent.count({ where: { id: eventId } }), 0);
+    });
+
+    test('reembolsa por inteiro o pagamento que chega depois do cancelamento', database, async () => {
+        const { order, product, paymentIntent } = await createOrderToPay();
+        await changeOrderStatus({ orderId: order.id, to: 'CANCELLED', actor: 'CUSTOMER', actorId: order.customerId });
+
+        await deliver(signedEvent('payment_intent.succeeded', paymentIntent));
+
+        const late = await prisma.order.findUniqueOrThrow({ where: { id: order.id }, include: { refunds: true } });
+        assert.equal(late.status, 'CANCELLED');
+        assert.equal(late.paymentStatus, 'SUCCEEDED');
+        assert.equal(late.refunds.reduce((sum, refund) => sum + refund.amount, 0), order.total);
+        assert.equal((await prisma.product.findUniqueOrThrow({ where: { id: product.id } })).stock, 5);
+    });
+
+    test('cancela o pedido e devolve o valor recebido quando ele difere do total', database, async () => {
+        const { order, product, paymentIntent } = await createOrderToPay();
+
+        await deliver(signedEvent('payment_intent.succeeded', { ...paymentIntent, received: paymentIntent.amount - 500 }));
+
+        const mismatched = await prisma.order.findUniqueOrThrow({ where: { id: order.id }, include: { refunds: true } });
+        assert.equal(mismatched.status, 'CANCELLED');
+        assert.equal(mismatched.paymentStatus, 'AMOUNT_MISMATCH');
+        assert.equal(mismatched.reservedUntil, null);
+        assert.equal(mismatched.refunds.reduce((sum, refund) => sum + refund.amount, 0), order.total - 5);
+        assert.equal((await prisma.product.findUniqueOrThrow({ where: { id: product.id } })).stock, 5);
+    });
+});
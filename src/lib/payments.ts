@@ -0,0 +1,193 @@
+import type Stripe from 'stripe';
+import 'dotenv/config';
+import prisma from './prisma.js';
+import stripe from './stripe.js';
+import { OrderStatusError, applyOrderStatus } from './orderStatus.js';
+import { refundUnbookedPayment, type RefundProvider } from './refunds.js';
+import type { Order } from '../generated/prisma/client/client.js';
+
+const WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET as string;
+
+// O Stripe trabalha em centavos
+export function toCents(amount: number) {
+    return Math.round(amount * 100);
+}
+
+// Cria (ou reaproveita) o PaymentIntent do pedido; o valor sai sempre do total salvo
+export async function createPaymentIntentForOrder(order: Order) {
+    if (order.paymentIntentId) {
+        const existing = await stripe.paymentIntents.retrieve(order.paymentIntentId);
+        if (existing.status !== 'canceled') return existing;
+    }
+
+    const paymentIntent = await stripe.paymentIntents.create({
+        amount: toCents(order.total),
+        currency: 'brl',
+        payment_method_types: ['card'],
+        metadata: { orderId: order.id }
+    }, {
+        idempotencyKey: `order-${order.id}-${order.paymentIntentId ?? 'first'}`
+    });
+
+    await prisma.order.update({
+        where: { id: order.id },
+        data: { paymentIntentId: paymentIntent.id, paymentStatus: 'PENDING' }
+    });
+
+    return paymentIntent;
+}
+
+// Reembolso no mesmo PaymentIntent; a chave de idempotência evita devolver duas vezes numa nova tentativa
+export class StripeRefundProvider implements RefundProvider {
+    name = 'stripe';
+
+    async refund({ id, paymentIntentId, amount }: { id: string; paymentIntentId: string; amount: number }) {
+        const refund = await stripe.refunds.create({
+            payment_intent: paymentIntentId,
+            amount: toCents(amount)
+        }, {
+            idempotencyKey: `refund-${id}`
+        });
+        return { reference: refund.id };
+    }
+}
+
+// Lança erro se a assinatura não bater; nenhum acesso à rede é feito aqui
+export function constructWebhookEvent(rawBody: Buffer, signature: string) {
+    return stripe.webhooks.constructEvent(rawBody, signature, WEBHOOK_SECRET);
+}
+
+// Processa um evento uma única vez; eventos repetidos são ignorados
+export async function handleStripeEvent(event: Stripe.Event) {
+    return prisma.$transaction(async (tx) => {
+        const alreadyProcessed = await tx.stripeEvent.findUnique({ where: { id: event.id } });
+        if (alreadyProcessed) return { duplicate: true };
+
+        await tx.stripeEvent.create({ data: { id: event.id, type: event.type } });
+
+        if (
+            event.type !== 'payment_intent.succeeded' &&
+            event.type !== 'payment_intent.payment_failed' &&
+            event.type !== 'payment_intent.canceled'
+        ) {
+            return { duplicate: false };
+        }
+
+        const paymentIntent = event.data.object;
+        const order = await tx.order.findFirst({
+            where: {
+                OR: [
+                    { paymentIntentId: paymentIntent.id },
+                    ...(paymentIntent.metadata?.orderId ? [{ id: paymentIntent.metadata.orderId }] : [])
+                ]
+            }
+        });
+
+        if (!order) {
+            console.warn(`⚠️ Webhook ${event.id}: nenhum pedido para o PaymentIntent ${paymentIntent.id}`);
+            return { duplicate: false };
+        }
+
+        // Eventos de um PaymentIntent antigo (substituído por outro) não mexem mais no pedido
+        if (order.paymentIntentId && order.paymentIntentId !== paymentIntent.id) {
+            console.warn(`⚠️ Webhook ${event.id}: PaymentIntent ${paymentIntent.id} não é o atual do pedido ${order.id}`);
+            return { duplicate: false };
+        }
+
+        // Pagamento que não pode confirmar o pedido: chegou depois do cancelamento (o cliente pagou com
+        // um client secret antigo) ou com valor diferente do total. Fica registrado, o pedido não segue
+        // (a reserva de estoque é liberada) e o valor recebido volta inteiro ao cliente
+        const matchesTotal = paymentIntent.amount_received === toCents(order.total);
+        if (
+            event.type === 'payment_intent.succeeded' &&
+            (order.status === 'CANCELLED' || (order.status === 'AWAITING_PAYMENT' && !matchesTotal))
+        ) {
+            await tx.order.update({
+                where: { id: order.id },
+                data: { paymentStatus: matchesTotal ? 'SUCCEEDED' : 'AMOUNT_MISMATCH', paymentIntentId: paymentIntent.id, reservedUntil: null }
+            });
+            if (order.status === 'AWAITING_PAYMENT') {
+                await applyOrderStatus(tx, {
+                    orderId: order.id,
+                    to: 'CANCELLED',
+                    actor: 'SYSTEM',
+                    note: `Valor pago difere do total do pedido (${paymentIntent.id}); pagamento reembolsado`
+                });
+            }
+            await refundUnbookedPayment(tx, order.id, paymentIntent.amount_received / 100);
+            console.warn(`⚠️ Webhook ${event.id}: pagamento do pedido ${order.id} não confirmado (${matchesTotal ? 'pedido já cancelado' : 'valor difere do total'}); será reembolsado`);
+            return { duplicate: false };
+        }
+
+        // Outro evento já confirmou este pagamento: nada a fazer
+        if (event.type === 'payment_intent.succeeded' && order.status !== 'AWAITING_PAYMENT') {
+            console.warn(`⚠️ Webhook ${event.id}: pedido ${order.id} já saiu de "aguardando pagamento"`);
+            return { duplicate: false };
+        }
+
+        // Daqui em diante um OrderStatusError (ex: o cliente cancelou no meio do caminho) desfaz a
+        // transação inteira, inclusive o registro do evento, e o Stripe reenvia mais tarde
+        if (event.type === 'payment_intent.succeeded') {
+            await tx.order.update({
+                where: { id: order.id },
+                data: { paymentStatus: 'SUCCEEDED', paymentIntentId: paymentIntent.id, reservedUntil: null }
+            });
+            await applyOrderStatus(tx, { orderId: order.id, to: 'TO_SHIP', actor: 'SYSTEM', note: `Pagamento confirmado (${paymentIntent.id})` });
+        }
+
+        // Falha não encerra o pedido: o cliente ainda pode tentar outro cartão
+        if (event.type === 'payment_intent.payment_failed') {
+            await tx.order.update({ where: { id: order.id }, data: { paymentStatus: 'FAILED' } });
+        }
+
+        if (event.type === 'payment_intent.canceled' && order.status === 'AWAITING_PAYMENT') {
+            await tx.order.update({ where: { id: order.id }, data: { paymentStatus: 'CANCELED' } });
+            await applyOrderStatus(tx, { orderId: order.id, to: 'CANCELLED', actor: 'SYSTEM', note: `Pagamento cancelado (${paymentIntent.id})` });
+        }
+
+        return { duplicate: false };
+    });
+}
+
+// Cancela o PaymentIntent de um pedido ainda não pago, para que o client secret que ficou com o
+// cliente não consiga mais cobrar. Retorna false se o pagamento já foi feito (ou está sendo
+// processado): aí quem decide o pedido é o webhook
+export async function cancelPendingPayment(paymentIntentId: string | null) {
+    if (!paymentIntentId) return true;
+
+    const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+    if (paymentIntent.status === 'succeeded' || paymentIntent.status === 'processing') return false;
+    if (paymentIntent.status !== 'canceled') await stripe.paymentIntents.cancel(paymentIntent.id);
+    return true;
+}
+
+// Pedidos que passaram da reserva sem pagar voltam o estoque. Antes cancelamos o PaymentIntent,
+// para um pagamento tardio não confirmar um pedido cancelado; se ele já foi pago (ou está sendo
+// processado), o webhook decide o pedido e a reserva fica como está
+export async function cancelExpiredReservations() {
+    const expired = await prisma.order.findMany({
+        where: { status: 'AWAITING_PAYMENT', reservedUntil: { lt: new Date() } },
+        select: { id: true, paymentIntentId: true }
+    });
+
+    let cancelled = 0;
+    for (const order of expired) {
+        try {
+            if (!(await cancelPendingPayment(order.paymentIntentId))) continue;
+
+            await prisma.$transaction(async (tx) => {
+                await tx.order.update({
+                    where: { id: order.id },
+                    data: { reservedUntil: null, ...(order.paymentIntentId && { paymentStatus: 'CANCELED' }) }
+                });
+                await applyOrderStatus(tx, { orderId: order.id, to: 'CANCELLED', actor: 'SYSTEM', note: "Reserva de estoque expirada sem pagamento" });
+            });
+            cancelled++;
+        } catch (error) {
+            // Pedido que mudou de estado no meio do caminho (pago ou cancelado) fica como está
+            if (error instanceof OrderStatusError) continue;
+            console.error(`❌ Erro ao liberar a reserva do pedido ${order.id}:`, error);
+        }
+    }
+    return cancelled;
+}
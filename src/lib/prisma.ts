@@ -0,0 +1,16 @@
+import { Pool } from 'pg';
+import 'dotenv/config';
+import { PrismaPg } from '@prisma/adapter-pg';
+import { PrismaClient } from '../generated/prisma/client/client.js';
+
+// Configuração do Prisma 7 com PostgreSQL
+const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+const adapter = new PrismaPg(pool);
+
+// A senha nunca sai do banco por padrão; quem precisar dela pede com `omit: { password: false }`
+const prisma = new PrismaClient({
+    adapter,
+    omit: { user: { password: true } }
+});
+
+export default prisma;
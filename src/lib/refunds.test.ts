@@ -0,0 +1,93 @@
+import 'dotenv/config';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { after, describe, test } from 'node:test';
+import prisma from './prisma.js';
+import { changeOrderStatus } from './orderStatus.js';
+import { FakeRefundProvider, processPendingRefunds, setRefundProvider } from './refunds.js';
+import { decideReturn, requestReturn } from './returns.js';
+import { addTrackingEvent, shipShopOrder } from './shipments.js';
+import { createPendingOrder, database } from './testFixtures.js';
+
+// O que o webhook faz ao confirmar o pagamento: o reembolso sai pelo PaymentIntent registrado
+async function payOrder(orderId: string) {
+    await prisma.order.update({
+        where: { id: orderId },
+        data: { paymentIntentId: `pi_${crypto.randomUUID()}`, paymentStatus: 'SUCCEEDED', reservedUntil: null }
+    });
+    await changeOrderStatus({ orderId, to: 'TO_SHIP', actor: 'SYSTEM' });
+}
+
+// Pedido pago e entregue, pronto para devolução
+async function createDeliveredOrder() {
+    const fixture = await createPendingOrder();
+    const { order, seller } = fixture;
+
+    await payOrder(order.id);
+    const shopOrderId = order.shopOrders[0].id;
+    await shipShopOrder({ shopOrderId, carrier: 'Correios', trackingCode: 'BR123', actorId: seller.id });
+    const shipment = await prisma.shipment.findUniqueOrThrow({ where: { shopOrderId } });
+    await addTrackingEvent({ shipmentId: shipment.id, status: 'DELIVERED', description: "Objeto entregue", source: 'SYSTEM' });
+
+    return fixture;
+}
+
+// Envia tudo o que estiver vencido na fila, não só o primeiro lote
+async function drainRefunds() {
+    while (await processPendingRefunds() > 0);
+}
+
+describe('reembolsos', () => {
+    after(async () => {
+        setRefundProvider(new FakeRefundProvider());
+        await prisma.$disconnect();
+    });
+
+    test('devolução aprovada reembolsa pelo provedor local e devolve o estoque', database, async () => {
+        const { order, product, seller } = await createDeliveredOrder();
+        const item = order.items[0];
+
+        const request = await requestReturn({ customerId: order.customerId, orderItemId: item.id, quantity: 1, reason: 'Tamanho errado', photos: [] });
+        await decideReturn({ returnId: request.id, shopId: seller.shop!.id, actorId: seller.id, status: 'APPROVED', refundAmount: 30 });
+
+        await drainRefunds();
+
+        const [refund] = await prisma.refund.findMany({ where: { returnRequestId: request.id } });
+        assert.equal(refund.amount, 30);
+        assert.equal(refund.status, 'SUCCEEDED');
+        assert.equal(refund.reference, `fake_${refund.id}`);
+        assert.ok(refund.refundedAt);
+
+        assert.equal(await prisma.ledgerTransaction.count({ where: { shopOrderId: refund.shopOrderId, type: 'REFUND' } }), 1);
+        assert.equal((await prisma.product.findUniqueOrThrow({ where: { id: product.id } })).stock, 4);
+    });
+
+    test('cancelamento pelo cliente antes do envio reembolsa o valor pago', database, async () => {
+        const { order } = await createPendingOrder();
+        await payOrder(order.id);
+        await changeOrderStatus({ orderId: order.id, to: 'CANCELLED', actor: 'CUSTOMER', actorId: order.customerId });
+
+        await drainRefunds();
+
+        const refunds = await prisma.refund.findMany({ where: { orderId: order.id } });
+        assert.equal(refunds.reduce((sum, refund) => sum + refund.amount, 0), order.total);
+        assert.ok(refunds.every(refund => refund.status === 'SUCCEEDED'));
+    });
+
+    test('falha do provedor deixa o reembolso na fila para nova tentativa', database, async () => {
+        const { order } = await createPendingOrder();
+        await payOrder(order.id);
+        await drainRefunds();
+
+        setRefundProvider({ name: 'fake', refund: async () => { throw new Error('Provedor fora do ar'); } });
+        await changeOrderStatus({ orderId: order.id, to: 'CANCELLED', actor: 'CUSTOMER', actorId: order.customerId });
+        await processPendingRefunds();
+        setRefundProvider(new FakeRefundProvider());
+
+        const [refund] = await prisma.refund.findMany({ where: { orderId: order.id } });
+        assert.equal(refund.status, 'PENDING');
+        assert.equal(refund.attempts, 1);
+        assert.equal(refund.lastError, 'Provedor fora do ar');
+        assert.ok(refund.nextAttemptAt > new Date());
+    });
+});
@@ -0,0 +1,137 @@
+import prisma from './prisma.js';
+import { roundMoney } from './checkout.js';
+import { recordRefund } from './ledger.js';
+import type { Prisma } from '../generated/prisma/client/client.js';
+
+// Qualquer meio de pagamento entra implementando esta interface (o do Stripe fica em payments.ts)
+export interface RefundProvider {
+    name: string;
+    // Lança erro quando o reembolso é recusado. Repetir a chamada com o mesmo id não pode
+    // devolver o dinheiro duas vezes (o worker tenta de novo depois de uma falha)
+    refund(refund: { id: string; paymentIntentId: string; amount: number }): Promise<{ reference: string }>;
+}
+
+// Provedor local: aprova tudo na hora, sem movimentar dinheiro de verdade
+export class FakeRefundProvider implements RefundProvider {
+    name = 'fake';
+
+    async refund(refund: { id: string }) {
+        return { reference: `fake_${refund.id}` };
+    }
+}
+
+let refundProvider: RefundProvider = new FakeRefundProvider();
+
+export function setRefundProvider(next: RefundProvider) {
+    refundProvider = next;
+}
+
+type RefundInput = {
+    shopOrderId: string;
+    // Sem valor, devolve tudo o que ainda está pago nesta parte do pedido
+    amount?: number;
+    returnRequestId?: string;
+    description: string;
+};
+
+// Estorna no livro da loja e agenda o reembolso ao cliente, dentro da transação que o causou
+// (cancelamento ou devolução aprovada). Nada pago a devolver não gera reembolso
+export async function issueRefund(tx: Prisma.TransactionClient, { shopOrderId, amount, returnRequestId, description }: RefundInput) {
+    const value = await recordRefund(tx, shopOrderId, amount, description);
+    if (value === 0) return null;
+
+    const { orderId } = await tx.shopOrder.findUniqueOrThrow({ where: { id: shopOrderId }, select: { orderId: true } });
+    return tx.refund.create({
+        data: { orderId, shopOrderId, returnRequestId, amount: value, provider: refundProvider.name }
+    });
+}
+
+// Pagamento que nunca virou venda no livro das lojas (chegou com o pedido já cancelado ou com
+// valor diferente do total): volta
+// inteiro ao cliente. Cada reembolso pertence a uma parte do pedido, então o valor recebido é
+// repartido entre elas na proporção do que cada loja cobraria; o arredondamento fica com a última
+export async function refundUnbookedPayment(tx: Prisma.TransactionClient, orderId: string, amount: number) {
+    const shopOrders = await tx.shopOrder.findMany({ where: { orderId }, orderBy: { id: 'asc' } });
+    if (shopOrders.length === 0) return [];
+
+    const bases = shopOrders.map(group => group.subtotal - group.discount + group.shippingCost - group.shippingDiscount);
+    const total = bases.reduce((sum, base) => sum + base, 0);
+    let remaining = roundMoney(amount);
+
+    const refunds = [];
+    for (const [index, group] of shopOrders.entries()) {
+        const share = index === shopOrders.length - 1
+            ? remaining
+            : roundMoney(total > 0 ? amount * bases[index] / total : 0);
+        remaining = roundMoney(remaining - share);
+        if (share <= 0) continue;
+
+        refunds.push(await tx.refund.create({
+            data: { orderId, shopOrderId: group.id, amount: share, provider: refundProvider.name }
+        }));
+    }
+    return refunds;
+}
+
+// --- ENVIO AO MEIO DE PAGAMENTO ---
+
+const MAX_ATTEMPTS = 5;
+const BATCH_SIZE = 20;
+// Tempo que um reembolso fica reservado para quem o pegou antes de voltar à fila
+const CLAIM_MS = 5 * 60 * 1000;
+
+let processing = false;
+
+// Envia os reembolsos pendentes ao provedor. Cada linha é reservada antes da chamada, como na
+// fila de e-mails; depois de MAX_ATTEMPTS falhas o reembolso fica FAILED para tratamento manual
+export async function processPendingRefunds() {
+    if (processing) return 0;
+
+    processing = true;
+    try {
+        const due = await prisma.refund.findMany({
+            where: { status: 'PENDING', nextAttemptAt: { lte: new Date() } },
+            include: { order: { select: { paymentIntentId: true } } },
+            orderBy: { createdAt: 'asc' },
+            take: BATCH_SIZE
+        });
+
+        let refunded = 0;
+        for (const refund of due) {
+            const { count } = await prisma.refund.updateMany({
+                where: { id: refund.id, status: 'PENDING', nextAttemptAt: refund.nextAttemptAt },
+                data: { nextAttemptAt: new Date(Date.now() + CLAIM_MS), attempts: { increment: 1 } }
+            });
+            if (count === 0) continue;
+
+            try {
+                if (!refund.order.paymentIntentId) throw new Error("Pedido sem pagamento registrado");
+
+                const { reference } = await refundProvider.refund({
+                    id: refund.id,
+                    paymentIntentId: refund.order.paymentIntentId,
+                    amount: refund.amount
+                });
+                await prisma.refund.update({
+                    where: { id: refund.id },
+                    data: { status: 'SUCCEEDED', reference, refundedAt: new Date(), lastError: null }
+                });
+                refunded++;
+            } catch (error) {
+                const attempts = refund.attempts + 1;
+                await prisma.refund.update({
+                    where: { id: refund.id },
+                    data: {
+                        status: attempts >= MAX_ATTEMPTS ? 'FAILED' : 'PENDING',
+                        lastError: error instanceof Error ? error.message : String(error),
+                        nextAttemptAt: new Date(Date.now() + 2 ** attempts * 60 * 1000)
+                    }
+                });
+                console.error(`❌ Falha no reembolso ${refund.id} (tentativa ${attempts}):`, error);
+            }
+        }
+        return refunded;
+    } finally {
+        processing = false;
+    }
+}
@@ -0,0 +1,173 @@
+import prisma from './prisma.js';
+import { roundMoney } from './checkout.js';
+import { PAYOUT_HOLD_DAYS } from './ledger.js';
+import { moveStock } from './inventory.js';
+import { notify, orderNumber } from './notifications.js';
+import { publishShopEvent } from './shopEvents.js';
+import { issueRefund } from './refunds.js';
+import type { OrderItem, ShopOrder } from '../generated/prisma/client/client.js';
+
+// Prazo para pedir a devolução, contado da entrega; por padrão o mesmo em que o valor da
+// venda fica retido com a plataforma
+export const RETURN_WINDOW_DAYS = Number(process.env.RETURN_WINDOW_DAYS ?? PAYOUT_HOLD_DAYS);
+
+export const RETURN_DECISIONS = ['APPROVED', 'REJECTED'] as const;
+
+export class ReturnError extends Error {
+    constructor(
+        public code: 'ITEM_NOT_FOUND' | 'RETURN_NOT_FOUND' | 'NOT_ELIGIBLE' | 'INVALID_QUANTITY' | 'RETURN_PENDING' | 'ALREADY_DECIDED' | 'INVALID_AMOUNT',
+        message: string
+    ) {
+        super(message);
+    }
+}
+
+// O que acompanha cada devolução nas respostas
+export const RETURN_INCLUDE = {
+    orderItem: { select: { id: true, orderId: true, productId: true, name: true, variantName: true, image: true, price: true, quantity: true } },
+    refunds: { select: { id: true, amount: true, status: true, refundedAt: true, createdAt: true } }
+} as const;
+
+// Quanto o cliente pagou pelas unidades devolvidas, com o desconto do cupom repartido na
+// proporção dos itens (o frete não é devolvido na devolução de itens)
+export function returnValue(item: Pick<OrderItem, 'price'>, quantity: number, shopOrder: Pick<ShopOrder, 'subtotal' | 'discount'>) {
+    const discountFactor = shopOrder.subtotal > 0 ? (shopOrder.subtotal - shopOrder.discount) / shopOrder.subtotal : 0;
+    return roundMoney(item.price * quantity * discountFactor);
+}
+
+type ReturnInput = {
+    customerId: string;
+    orderItemId: string;
+    quantity: number;
+    reason: string;
+    photos: string[];
+};
+
+export function requestReturn({ customerId, orderItemId, quantity, reason, photos }: ReturnInput) {
+    return prisma.$transaction(async (tx) => {
+        // Trava o item para que dois pedidos simultâneos não passem da quantidade comprada
+        await tx.$queryRaw`SELECT "id" FROM "OrderItem" WHERE "id" = ${orderItemId} FOR UPDATE`;
+
+        const item = await tx.orderItem.findFirst({
+            where: { id: orderItemId, order: { customerId } },
+            include: {
+                returns: { where: { status: { not: 'REJECTED' } } },
+                shopOrder: {
+                    include: {
+                        shop: { select: { userId: true } },
+                        statusHistory: { where: { toStatus: 'DELIVERED' }, orderBy: { createdAt: 'desc' }, take: 1 }
+                    }
+                }
+            }
+        });
+        if (!item) throw new ReturnError('ITEM_NOT_FOUND', "Item de pedido não encontrado");
+
+        const shopOrder = item.shopOrder;
+        const deliveredAt = shopOrder?.statusHistory[0]?.createdAt;
+        if (!shopOrder || !['DELIVERED', 'COMPLETED'].includes(shopOrder.status) || !deliveredAt) {
+            throw new ReturnError('NOT_ELIGIBLE', "Só é possível devolver itens de pedidos entregues");
+        }
+        if (deliveredAt.getTime() < Date.now() - RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+            throw new ReturnError('NOT_ELIGIBLE', `O prazo de ${RETURN_WINDOW_DAYS} dias para devolver este item terminou`);
+        }
+        if (item.returns.some(request => request.status === 'REQUESTED')) {
+            throw new ReturnError('RETURN_PENDING', "Já existe uma devolução deste item aguardando o vendedor");
+        }
+
+        const available = item.quantity - item.returns.reduce((sum, request) => sum + request.quantity, 0);
+        if (quantity > available) {
+            throw new ReturnError('INVALID_QUANTITY', available === 0
+                ? "Este item já foi devolvido"
+                : `Só é possível devolver até ${available} ${available === 1 ? 'unidade' : 'unidades'} deste item`);
+        }
+
+        const created = await tx.returnRequest.create({
+            data: { orderItemId, shopOrderId: shopOrder.id, customerId, quantity, reason, photos },
+            include: RETURN_INCLUDE
+        });
+
+        const event = { returnId: created.id, orderId: item.orderId, shopOrderId: shopOrder.id, orderNumber: orderNumber(item.orderId) };
+        await publishShopEvent(tx, shopOrder.shopId, 'RETURN_REQUESTED', { ...event, name: item.name, quantity });
+        await notify(tx, {
+            userId: shopOrder.shop.userId,
+            type: 'RETURN_REQUESTED',
+            title: "Pedido de devolução",
+            body: `O cliente pediu a devolução de ${quantity}x ${item.name} do pedido ${event.orderNumber}.`,
+            data: { ...event, shopId: shopOrder.shopId }
+        });
+
+        return created;
+    });
+}
+
+type Decision = {
+    returnId: string;
+    shopId: string;
+    actorId: string;
+    status: typeof RETURN_DECISIONS[number];
+    // Reembolso parcial; sem ele, devolve o valor pago pelas unidades
+    refundAmount?: number;
+    note?: string | null;
+};
+
+// Aprovação estorna o valor (no livro e no meio de pagamento) e devolve as unidades ao estoque
+export function decideReturn({ returnId, shopId, actorId, status, refundAmount, note }: Decision) {
+    return prisma.$transaction(async (tx) => {
+        const request = await tx.returnRequest.findFirst({
+            where: { id: returnId, shopOrder: { shopId } },
+            include: { orderItem: { include: { variant: { select: { active: true } } } }, shopOrder: true }
+        });
+        if (!request) throw new ReturnError('RETURN_NOT_FOUND', "Devolução não encontrada");
+        if (request.status !== 'REQUESTED') throw new ReturnError('ALREADY_DECIDED', "Esta devolução já foi analisada");
+
+        const { orderItem: item, shopOrder } = request;
+        const maxRefund = returnValue(item, request.quantity, shopOrder);
+        const amount = status === 'APPROVED' ? roundMoney(refundAmount ?? maxRefund) : null;
+        if (amount !== null && amount > maxRefund) {
+            throw new ReturnError('INVALID_AMOUNT', `O reembolso não pode passar de R$ ${maxRefund.toFixed(2)}`);
+        }
+
+        // Condicional para que duas decisões simultâneas não sejam aplicadas as duas
+        const { count } = await tx.returnRequest.updateMany({
+            where: { id: returnId, status: 'REQUESTED' },
+            data: { status, refundAmount: amount, sellerNote: note, decidedAt: new Date() }
+        });
+        if (count === 0) throw new ReturnError('ALREADY_DECIDED', "Esta devolução já foi analisada");
+
+        const number = orderNumber(item.orderId);
+
+        if (amount !== null) {
+            await issueRefund(tx, {
+                shopOrderId: shopOrder.id,
+                amount,
+                returnRequestId: returnId,
+                description: `Devolução de ${request.quantity}x ${item.name}`
+            });
+
+            // Variante que saiu do catálogo não volta a ter estoque
+            if (!item.variantId || item.variant?.active) {
+                await moveStock(tx, {
+                    productId: item.productId,
+                    variantId: item.variantId,
+                    type: 'RETURN',
+                    quantity: request.quantity,
+                    orderId: item.orderId,
+                    actorId,
+                    note: `Devolução do pedido ${number}`
+                });
+            }
+        }
+
+        await notify(tx, {
+            userId: request.customerId,
+            type: status === 'APPROVED' ? 'RETURN_APPROVED' : 'RETURN_REJECTED',
+            title: status === 'APPROVED' ? "Devolução aprovada" : "Devolução recusada",
+            body: status === 'APPROVED'
+                ? `A devolução de ${item.name} do pedido ${number} foi aprovada. O reembolso de R$ ${amount!.toFixed(2)} foi solicitado.`
+                : `A devolução de ${item.name} do pedido ${number} foi recusada${note ? `: ${note}` : '.'}`,
+            data: { returnId, orderId: item.orderId, status }
+        });
+
+        return tx.returnRequest.findUniqueOrThrow({ where: { id: returnId }, include: RETURN_INCLUDE });
+    });
+}
@@ -0,0 +1,91 @@
+import prisma from './prisma.js';
+import type { Prisma } from '../generated/prisma/client/client.js';
+
+export class ReviewError extends Error {
+    constructor(public code: 'NOT_ELIGIBLE' | 'ALREADY_REVIEWED', message: string) {
+        super(message);
+    }
+}
+
+// Só conta como compra verificada o item cuja parte do pedido já foi entregue
+const DELIVERED_STATUSES = ['DELIVERED', 'COMPLETED'] as const;
+
+// Itens entregues deste produto que o cliente ainda não avaliou
+export function findReviewableItems(userId: string, productId: string) {
+    return prisma.orderItem.findMany({
+        where: {
+            productId,
+            order: { customerId: userId },
+            shopOrder: { status: { in: [...DELIVERED_STATUSES] } },
+            review: null
+        },
+        orderBy: { order: { date: 'asc' } }
+    });
+}
+
+// Recalcula média e quantidade a partir das avaliações gravadas (nunca incrementa às cegas).
+// Quem chama já travou o produto (lockProduct), para a contagem enxergar as avaliações concorrentes
+async function refreshProductRating(tx: Prisma.TransactionClient, productId: string) {
+    const { _avg, _count } = await tx.review.aggregate({
+        where: { productId },
+        _avg: { rating: true },
+        _count: { _all: true }
+    });
+
+    await tx.product.update({
+        where: { id: productId },
+        data: {
+            rating: _count._all > 0 ? Math.round(_avg.rating! * 10) / 10 : 5.0,
+            reviews: _count._all
+        }
+    });
+}
+
+// Trava o produto no começo da transação: duas avaliações simultâneas se enfileiram aqui e a
+// segunda só recalcula a média depois que a primeira confirmou. Travar só depois de gravar a
+// avaliação trancaria as duas, porque a chave estrangeira já segura o produto
+async function lockProduct(tx: Prisma.TransactionClient, productId: string) {
+    await tx.$queryRaw`SELECT "id" FROM "Product" WHERE "id" = ${productId} FOR UPDATE`;
+}
+
+type CreateReviewInput = {
+    userId: string;
+    productId: string;
+    orderItemId?: string;
+    rating: number;
+    comment?: string;
+    photos: string[];
+};
+
+export async function createReview({ userId, productId, orderItemId, rating, comment, photos }: CreateReviewInput) {
+    return prisma.$transaction(async (tx) => {
+        await lockProduct(tx, productId);
+
+        const orderItem = await tx.orderItem.findFirst({
+            where: {
+                productId,
+                // Sem item indicado, usamos a compra entregue mais antiga ainda sem avaliação
+                ...(orderItemId ? { id: orderItemId } : { review: null }),
+                order: { customerId: userId },
+                shopOrder: { status: { in: [...DELIVERED_STATUSES] } }
+            },
+            include: { review: true },
+            orderBy: { order: { date: 'asc' } }
+        });
+
+        if (!orderItem) {
+            throw new ReviewError('NOT_ELIGIBLE', "Não há compra entregue deste produto pendente de avaliação");
+        }
+        if (orderItem.review) {
+            throw new ReviewError('ALREADY_REVIEWED', "Esta compra já foi avaliada");
+        }
+
+        const review = await tx.review.create({
+            data: { productId, orderItemId: orderItem.id, userId, rating, comment, photos }
+        });
+
+        await refreshProductRating(tx, productId);
+
+        return review;
+    });
+}
@@ -0,0 +1,405 @@
+import { z } from 'zod';
+import { PRODUCT_SORTS } from './catalog.js';
+import { COUPON_TYPES } from './coupons.js';
+import { ORDER_STATUSES } from './orderStatus.js';
+import { SHIPMENT_EVENT_STATUSES } from './shipments.js';
+import { GRANULARITIES } from './analytics.js';
+import { NOTIFICATION_TYPES } from './notifications.js';
+import { RETURN_DECISIONS } from './returns.js';
+import { isValidCpf, normalizeCpf } from './cpf.js';
+import { SHOP_DECISIONS, SHOP_STATUSES } from './moderation.js';
+import { ADMIN_ACTIONS, AUDIT_TARGET_TYPES } from './audit.js';
+
+// Schemas de params, query e body de cada rota, usados com validate() em src/server.ts.
+// Regras que dependem do banco ou de outros campos já salvos continuam nas libs
+
+// --- COMUNS ---
+
+export const id = z.string().trim().min(1, "Informe o id");
+const text = (max = 200) => z.string("Campo obrigatório").trim().min(1, "Campo obrigatório").max(max);
+const optionalText = (max = 2000) => z.string().trim().max(max).nullish();
+const imageUrl = z.url({ protocol: /^https?$/, error: "URL de imagem inválida" });
+
+// Formulários multipart mandam tudo como texto, e campo vazio significa "não informado"
+const formValue = <T extends z.ZodType>(schema: T) =>
+    z.preprocess(value => value === '' || value === null ? undefined : value, schema.optional());
+
+const commissionRate = z.number().min(0).lt(1, "Use uma fração entre 0 e 1 (0.12 = 12%)").nullable();
+
+// Rotas de ação que não recebem dados
+export const emptyBody = z.object({});
+
+export const idParams = z.object({ id });
+export const userIdParams = z.object({ userId: id });
+export const shopIdParams = z.object({ shopId: id });
+export const customerIdParams = z.object({ customerId: id });
+
+export const paginationQuery = z.object({
+    page: z.coerce.number().int().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional()
+});
+
+const email = z.string().trim().pipe(z.email("E-mail inválido"));
+const password = z.string().min(6, "A senha deve ter pelo menos 6 caracteres").max(100);
+
+// Aceita com ou sem pontuação e guarda só os dígitos
+const cpf = z.string().trim()
+    .refine(isValidCpf, "CPF inválido")
+    .transform(normalizeCpf);
+
+const zipCode = z.string().trim().regex(/^\d{5}-?\d{3}$/, "CEP inválido");
+const state = z.string().trim().length(2, "Use a sigla do estado (UF)").toUpperCase();
+
+const addressFields = {
+    street: text(),
+    number: text(20),
+    complement: optionalText(100),
+    neighborhood: text(),
+    city: text(),
+    state
+};
+
+// --- AUTENTICAÇÃO ---
+
+export const registerBody = z.object({
+    userData: z.object({
+        name: text(),
+        email,
+        password,
+        cpf: formValue(cpf),
+        phone: optionalText(20),
+        birthdate: optionalText(30),
+        role: z.enum(['CUSTOMER', 'SELLER']).optional()
+    }),
+    // O formulário de cadastro manda o CEP como "cep"
+    addressData: z.object({ cep: zipCode, ...addressFields }).optional(),
+    shopData: z.object({
+        name: text(),
+        description: optionalText(),
+        image: formValue(imageUrl)
+    }).optional()
+});
+
+export const loginBody = z.object({
+    email: z.string().trim().min(1, "Informe o e-mail"),
+    password: z.string().min(1, "Informe a senha"),
+    cartToken: z.string().optional()
+});
+
+export const refreshBody = z.object({ refreshToken: z.string().min(1, "Refresh token não informado") });
+export const logoutBody = z.object({ refreshToken: z.string().optional() });
+
+const token = z.string().trim().min(1, "Token não informado");
+
+export const verifyEmailBody = z.object({ token });
+export const passwordForgotBody = z.object({ email });
+export const passwordResetBody = z.object({ token, password });
+
+// --- CATEGORIAS ---
+
+export const categoryParams = z.object({ idOrSlug: id });
+
+export const categoryBody = z.object({
+    name: text(100),
+    slug: z.string().trim().max(100).optional(),
+    image: imageUrl.nullish(),
+    position: z.number().int().optional(),
+    parentId: id.nullish(),
+    commissionRate: commissionRate.optional()
+});
+
+export const categoryUpdateBody = categoryBody.partial();
+
+export const categoryDeleteQuery = z.object({ moveTo: id.optional() });
+
+// --- PRODUTOS ---
+
+const packageFields = {
+    weight: formValue(z.coerce.number().positive()),
+    length: formValue(z.coerce.number().positive()),
+    width: formValue(z.coerce.number().positive()),
+    height: formValue(z.coerce.number().positive())
+};
+
+// Criação via multipart (campos como texto, variantes como JSON em texto)
+export const productCreateBody = z.object({
+    name: text(),
+    description: z.string().trim().max(5000).default(''),
+    price: z.coerce.number().nonnegative(),
+    stock: formValue(z.coerce.number().int().nonnegative()),
+    lowStockThreshold: formValue(z.coerce.number().int().nonnegative()),
+    categoryId: formValue(id),
+    category: formValue(id),
+    variants: z.unknown().optional(),
+    ...packageFields
+}).refine(body => body.categoryId || body.category, { message: "Informe a categoria", path: ['categoryId'] });
+
+const stockVersion = z.number("Informe a stockVersion lida junto com o estoque").int().nonnegative();
+
+// Edição em JSON; campos ausentes ficam como estão
+export const productUpdateBody = z.object({
+    name: text().optional(),
+    description: z.string().trim().max(5000).optional(),
+    price: z.number().nonnegative().optional(),
+    stock: z.number().int().nonnegative().optional(),
+    stockVersion: stockVersion.optional(),
+    lowStockThreshold: z.number().int().nonnegative().nullable().optional(),
+    categoryId: id.optional(),
+    category: id.optional(),
+    images: z.array(imageUrl).max(10).optional(),
+    variants: z.unknown().optional(),
+    ...packageFields
+}).refine(body => (body.stock === undefined && body.variants === undefined) || body.stockVersion !== undefined, {
+    message: "Informe a stockVersion lida junto com o estoque",
+    path: ['stockVersion']
+});
+
+// Ajuste manual: o novo estoque do produto (ou da variante) e a versão que o vendedor viu
+export const stockAdjustmentBody = z.object({
+    variantId: id.nullish(),
+    stock: z.number().int().nonnegative(),
+    stockVersion,
+    note: optionalText(500)
+});
+
+export const productSearchQuery = z.object({
+    search: z.string().trim().max(200).optional(),
+    shopId: id.optional(),
+    category: id.optional(),
+    minPrice: z.coerce.number().nonnegative().optional(),
+    maxPrice: z.coerce.number().nonnegative().optional(),
+    minRating: z.coerce.number().min(0).max(5).optional(),
+    inStock: z.enum(['true', 'false', '1', '0']).optional(),
+    sort: z.enum(PRODUCT_SORTS).optional(),
+    ...paginationQuery.shape
+});
+
+export const productShippingQuery = z.object({
+    zipCode,
+    state,
+    quantity: z.coerce.number().int().min(1).default(1)
+});
+
+// --- AVALIAÇÕES ---
+
+export const reviewBody = z.object({
+    orderItemId: id,
+    rating: z.coerce.number().int().min(1, "A nota deve ser de 1 a 5").max(5, "A nota deve ser de 1 a 5"),
+    comment: optionalText()
+});
+
+export const reviewReplyBody = z.object({ reply: text(2000) });
+
+// --- CARRINHO E CHECKOUT ---
+
+export const cartAddBody = z.object({
+    productId: id,
+    variantId: id.nullish(),
+    quantity: z.number().int().min(1).default(1)
+});
+
+export const cartUpdateBody = z.object({ quantity: z.number().int().min(1) });
+
+export const orderBody = z.object({
+    paymentMethod: text(50),
+    addressId: id,
+    couponCode: z.string().trim().max(30).optional(),
+    shippingService: z.string().trim().max(50).optional()
+});
+
+export const shippingQuoteBody = z.union([
+    z.object({ addressId: id }),
+    z.object({ zipCode, state })
+], { error: "Informe um endereço salvo (addressId) ou CEP e UF" });
+
+export const paymentIntentBody = z.object({ orderId: id });
+
+export const favoriteBody = z.object({ productId: id });
+
+// --- CUPONS ---
+
+// As regras entre campos (percentual até 100, datas, limites) ficam em parseCouponInput
+const couponFields = {
+    code: z.string().trim().min(1).max(30),
+    type: z.enum(COUPON_TYPES),
+    value: z.number().nonnegative().optional(),
+    description: z.string().max(500).nullish(),
+    maxDiscount: z.number().positive().nullish(),
+    minOrderValue: z.number().positive().nullish(),
+    productIds: z.array(id).optional(),
+    categoryIds: z.array(id).optional(),
+    startsAt: z.coerce.date().nullish(),
+    endsAt: z.coerce.date().nullish(),
+    usageLimit: z.number().int().positive().nullish(),
+    perUserLimit: z.number().int().positive().nullish(),
+    active: z.boolean().optional()
+};
+
+export const couponBody = z.object({ ...couponFields, shopId: id.nullish() });
+export const couponUpdateBody = z.object(couponFields).partial();
+export const couponPreviewBody = z.object({ code: z.string().trim().min(1, "Informe o cupom") });
+
+// --- PEDIDOS E ENVIOS ---
+
+export const orderStatusBody = z.object({
+    status: z.enum(ORDER_STATUSES, "Status de pedido inválido"),
+    note: optionalText(500),
+    carrier: z.string().trim().max(100).optional(),
+    trackingCode: z.string().trim().max(100).optional()
+});
+
+export const shipmentEventBody = z.object({
+    status: z.enum(SHIPMENT_EVENT_STATUSES, "Status de rastreio inválido"),
+    description: text(500),
+    location: optionalText(200),
+    occurredAt: z.coerce.date().optional()
+});
+
+// --- DEVOLUÇÕES ---
+
+// Enviado como multipart (com as fotos)
+export const returnBody = z.object({
+    orderItemId: id,
+    quantity: z.coerce.number().int().min(1, "Informe ao menos uma unidade").default(1),
+    reason: text(1000)
+});
+
+export const returnListQuery = z.object({
+    status: z.enum(['REQUESTED', ...RETURN_DECISIONS], "Status de devolução inválido").optional(),
+    ...paginationQuery.shape
+});
+
+export const returnDecisionBody = z.object({
+    status: z.enum(RETURN_DECISIONS, "Use APPROVED ou REJECTED"),
+    refundAmount: z.number().positive("Informe um reembolso maior que zero").optional(),
+    note: optionalText(500)
+}).refine(body => body.status === 'APPROVED' || body.note, {
+    message: "Informe o motivo da recusa",
+    path: ['note']
+}).refine(body => body.status === 'APPROVED' || body.refundAmount === undefined, {
+    message: "Reembolso só vale para devoluções aprovadas",
+    path: ['refundAmount']
+});
+
+// --- VENDEDOR ---
+
+export const analyticsQuery = z.object({
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use o formato AAAA-MM-DD").optional(),
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use o formato AAAA-MM-DD").optional(),
+    granularity: z.enum(GRANULARITIES).optional(),
+    tz: z.string().max(64).optional(),
+    format: z.enum(['json', 'csv']).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(10),
+    sort: z.enum(['revenue', 'units']).default('revenue')
+});
+
+export const shopEventsQuery = z.object({
+    token: z.string().optional(),
+    // Alternativa ao cabeçalho Last-Event-ID para clientes que não conseguem enviá-lo
+    lastEventId: z.coerce.number().int().nonnegative().optional()
+});
+
+export const payoutBody = z.object({ amount: z.number().positive("Informe um valor de saque maior que zero").optional() });
+
+// --- LOJAS, USUÁRIOS E ENDEREÇOS ---
+
+export const shopUpdateBody = z.object({
+    name: text().optional(),
+    description: optionalText(),
+    image: imageUrl.nullish()
+});
+
+export const commissionBody = z.object({ commissionRate });
+
+export const userUpdateBody = z.object({
+    name: text().optional(),
+    email: email.optional(),
+    password: password.optional(),
+    // Obrigatória para trocar o e-mail ou a senha
+    currentPassword: z.string().optional(),
+    phone: optionalText(20),
+    birthdate: optionalText(30)
+});
+
+export const accountDeleteBody = z.object({ password: z.string().min(1, "Confirme com a sua senha") });
+
+export const addressBody = z.object({ zipCode, ...addressFields, isPrimary: z.boolean().optional() });
+export const addressUpdateBody = addressBody.partial();
+
+// --- NOTIFICAÇÕES ---
+
+export const notificationListQuery = z.object({
+    unread: z.enum(['true', 'false']).optional(),
+    ...paginationQuery.shape
+});
+
+export const notificationUpdateBody = z.object({ read: z.boolean() });
+
+// Sem ids, marca todas as notificações do usuário
+export const notificationsReadBody = z.object({ ids: z.array(id).max(100).optional() });
+
+export const notificationPreferencesBody = z.object({
+    preferences: z.array(z.object({
+        type: z.enum(NOTIFICATION_TYPES, "Evento de notificação inválido"),
+        inApp: z.boolean().optional(),
+        email: z.boolean().optional()
+    })).min(1, "Informe ao menos uma preferência")
+});
+
+// --- ADMINISTRAÇÃO ---
+
+const dateOnly = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use o formato AAAA-MM-DD");
+
+export const adminShopListQuery = z.object({
+    status: z.enum(SHOP_STATUSES, "Status de loja inválido").optional(),
+    search: z.string().trim().max(200).optional(),
+    ...paginationQuery.shape
+});
+
+export const shopStatusBody = z.object({
+    status: z.enum(SHOP_DECISIONS, "Use ACTIVE ou SUSPENDED"),
+    reason: optionalText(500)
+}).refine(body => body.status === 'ACTIVE' || body.reason, {
+    message: "Informe o motivo da suspensão",
+    path: ['reason']
+});
+
+export const adminProductListQuery = z.object({
+    search: z.string().trim().max(200).optional(),
+    shopId: id.optional(),
+    unpublished: z.enum(['true', 'false']).optional(),
+    ...paginationQuery.shape
+});
+
+export const productPublicationBody = z.object({
+    published: z.boolean(),
+    reason: optionalText(500)
+}).refine(body => body.published || body.reason, {
+    message: "Informe o motivo, que será exibido ao vendedor",
+    path: ['reason']
+});
+
+export const adminUserListQuery = z.object({
+    search: z.string().trim().max(200).optional(),
+    role: z.enum(['CUSTOMER', 'SELLER', 'ADMIN'], "Perfil inválido").optional(),
+    ...paginationQuery.shape
+});
+
+// search aceita o número do pedido (#1A2B3C4D), o e-mail ou o nome do cliente
+export const adminOrderListQuery = z.object({
+    search: z.string().trim().max(200).optional(),
+    status: z.enum(ORDER_STATUSES, "Status de pedido inválido").optional(),
+    shopId: id.optional(),
+    customerId: id.optional(),
+    from: dateOnly.optional(),
+    to: dateOnly.optional(),
+    ...paginationQuery.shape
+});
+
+export const auditLogQuery = z.object({
+    action: z.enum(ADMIN_ACTIONS, "Ação inválida").optional(),
+    targetType: z.enum(AUDIT_TARGET_TYPES, "Tipo de alvo inválido").optional(),
+    targetId: id.optional(),
+    actorId: id.optional(),
+    ...paginationQuery.shape
+});
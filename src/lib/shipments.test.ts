@@ -0,0 +1,60 @@
+import 'dotenv/config';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { after, describe, test } from 'node:test';
+import prisma from './prisma.js';
+import { OrderStatusError, changeOrderStatus, changeShopOrderStatus } from './orderStatus.js';
+import { addTrackingEvent, shipShopOrder } from './shipments.js';
+import { createPendingOrder, database } from './testFixtures.js';
+
+// Pedido pago e postado pela loja
+async function createShippedOrder() {
+    const { order, seller } = await createPendingOrder();
+    const shopOrderId = order.shopOrders[0].id;
+
+    await prisma.order.update({ where: { id: order.id }, data: { paymentIntentId: `pi_${crypto.randomUUID()}`, paymentStatus: 'SUCCEEDED' } });
+    await changeOrderStatus({ orderId: order.id, to: 'TO_SHIP', actor: 'SYSTEM' });
+    await shipShopOrder({ shopOrderId, carrier: 'Correios', trackingCode: 'BR123', actorId: seller.id });
+
+    const shipment = await prisma.shipment.findUniqueOrThrow({ where: { shopOrderId } });
+    return { order, seller, shopOrderId, shipment };
+}
+
+const shopOrderStatus = async (id: string) => (await prisma.shopOrder.findUniqueOrThrow({ where: { id } })).status;
+
+describe('rastreio dos envios', () => {
+    after(() => prisma.$disconnect());
+
+    test('entrega informada pelo vendedor fica no rastreio sem marcar o pedido como entregue', database, async () => {
+        const { seller, shopOrderId, shipment } = await createShippedOrder();
+
+        const updated = await addTrackingEvent({ shipmentId: shipment.id, status: 'DELIVERED', description: "Entregue", source: 'SELLER', actorId: seller.id });
+
+        assert.ok(updated.events.some(event => event.status === 'DELIVERED'));
+        assert.equal(updated.deliveredAt, null);
+        assert.equal(await shopOrderStatus(shopOrderId), 'SHIPPED');
+        await assert.rejects(
+            changeShopOrderStatus({ shopOrderId, to: 'DELIVERED', actor: 'SELLER', actorId: seller.id }),
+            OrderStatusError
+        );
+    });
+
+    test('entrega informada pela transportadora marca o pedido como entregue na data do evento', database, async () => {
+        const { shopOrderId, shipment } = await createShippedOrder();
+        const occurredAt = new Date(Date.now() - 60 * 60 * 1000);
+
+        const updated = await addTrackingEvent({ shipmentId: shipment.id, status: 'DELIVERED', description: "Objeto entregue", occurredAt, source: 'SYSTEM' });
+
+        assert.deepEqual(updated.deliveredAt, occurredAt);
+        assert.equal(await shopOrderStatus(shopOrderId), 'DELIVERED');
+    });
+
+    test('cliente confirma o recebimento', database, async () => {
+        const { order, shopOrderId, shipment } = await createShippedOrder();
+
+        await changeOrderStatus({ orderId: order.id, to: 'DELIVERED', actor: 'CUSTOMER', actorId: order.customerId });
+
+        assert.equal(await shopOrderStatus(shopOrderId), 'DELIVERED');
+        assert.ok((await prisma.shipment.findUniqueOrThrow({ where: { id: shipment.id } })).deliveredAt);
+    });
+});
@@ -0,0 +1,72 @@
+import prisma from './prisma.js';
+import { applyShopOrderStatus } from './orderStatus.js';
+
+export const SHIPMENT_EVENT_STATUSES = ['POSTED', 'IN_TRANSIT', 'OUT_FOR_DELIVERY', 'DELIVERED', 'EXCEPTION'] as const;
+export type ShipmentEventStatus = typeof SHIPMENT_EVENT_STATUSES[number];
+
+export function isShipmentEventStatus(value: unknown): value is ShipmentEventStatus {
+    return SHIPMENT_EVENT_STATUSES.includes(value as ShipmentEventStatus);
+}
+
+type ShipInput = {
+    shopOrderId: string;
+    carrier: string;
+    trackingCode: string;
+    actorId: string;
+    note?: string;
+};
+
+// Marca a parte da loja como enviada e registra o rastreio na mesma transação:
+// se a transição for recusada, nenhum envio fica gravado
+export function shipShopOrder({ shopOrderId, carrier, trackingCode, actorId, note }: ShipInput) {
+    return prisma.$transaction(async (tx) => {
+        const order = await applyShopOrderStatus(tx, { shopOrderId, to: 'SHIPPED', actor: 'SELLER', actorId, note });
+
+        await tx.shipment.create({
+            data: {
+                shopOrderId,
+                carrier,
+                trackingCode,
+                events: { create: { status: 'POSTED', description: "Objeto postado" } }
+            }
+        });
+
+        return order;
+    });
+}
+
+type TrackingEventInput = {
+    shipmentId: string;
+    status: ShipmentEventStatus;
+    description: string;
+    location?: string | null;
+    occurredAt?: Date;
+    // SELLER: informado pelo vendedor; SYSTEM: vindo da transportadora
+    source: 'SELLER' | 'SYSTEM';
+    actorId?: string | null;
+};
+
+// Evento de rastreio. Só a entrega informada pela transportadora avança a parte da loja para
+// entregue (e começa a contar o prazo de repasse); a informada pelo vendedor fica no rastreio
+// até o cliente confirmar o recebimento
+export function addTrackingEvent({ shipmentId, status, description, location, occurredAt, source, actorId = null }: TrackingEventInput) {
+    return prisma.$transaction(async (tx) => {
+        const shipment = await tx.shipment.findUniqueOrThrow({ where: { id: shipmentId }, include: { shopOrder: true } });
+
+        await tx.shipmentEvent.create({
+            data: { shipmentId, status, description, location, occurredAt }
+        });
+
+        if (status === 'DELIVERED' && source === 'SYSTEM' && !shipment.deliveredAt) {
+            await tx.shipment.update({ where: { id: shipmentId }, data: { deliveredAt: occurredAt ?? new Date() } });
+            if (shipment.shopOrder.status === 'SHIPPED') {
+                await applyShopOrderStatus(tx, { shopOrderId: shipment.shopOrderId, to: 'DELIVERED', actor: 'SYSTEM', actorId });
+            }
+        }
+
+        return tx.shipment.findUniqueOrThrow({
+            where: { id: shipmentId },
+            include: { events: { orderBy: { occurredAt: 'asc' } } }
+        });
+    });
+}
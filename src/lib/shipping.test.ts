@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { ShippingError, TableShippingProvider, billableWeight, parseDestination, stateOfZipCode } from './shipping.js';
+
+const SP = { zipCode: '01001000', state: 'SP' };
+const box = { weight: 1, length: 10, width: 10, height: 10, quantity: 2 };
+
+describe('frete por tabela', () => {
+    const provider = new TableShippingProvider();
+
+    test('cobra pela faixa de distância entre a loja e o destino', async () => {
+        const sameState = await provider.quote({ origin: SP, destination: { zipCode: '13010000', state: 'sp' }, packages: [box] });
+        assert.deepEqual(sameState, [
+            { service: 'PAC', carrier: 'Correios', price: 16, days: 4 },
+            { service: 'SEDEX', carrier: 'Correios', price: 27, days: 1 }
+        ]);
+
+        const sameRegion = await provider.quote({ origin: SP, destination: { zipCode: '20040000', state: 'RJ' }, packages: [box] });
+        assert.deepEqual(sameRegion.map(option => option.price), [24, 38]);
+
+        const otherRegion = await provider.quote({ origin: SP, destination: { zipCode: '69005000', state: 'AM' }, packages: [box] });
+        assert.deepEqual(otherRegion.map(option => option.price), [35, 57]);
+    });
+
+    test('usa o estado da faixa do CEP, não o informado', async () => {
+        // CEP do Rio com UF errada no cadastro da loja e do cliente
+        const options = await provider.quote({
+            origin: { zipCode: '20040000', state: 'SP' },
+            destination: { zipCode: '22041001', state: 'MG' },
+            packages: [box]
+        });
+        assert.deepEqual(options.map(option => option.price), [16, 27]);
+
+        assert.equal(stateOfZipCode('69301-000'), 'RR');
+        assert.equal(stateOfZipCode('73750000'), 'GO');
+        assert.equal(stateOfZipCode('00100000'), undefined);
+    });
+
+    test('loja sem endereço cota como outra região', async () => {
+        const options = await provider.quote({ origin: null, destination: SP, packages: [box] });
+        assert.deepEqual(options.map(option => option.days), [10, 4]);
+    });
+
+    test('usa o peso cúbico quando a caixa pesa menos do que ocupa', async () => {
+        const bulky = { weight: 1, length: 60, width: 50, height: 40, quantity: 1 };
+        assert.equal(billableWeight([bulky]), 20);
+
+        const [pac] = await provider.quote({ origin: SP, destination: SP, packages: [bulky] });
+        assert.equal(pac.price, 52);
+    });
+
+    test('recusa CEP ou UF inválidos ou que não combinam', () => {
+        assert.deepEqual(parseDestination({ zipCode: '01001-000', state: ' sp ' }), SP);
+        assert.throws(() => parseDestination({ zipCode: '0100', state: 'SP' }), ShippingError);
+        assert.throws(() => parseDestination({ zipCode: '01001000', state: 'XX' }), ShippingError);
+        assert.throws(() => parseDestination({ zipCode: '20040000', state: 'SP' }), /não é do estado SP/);
+    });
+});
@@ -0,0 +1,208 @@
+import prisma from './prisma.js';
+import { roundMoney } from './checkout.js';
+
+export type ShippingDestination = {
+    zipCode: string;
+    state: string;
+};
+
+// Um volume por unidade vendida: peso em kg, medidas em cm
+export type ShippingPackage = {
+    weight: number;
+    length: number;
+    width: number;
+    height: number;
+    quantity: number;
+};
+
+export type ShippingQuoteRequest = {
+    origin: ShippingDestination | null;
+    destination: ShippingDestination;
+    packages: ShippingPackage[];
+};
+
+export type ShippingOption = {
+    service: string;
+    carrier: string;
+    price: number;
+    days: number;
+};
+
+// Qualquer transportadora ou agregador entra implementando esta interface
+export interface ShippingProvider {
+    name: string;
+    quote(request: ShippingQuoteRequest): Promise<ShippingOption[]>;
+}
+
+export class ShippingError extends Error {
+    constructor(public code: 'INVALID_DESTINATION', message: string) {
+        super(message);
+    }
+}
+
+const REGIONS: Record<string, string[]> = {
+    SUDESTE: ['SP', 'RJ', 'MG', 'ES'],
+    SUL: ['PR', 'SC', 'RS'],
+    CENTRO_OESTE: ['DF', 'GO', 'MT', 'MS'],
+    NORDESTE: ['BA', 'SE', 'AL', 'PE', 'PB', 'RN', 'CE', 'PI', 'MA'],
+    NORTE: ['TO', 'PA', 'AP', 'RR', 'AM', 'AC', 'RO']
+};
+
+export function regionOf(state: string) {
+    const uf = state.trim().toUpperCase();
+    return Object.keys(REGIONS).find(region => REGIONS[region].includes(uf));
+}
+
+export function normalizeZipCode(zipCode: string) {
+    return String(zipCode ?? '').replace(/\D/g, '');
+}
+
+// Faixas de CEP de cada UF (Correios), pelos 5 primeiros dígitos
+const ZIP_RANGES: [from: number, to: number, state: string][] = [
+    [1000, 19999, 'SP'], [20000, 28999, 'RJ'], [29000, 29999, 'ES'], [30000, 39999, 'MG'],
+    [40000, 48999, 'BA'], [49000, 49999, 'SE'], [50000, 56999, 'PE'], [57000, 57999, 'AL'],
+    [58000, 58999, 'PB'], [59000, 59999, 'RN'], [60000, 63999, 'CE'], [64000, 64999, 'PI'],
+    [65000, 65999, 'MA'], [66000, 68899, 'PA'], [68900, 68999, 'AP'], [69000, 69299, 'AM'],
+    [69300, 69399, 'RR'], [69400, 69899, 'AM'], [69900, 69999, 'AC'], [70000, 72799, 'DF'],
+    [72800, 72999, 'GO'], [73000, 73699, 'DF'], [73700, 76799, 'GO'], [76800, 76999, 'RO'],
+    [77000, 77999, 'TO'], [78000, 78899, 'MT'], [79000, 79999, 'MS'], [80000, 87999, 'PR'],
+    [88000, 89999, 'SC'], [90000, 99999, 'RS']
+];
+
+export function stateOfZipCode(zipCode: string) {
+    const digits = normalizeZipCode(zipCode);
+    if (digits.length !== 8) return undefined;
+
+    const prefix = Number(digits.slice(0, 5));
+    return ZIP_RANGES.find(([from, to]) => prefix >= from && prefix <= to)?.[2];
+}
+
+// A UF que vale para o frete é a da faixa do CEP; o state informado só conta se o CEP não cair em nenhuma
+function shippingState(place: ShippingDestination) {
+    return stateOfZipCode(place.zipCode) ?? place.state.trim().toUpperCase();
+}
+
+// Peso cobrado: o maior entre o real e o cúbico (fator 6000 dos Correios)
+export function billableWeight(packages: ShippingPackage[]) {
+    return packages.reduce((sum, pkg) => {
+        const cubic = (pkg.length * pkg.width * pkg.height) / 6000;
+        return sum + Math.max(pkg.weight, cubic) * pkg.quantity;
+    }, 0);
+}
+
+type TableRate = { base: number; perKg: number; days: number };
+type TableService = { service: string; carrier: string; sameState: TableRate; sameRegion: TableRate; otherRegion: TableRate };
+
+// Tabela fixa por faixa de distância (mesmo estado, mesma região, outra região), com o estado tirado do CEP
+const DEFAULT_TABLE: TableService[] = [
+    {
+        service: 'PAC',
+        carrier: 'Correios',
+        sameState: { base: 12, perKg: 2, days: 4 },
+        sameRegion: { base: 18, perKg: 3, days: 6 },
+        otherRegion: { base: 26, perKg: 4.5, days: 10 }
+    },
+    {
+        service: 'SEDEX',
+        carrier: 'Correios',
+        sameState: { base: 20, perKg: 3.5, days: 1 },
+        sameRegion: { base: 28, perKg: 5, days: 2 },
+        otherRegion: { base: 42, perKg: 7.5, days: 4 }
+    }
+];
+
+// Provedor local, sem chamadas externas: usado em desenvolvimento e nos testes
+export class TableShippingProvider implements ShippingProvider {
+    name = 'table';
+
+    constructor(private table: TableService[] = DEFAULT_TABLE) {}
+
+    async quote({ origin, destination, packages }: ShippingQuoteRequest) {
+        const weight = Math.ceil(billableWeight(packages));
+        const from = origin && shippingState(origin);
+        const to = shippingState(destination);
+        const sameState = from === to;
+        const sameRegion = from && regionOf(from) === regionOf(to);
+
+        return this.table.map(({ service, carrier, ...rates }) => {
+            const rate = sameState ? rates.sameState : sameRegion ? rates.sameRegion : rates.otherRegion;
+            return { service, carrier, price: roundMoney(rate.base + rate.perKg * weight), days: rate.days };
+        });
+    }
+}
+
+let provider: ShippingProvider = new TableShippingProvider();
+
+export function getShippingProvider() {
+    return provider;
+}
+
+export function setShippingProvider(next: ShippingProvider) {
+    provider = next;
+}
+
+export function parseDestination(input: { zipCode?: unknown; state?: unknown }): ShippingDestination {
+    const zipCode = normalizeZipCode(String(input.zipCode ?? ''));
+    const state = String(input.state ?? '').trim().toUpperCase();
+
+    if (zipCode.length !== 8) throw new ShippingError('INVALID_DESTINATION', "CEP inválido");
+    if (!regionOf(state)) throw new ShippingError('INVALID_DESTINATION', "Estado (UF) inválido");
+
+    const zipState = stateOfZipCode(zipCode);
+    if (!zipState) throw new ShippingError('INVALID_DESTINATION', "CEP inválido");
+    if (zipState !== state) throw new ShippingError('INVALID_DESTINATION', `O CEP informado não é do estado ${state}`);
+
+    return { zipCode, state };
+}
+
+export type ShopShippingQuote = {
+    shopId: string;
+    shopName: string;
+    options: ShippingOption[];
+};
+
+// Cota o frete de cada loja do carrinho separadamente: cada uma despacha do próprio endereço
+export async function quoteShops(items: { productId: string; quantity: number }[], destination: ShippingDestination) {
+    const products = await prisma.product.findMany({
+        where: { id: { in: items.map(item => item.productId) }, shopId: { not: null } },
+        include: {
+            shop: {
+                include: { user: { select: { addresses: { where: { isPrimary: true }, take: 1 } } } }
+            }
+        }
+    });
+    const productsById = new Map(products.map(p => [p.id, p]));
+
+    const byShop = new Map<string, { shopName: string; origin: ShippingDestination | null; packages: ShippingPackage[] }>();
+    for (const item of items) {
+        const product = productsById.get(item.productId);
+        if (!product?.shop) continue;
+
+        const group = byShop.get(product.shop.id) ?? {
+            shopName: product.shop.name,
+            origin: product.shop.user.addresses[0] ?? null,
+            packages: []
+        };
+        group.packages.push({
+            weight: product.weight,
+            length: product.length,
+            width: product.width,
+            height: product.height,
+            quantity: item.quantity
+        });
+        byShop.set(product.shop.id, group);
+    }
+
+    const quotes: ShopShippingQuote[] = [];
+    for (const [shopId, { shopName, origin, packages }] of byShop) {
+        const options = await provider.quote({ origin, destination, packages });
+        quotes.push({ shopId, shopName, options: options.sort((a, b) => a.price - b.price) });
+    }
+    return quotes;
+}
+
+// Serviço escolhido pelo cliente ou, sem escolha, o mais barato
+export function pickShippingOption(options: ShippingOption[], service?: string | null) {
+    if (!service) return options[0];
+    return options.find(option => option.service.toUpperCase() === service.toUpperCase());
+}
@@ -0,0 +1,84 @@
+import prisma from './prisma.js';
+import type { Prisma, ShopEvent, ShopEventType } from '../generated/prisma/client/client.js';
+
+const POLL_MS = Number(process.env.SHOP_EVENTS_POLL_MS ?? 1000);
+const BATCH_SIZE = 200;
+const RETENTION_DAYS = 7;
+// Uma transação que começou antes pode confirmar um id menor depois que um maior já foi
+// entregue; relemos esta janela para não perder esses eventos
+const LATE_COMMIT_MS = 30 * 1000;
+
+// Gravado na mesma transação da mudança: o painel só recebe o que foi de fato confirmado
+export async function publishShopEvent(tx: Prisma.TransactionClient, shopId: string, type: ShopEventType, data: Prisma.InputJsonObject) {
+    await tx.shopEvent.create({ data: { shopId, type, data } });
+}
+
+// Acompanha os eventos de uma loja a partir de lastEventId (ou dos próximos, sem ele) e chama
+// send para cada um em ordem de id. Cada conexão consulta a tabela, então qualquer instância
+// da API entrega eventos gravados por qualquer outra
+export async function openShopEventStream(shopId: string, lastEventId: number | null, send: (event: ShopEvent) => void) {
+    const lateSince = () => new Date(Date.now() - LATE_COMMIT_MS);
+
+    let lastId = lastEventId ?? (await prisma.shopEvent.aggregate({ where: { shopId }, _max: { id: true } }))._max.id ?? 0;
+
+    // Eventos recentes já entregues (ou anteriores à conexão), para a releitura da janela não repetir
+    const seen = new Map<number, Date>();
+    const recent = await prisma.shopEvent.findMany({
+        where: { shopId, id: { lte: lastId }, createdAt: { gte: lateSince() } },
+        select: { id: true, createdAt: true }
+    });
+    for (const event of recent) seen.set(event.id, event.createdAt);
+
+    let closed = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    const poll = async () => {
+        try {
+            // Atrasados da janela e novos em consultas separadas: com a janela cheia de eventos já
+            // entregues, um lote único ficaria sem espaço para os novos
+            const late = await prisma.shopEvent.findMany({
+                where: { shopId, id: { lte: lastId, notIn: [...seen.keys()] }, createdAt: { gte: lateSince() } },
+                orderBy: { id: 'asc' },
+                take: BATCH_SIZE
+            });
+            const fresh = await prisma.shopEvent.findMany({
+                where: { shopId, id: { gt: lastId } },
+                orderBy: { id: 'asc' },
+                take: BATCH_SIZE
+            });
+
+            for (const event of [...late, ...fresh]) {
+                if (closed || seen.has(event.id)) continue;
+                seen.set(event.id, event.createdAt);
+                lastId = Math.max(lastId, event.id);
+                send(event);
+            }
+
+            const limit = lateSince();
+            for (const [id, createdAt] of seen) {
+                if (createdAt < limit) seen.delete(id);
+            }
+        } catch (error) {
+            console.error(`❌ Erro ao ler eventos da loja ${shopId}:`, error);
+        }
+
+        if (!closed) timer = setTimeout(poll, POLL_MS);
+    };
+
+    await poll();
+
+    return {
+        close() {
+            closed = true;
+            clearTimeout(timer);
+        }
+    };
+}
+
+// Quem ficar offline por mais tempo que isso recarrega o painel em vez de receber o replay
+export async function pruneShopEvents() {
+    const { count } = await prisma.shopEvent.deleteMany({
+        where: { createdAt: { lt: new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000) } }
+    });
+    return count;
+}
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import sharp from 'sharp';
+import { IMAGE_SIZES, LocalStorage } from './storage.js';
+
+const PUBLIC_URL = 'http://localhost:3333/media';
+
+describe('armazenamento em disco local', () => {
+    let dir: string;
+    let source: string;
+    let storage: LocalStorage;
+
+    before(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'insinuante-storage-'));
+        storage = new LocalStorage(path.join(dir, 'media'), PUBLIC_URL);
+
+        // Foto retangular maior que o tamanho de exibição
+        source = path.join(dir, 'foto.png');
+        await sharp({ create: { width: 2400, height: 1200, channels: 3, background: '#c0392b' } }).png().toFile(source);
+    });
+
+    after(() => fs.rm(dir, { recursive: true, force: true }));
+
+    test('grava o tamanho de exibição e a miniatura em WebP', async () => {
+        const image = await storage.save(source, 'products');
+
+        assert.match(image.key, /^products\/[0-9a-f-]{36}$/);
+        assert.equal(image.url, `${PUBLIC_URL}/${image.key}.webp`);
+        assert.equal(image.thumbnailUrl, `${PUBLIC_URL}/${image.key}_thumb.webp`);
+
+        const display = await sharp(path.join(storage.dir, `${image.key}.webp`)).metadata();
+        assert.deepEqual([display.format, display.width, display.height], ['webp', IMAGE_SIZES.display, IMAGE_SIZES.display / 2]);
+
+        const thumbnail = await sharp(path.join(storage.dir, `${image.key}_thumb.webp`)).metadata();
+        assert.deepEqual([thumbnail.width, thumbnail.height], [IMAGE_SIZES.thumbnail, IMAGE_SIZES.thumbnail]);
+    });
+
+    test('só reconhece URLs geradas por ele mesmo', async () => {
+        const image = await storage.save(source, 'shops');
+
+        assert.equal(storage.keyOf(image.url), image.key);
+        assert.equal(storage.keyOf(image.thumbnailUrl), image.key);
+        assert.equal(storage.keyOf('https://placehold.co/400'), null);
+        assert.equal(storage.keyOf(`${PUBLIC_URL}/../../etc/passwd.webp`), null);
+        assert.equal(storage.thumbnailOf('https://placehold.co/400'), 'https://placehold.co/400');
+    });
+
+    test('remove o arquivo e a miniatura', async () => {
+        const image = await storage.save(source, 'products');
+        await storage.remove(image.key);
+
+        const left = await fs.readdir(path.join(storage.dir, 'products'));
+        assert.ok(!left.some(file => file.startsWith(image.key.split('/')[1])));
+
+        // Apagar de novo não é erro: a limpeza de órfãos pode repetir a chave
+        await storage.remove(image.key);
+    });
+});
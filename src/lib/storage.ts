@@ -0,0 +1,77 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+
+// Maior lado, em pixels, de cada tamanho gerado no upload
+export const IMAGE_SIZES = { display: 1600, thumbnail: 400 };
+
+export type StoredImage = {
+    key: string;
+    url: string;
+    thumbnailUrl: string;
+};
+
+// Qualquer serviço de arquivos (Cloudinary, S3, disco) entra implementando esta interface
+export interface MediaStorage {
+    name: string;
+    save(filePath: string, folder: string): Promise<StoredImage>;
+    // Chave do arquivo a que a URL pertence; null quando a URL não é deste armazenamento (ex: placeholder)
+    keyOf(url: string): string | null;
+    thumbnailOf(url: string): string;
+    // Apaga o arquivo e todos os tamanhos gerados a partir dele
+    remove(key: string): Promise<void>;
+}
+
+// Disco local: para desenvolvimento e testes sem acesso ao Cloudinary.
+// Os arquivos são servidos pela própria API em /media
+export class LocalStorage implements MediaStorage {
+    name = 'local';
+
+    constructor(public dir: string, private publicUrl: string) {}
+
+    async save(filePath: string, folder: string) {
+        const key = `${folder}/${randomUUID()}`;
+        await fs.mkdir(path.join(this.dir, folder), { recursive: true });
+
+        // rotate() aplica a orientação do EXIF antes de redimensionar
+        const image = sharp(filePath).rotate();
+        await Promise.all([
+            image.clone()
+                .resize(IMAGE_SIZES.display, IMAGE_SIZES.display, { fit: 'inside', withoutEnlargement: true })
+                .webp({ quality: 82 })
+                .toFile(this.pathOf(key)),
+            image.clone()
+                .resize(IMAGE_SIZES.thumbnail, IMAGE_SIZES.thumbnail, { fit: 'cover' })
+                .webp({ quality: 75 })
+                .toFile(this.pathOf(key, '_thumb'))
+        ]);
+
+        const url = `${this.publicUrl}/${key}.webp`;
+        return { key, url, thumbnailUrl: this.thumbnailOf(url) };
+    }
+
+    keyOf(url: string) {
+        if (!url.startsWith(`${this.publicUrl}/`)) return null;
+        const key = url.slice(this.publicUrl.length + 1).replace(/(_thumb)?\.webp$/, '');
+
+        // Só aceita chaves geradas aqui, para uma URL forjada não apontar para fora da pasta
+        return /^[\w-]+\/[0-9a-f-]{36}$/.test(key) ? key : null;
+    }
+
+    thumbnailOf(url: string) {
+        const key = this.keyOf(url);
+        return key ? `${this.publicUrl}/${key}_thumb.webp` : url;
+    }
+
+    async remove(key: string) {
+        await Promise.all([
+            fs.rm(this.pathOf(key), { force: true }),
+            fs.rm(this.pathOf(key, '_thumb'), { force: true })
+        ]);
+    }
+
+    private pathOf(key: string, suffix = '') {
+        return path.join(this.dir, `${key}${suffix}.webp`);
+    }
+}
@@ -0,0 +1,8 @@
+import Stripe from 'stripe';
+import 'dotenv/config';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+    apiVersion: '2025-12-15.clover'
+});
+
+export default stripe;
@@ -0,0 +1,52 @@
+import crypto from 'node:crypto';
+import prisma from './prisma.js';
+import { placeOrder } from './checkout.js';
+
+// Os casos que gravam pedidos precisam de um banco descartável com as migrations aplicadas
+export const database = { skip: process.env.DATABASE_URL ? false : "DATABASE_URL não configurada" };
+
+// Cliente com um pedido aguardando pagamento de uma loja aprovada, feito pelo checkout de verdade.
+// O produto começa com 5 unidades e o pedido leva 2
+export async function createPendingOrder() {
+    const suffix = crypto.randomUUID();
+
+    const seller = await prisma.user.create({
+        data: {
+            name: 'Vendedora',
+            email: `vendedora-${suffix}@teste.invalid`,
+            password: '-',
+            role: 'SELLER',
+            shop: { create: { name: `Loja ${suffix}`, status: 'ACTIVE' } }
+        },
+        include: { shop: true }
+    });
+    const product = await prisma.product.create({
+        data: {
+            name: 'Vestido',
+            description: 'Vestido de teste',
+            price: 50,
+            stock: 5,
+            image: 'https://placehold.co/400',
+            shop: { connect: { id: seller.shop!.id } },
+            category: { create: { name: `Teste ${suffix}`, slug: `teste-${suffix}` } }
+        }
+    });
+
+    const customer = await prisma.user.create({
+        data: {
+            name: 'Cliente',
+            email: `cliente-${suffix}@teste.invalid`,
+            password: '-',
+            addresses: {
+                create: { street: 'Rua A', number: '1', neighborhood: 'Centro', city: 'São Paulo', state: 'SP', zipCode: '01001000' }
+            },
+            cartItems: {
+                create: { productId: product.id, name: product.name, price: product.price, quantity: 2, image: product.image }
+            }
+        },
+        include: { addresses: true }
+    });
+
+    const order = await placeOrder({ customerId: customer.id, paymentMethod: 'card', addressId: customer.addresses[0].id });
+    return { order, product, seller };
+}
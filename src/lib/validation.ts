@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import type { NextFunction, Request, Response } from 'express';
+import { ApiError, zodDetails } from './errors.js';
+import type { ErrorDetail } from './errors.js';
+
+// Mensagens padrão do zod em português
+z.config(z.locales.pt());
+
+export type RequestSchemas = {
+    params?: z.ZodType;
+    query?: z.ZodType;
+    body?: z.ZodType;
+};
+
+// Valida params, query e body antes do handler. Os valores convertidos (números, datas,
+// textos aparados) substituem os originais; campos fora do schema são descartados.
+// Os schemas ficam presos ao middleware para a documentação (src/lib/openapi.ts) encontrá-los
+export function validate(schemas: RequestSchemas) {
+    const middleware = (req: Request, res: Response, next: NextFunction) => {
+        const details: ErrorDetail[] = [];
+
+        for (const location of ['params', 'query', 'body'] as const) {
+            const schema = schemas[location];
+            if (!schema) continue;
+
+            const result = schema.safeParse(req[location] ?? {});
+            if (!result.success) {
+                details.push(...zodDetails(result.error, location));
+                continue;
+            }
+
+            // No Express 5 req.query é um getter; redefinimos a propriedade na própria requisição
+            Object.defineProperty(req, location, { value: result.data, writable: true, enumerable: true, configurable: true });
+        }
+
+        if (details.length > 0) return next(new ApiError(400, 'VALIDATION_ERROR', "Dados inválidos", details));
+        next();
+    };
+    return Object.assign(middleware, { schemas });
+}
@@ -0,0 +1,128 @@
+import { moveStock, setStock } from './inventory.js';
+import type { Prisma } from '../generated/prisma/client/client.js';
+
+export type VariantInput = {
+    id?: string;
+    options: Record<string, string>;
+    sku: string | null;
+    price: number | null;
+    stock: number;
+    image: string | null;
+};
+
+export class VariantInputError extends Error {}
+
+// "M / Vermelho" a partir de { tamanho: "M", cor: "Vermelho" }
+export function variantName(options: Record<string, string>) {
+    return Object.values(options).join(' / ');
+}
+
+// Aceita o array já parseado (JSON) ou a string enviada via multipart
+export function parseVariants(raw: unknown): VariantInput[] | undefined {
+    if (raw === undefined || raw === null || raw === '') return undefined;
+
+    let list: unknown;
+    try {
+        list = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    } catch {
+        throw new VariantInputError("O campo variants deve ser um JSON válido");
+    }
+
+    if (!Array.isArray(list)) throw new VariantInputError("O campo variants deve ser uma lista");
+
+    return list.map((item, index) => {
+        const position = `Variante ${index + 1}`;
+        const options = item?.options;
+
+        if (!options || typeof options !== 'object' || Array.isArray(options) || Object.keys(options).length === 0) {
+            throw new VariantInputError(`${position}: informe ao menos uma opção (ex: tamanho, cor)`);
+        }
+        if (Object.values(options).some(value => typeof value !== 'string' || !value.trim())) {
+            throw new VariantInputError(`${position}: os valores das opções devem ser textos`);
+        }
+
+        const stock = Number(item.stock ?? 0);
+        if (!Number.isInteger(stock) || stock < 0) {
+            throw new VariantInputError(`${position}: estoque deve ser um inteiro maior ou igual a zero`);
+        }
+
+        const price = item.price === undefined || item.price === null || item.price === '' ? null : Number(item.price);
+        if (price !== null && (!Number.isFinite(price) || price <= 0)) {
+            throw new VariantInputError(`${position}: preço inválido`);
+        }
+
+        return {
+            id: typeof item.id === 'string' ? item.id : undefined,
+            options: options as Record<string, string>,
+            sku: item.sku ? String(item.sku).trim() : null,
+            price,
+            stock,
+            image: item.image ? String(item.image) : null
+        };
+    });
+}
+
+// Quem mexe no estoque pelas variantes: IMPORT no cadastro, ADJUSTMENT na edição
+type StockActor = { actorId: string; type: 'IMPORT' | 'ADJUSTMENT' };
+
+// Substitui as variantes do produto pela lista enviada: atualiza as que vierem com id,
+// cria as novas e desativa as que sumiram (pedidos antigos continuam apontando para elas).
+// O estoque de cada uma muda por movimentos, para ficar no histórico
+export async function syncProductVariants(tx: Prisma.TransactionClient, productId: string, variants: VariantInput[], { actorId, type }: StockActor) {
+    const existing = await tx.productVariant.findMany({ where: { productId } });
+    const existingIds = new Set(existing.map(v => v.id));
+    const keep: string[] = [];
+
+    // Produto que passa a ter variantes: o estoque próprio sai e entra o de cada variante
+    if (variants.length > 0 && !existing.some(v => v.active)) {
+        const { stock } = await tx.product.findUniqueOrThrow({ where: { id: productId }, select: { stock: true } });
+        if (stock > 0) {
+            await moveStock(tx, { productId, type, quantity: -stock, actorId, note: "Estoque passa a ser controlado pelas variantes" });
+        }
+    }
+
+    for (const variant of variants) {
+        const data = {
+            options: variant.options,
+            name: variantName(variant.options),
+            sku: variant.sku,
+            price: variant.price,
+            image: variant.image,
+            active: true
+        };
+
+        let variantId = variant.id;
+        if (variantId && existingIds.has(variantId)) {
+            await tx.productVariant.update({ where: { id: variantId }, data });
+        } else {
+            variantId = (await tx.productVariant.create({ data: { ...data, productId } })).id;
+        }
+
+        keep.push(variantId);
+        await setStock(tx, { productId, variantId, stock: variant.stock, type, actorId });
+    }
+
+    for (const removed of existing.filter(v => v.active && v.stock > 0 && !keep.includes(v.id))) {
+        await moveStock(tx, { productId, variantId: removed.id, type, quantity: -removed.stock, actorId, note: "Variante removida" });
+    }
+
+    await tx.productVariant.updateMany({
+        where: { productId, id: { notIn: keep } },
+        data: { active: false }
+    });
+
+    await refreshProductStock(tx, productId);
+}
+
+// Mantém Product.stock como a soma das variantes ativas (quando houver alguma)
+export async function refreshProductStock(tx: Prisma.TransactionClient, productId: string) {
+    const { _sum, _count } = await tx.productVariant.aggregate({
+        where: { productId, active: true },
+        _sum: { stock: true },
+        _count: { _all: true }
+    });
+
+    if (_count._all > 0) {
+        await tx.product.update({ where: { id: productId }, data: { stock: _sum.stock ?? 0 } });
+    }
+}
@@ -0,0 +1,55 @@
+import 'dotenv/config';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { after, describe, test } from 'node:test';
+import prisma from './prisma.js';
+import { updatePreferences } from './notifications.js';
+import { createPendingOrder, database } from './testFixtures.js';
+import { trackProductChanges } from './wishlist.js';
+
+async function createWatcher(productId: string) {
+    return prisma.user.create({
+        data: {
+            name: 'Fã',
+            email: `fa-${crypto.randomUUID()}@teste.invalid`,
+            password: '-',
+            favorites: { create: { productId, priceAtFavorite: 50 } }
+        }
+    });
+}
+
+// O vendedor baixa o preço de 50 para 40
+async function dropPrice(productId: string) {
+    await prisma.$transaction(async (tx) => {
+        await tx.product.update({ where: { id: productId }, data: { price: 40 } });
+        await trackProductChanges(tx, productId, { price: 50, stock: 3 });
+    });
+}
+
+describe('alertas da lista de desejos', () => {
+    after(() => prisma.$disconnect());
+
+    test('só conta o intervalo entre alertas para quem foi avisado', database, async () => {
+        const { product } = await createPendingOrder();
+        const optedIn = await createWatcher(product.id);
+        const optedOut = await createWatcher(product.id);
+
+        await updatePreferences(optedIn.id, [{ type: 'PRICE_DROP', inApp: true }]);
+        await dropPrice(product.id);
+
+        const favorites = await prisma.favorite.findMany({ where: { productId: product.id } });
+        const favoriteOf = (userId: string) => favorites.find(favorite => favorite.userId === userId)!;
+
+        assert.ok(favoriteOf(optedIn.id).lastPriceAlertAt);
+        assert.equal(favoriteOf(optedOut.id).lastPriceAlertAt, null);
+        assert.equal(await prisma.notification.count({ where: { userId: optedIn.id, type: 'PRICE_DROP' } }), 1);
+        assert.equal(await prisma.notification.count({ where: { userId: optedOut.id } }), 0);
+
+        // Quem liga o alerta depois recebe a próxima baixa
+        await updatePreferences(optedOut.id, [{ type: 'PRICE_DROP', inApp: true }]);
+        await dropPrice(product.id);
+
+        assert.equal(await prisma.notification.count({ where: { userId: optedOut.id, type: 'PRICE_DROP' } }), 1);
+        assert.equal(await prisma.notification.count({ where: { userId: optedIn.id, type: 'PRICE_DROP' } }), 1);
+    });
+});
@@ -0,0 +1,107 @@
+import prisma from './prisma.js';
+import { roundMoney } from './checkout.js';
+import { notifyMany } from './notifications.js';
+import type { Prisma } from '../generated/prisma/client/client.js';
+
+// Intervalo mínimo entre dois alertas do mesmo tipo sobre o mesmo produto para o mesmo usuário,
+// para que edições seguidas do vendedor não virem uma enxurrada de avisos
+export const ALERT_COOLDOWN_HOURS = Number(process.env.WISHLIST_ALERT_COOLDOWN_HOURS ?? 24);
+
+// Pontos do histórico de preço devolvidos com cada favorito
+const PRICE_HISTORY_LIMIT = 30;
+
+const formatPrice = (value: number) => `R$ ${value.toFixed(2)}`;
+
+type WatchAlert = {
+    type: 'PRICE_DROP' | 'BACK_IN_STOCK';
+    title: string;
+    body: string;
+    data: Prisma.InputJsonObject;
+};
+
+// Avisa quem favoritou o produto e ainda não recebeu este tipo de alerta dentro do intervalo.
+// O intervalo só começa a contar para quem foi avisado de fato: quem desligou o alerta nas
+// preferências continua elegível se religar
+async function alertWatchers(tx: Prisma.TransactionClient, productId: string, { type, ...message }: WatchAlert) {
+    const cutoff = new Date(Date.now() - ALERT_COOLDOWN_HOURS * 60 * 60 * 1000);
+    const due = type === 'PRICE_DROP'
+        ? { OR: [{ lastPriceAlertAt: null }, { lastPriceAlertAt: { lt: cutoff } }] }
+        : { OR: [{ lastStockAlertAt: null }, { lastStockAlertAt: { lt: cutoff } }] };
+
+    const watchers = await tx.favorite.findMany({ where: { productId, ...due }, select: { id: true, userId: true } });
+    if (watchers.length === 0) return;
+
+    const notified = await notifyMany(tx, watchers.map(watcher => watcher.userId), { type, ...message });
+    if (notified.length === 0) return;
+
+    await tx.favorite.updateMany({
+        where: { id: { in: watchers.filter(watcher => notified.includes(watcher.userId)).map(watcher => watcher.id) } },
+        data: type === 'PRICE_DROP' ? { lastPriceAlertAt: new Date() } : { lastStockAlertAt: new Date() }
+    });
+}
+
+type ProductSnapshot = { price: number; stock: number };
+
+// Compara o produto com o estado de antes da edição: registra o preço novo no histórico e avisa
+// quem favoritou se o preço baixou ou se o estoque voltou. Chamar no fim da transação da edição
+export async function trackProductChanges(tx: Prisma.TransactionClient, productId: string, before: ProductSnapshot) {
+    const product = await tx.product.findUniqueOrThrow({
+        where: { id: productId },
+        select: { name: true, price: true, stock: true }
+    });
+
+    if (product.price !== before.price) {
+        await tx.priceHistory.create({ data: { productId, price: product.price } });
+    }
+
+    if (product.price < before.price) {
+        await alertWatchers(tx, productId, {
+            type: 'PRICE_DROP',
+            title: "Seu favorito baixou de preço",
+            body: `${product.name} baixou de ${formatPrice(before.price)} para ${formatPrice(product.price)}.`,
+            data: { productId, oldPrice: before.price, price: product.price }
+        });
+    }
+
+    if (before.stock <= 0 && product.stock > 0) {
+        await alertWatchers(tx, productId, {
+            type: 'BACK_IN_STOCK',
+            title: "Seu favorito voltou ao estoque",
+            body: `${product.name} está disponível de novo.`,
+            data: { productId }
+        });
+    }
+}
+
+// Favoritos com o produto, o histórico de preço e quanto o preço mudou desde que foi favoritado
+export async function wishlistDetails(userId: string) {
+    const favorites = await prisma.favorite.findMany({
+        where: { userId },
+        include: {
+            product: {
+                include: {
+                    priceHistory: {
+                        select: { price: true, createdAt: true },
+                        orderBy: { createdAt: 'desc' },
+                        take: PRICE_HISTORY_LIMIT
+                    }
+                }
+            }
+        },
+        orderBy: { createdAt: 'desc' }
+    });
+
+    return favorites.map(({ product: { priceHistory, ...product }, priceAtFavorite, createdAt }) => {
+        const priceChange = priceAtFavorite === null ? null : roundMoney(product.price - priceAtFavorite);
+
+        return {
+            ...product,
+            favoritedAt: createdAt,
+            priceAtFavorite,
+            priceChange,
+            // Em %, com uma casa (-12.5 = 12,5% mais barato)
+            priceChangePercent: priceChange === null || !priceAtFavorite ? null : Math.round(priceChange / priceAtFavorite * 1000) / 10,
+            priceHistory: priceHistory.reverse()
+        };
+    });
+}
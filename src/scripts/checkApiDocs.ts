@@ -0,0 +1,19 @@
+import { buildOpenApiDocument, undocumentedRoutes } from '../lib/openapi.js';
+
+// Falha quando alguma rota do src/server.ts não está descrita em src/lib/apiDocs.ts.
+// Só monta o app: nenhuma chamada ao banco ou ao Stripe é feita, mas o SDK exige uma chave
+process.env.STRIPE_SECRET_KEY ||= 'sk_test_docs';
+const { default: app } = await import('../server.js');
+
+const problems = undocumentedRoutes(app);
+
+if (problems.length > 0) {
+    console.error(`❌ ${problems.length} rota(s) sem documentação:`);
+    for (const problem of problems) console.error(`   - ${problem}`);
+    process.exit(1);
+}
+
+// Gerar o documento completo também pega schemas que o zod não consegue converter
+const document = buildOpenApiDocument(app);
+console.log(`✅ ${Object.keys(document.paths).length} caminhos documentados em /openapi.json`);
+process.exit(0);
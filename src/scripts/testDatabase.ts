@@ -0,0 +1,50 @@
+import { spawn } from 'node:child_process';
+import fs from 'node:fs';
+import net from 'node:net';
+import path from 'node:path';
+import { PGlite } from '@electric-sql/pglite';
+import { pg_trgm } from '@electric-sql/pglite/contrib/pg_trgm';
+import { unaccent } from '@electric-sql/pglite/contrib/unaccent';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+
+// Roda os testes de src/lib contra um PostgreSQL em memória (PGlite) com as migrations aplicadas,
+// para que os casos que gravam pedidos não sejam pulados onde não há banco (ex: no CI).
+// Argumentos extras vão para o node --test (ex: um arquivo só)
+const MIGRATIONS_DIR = 'prisma/migrations';
+
+const db = await PGlite.create({ extensions: { unaccent, pg_trgm } });
+
+const migrations = fs.readdirSync(MIGRATIONS_DIR).filter(name => /^\d/.test(name)).sort();
+for (const name of migrations) {
+    try {
+        await db.exec(fs.readFileSync(path.join(MIGRATIONS_DIR, name, 'migration.sql'), 'utf8'));
+    } catch (error) {
+        console.error(`❌ Migration ${name} falhou:`, (error as Error).message);
+        process.exit(1);
+    }
+}
+
+// Porta livre escolhida pelo sistema, para não colidir com um PostgreSQL local
+const port = await new Promise<number>(resolve => {
+    const probe = net.createServer().listen(0, '127.0.0.1', () => {
+        const { port } = probe.address() as net.AddressInfo;
+        probe.close(() => resolve(port));
+    });
+});
+
+const server = new PGLiteSocketServer({ db, port, host: '127.0.0.1', maxConnections: 20 });
+await server.start();
+console.log(`🧪 ${migrations.length} migrations aplicadas no banco em memória`);
+
+// Um arquivo por vez: o PGlite atende uma consulta de cada vez
+const files = process.argv.length > 2 ? process.argv.slice(2) : ['src/lib/*.test.ts'];
+const tests = spawn('npx', ['tsx', '--test', '--test-concurrency=1', ...files], {
+    stdio: 'inherit',
+    shell: true,
+    env: { ...process.env, DATABASE_URL: `postgres://postgres@127.0.0.1:${port}/postgres` }
+});
+
+const code = await new Promise<number>(resolve => tests.on('exit', code => resolve(code ?? 1)));
+await server.stop();
+await db.close();
+process.exit(code);
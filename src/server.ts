@@ -1,56 +1,126 @@
-import fs from 'fs';
 import express from 'express';
 import cors from 'cors';
-import multer from 'multer';
-import { Pool } from 'pg';
+import { pathToFileURL } from 'url';
 import 'dotenv/config';
-import Stripe from 'stripe';
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-    apiVersion: '2025-12-15.clover'
-});
 
 // Importações com .js devido ao NodeNext
-import cloudinary from './lib/cloudinary.js';
-import { PrismaClient } from './generated/prisma/client/client.js';
-import { PrismaPg } from '@prisma/adapter-pg';
+import prisma from './lib/prisma.js';
+import { ReviewError, createReview, findReviewableItems } from './lib/reviews.js';
+import { paginated, parsePagination } from './lib/pagination.js';
+import { MediaError, deleteMedia, getStorage, receiveImages, saveImages, sweepTempUploads, uploadedFiles } from './lib/media.js';
+import { LocalStorage } from './lib/storage.js';
+import { searchProducts } from './lib/catalog.js';
+import { ancestorsOf, descendantIds, findCategory, loadCategoryTree, resolveCategoryId, slugify } from './lib/categories.js';
+import { VariantInputError, parseVariants, syncProductVariants } from './lib/variants.js';
+import { InventoryError, adjustStock, lockStockVersion, lowStockItems, moveStock, reservationDeadline, setStock } from './lib/inventory.js';
+import type { AdminAction, AuditTargetType, OrderStatus, ReturnStatus, Role, ShopStatus } from './generated/prisma/client/client.js';
+import { CheckoutError, placeOrder, roundMoney } from './lib/checkout.js';
+import { CartError, addToCart, getCart, mergeGuestCart, newCartToken, removeCartItem, updateCartItemQuantity } from './lib/cart.js';
+import type { CartOwner } from './lib/cart.js';
+import { CouponError, CouponInputError, parseCouponInput, previewCoupon } from './lib/coupons.js';
+import { ShippingError, parseDestination, quoteShops } from './lib/shipping.js';
+import { addTrackingEvent, shipShopOrder } from './lib/shipments.js';
+import { AnalyticsQueryError, favoritesConversion, lastDaysRange, parseAnalyticsQuery, platformCommission, platformSales, salesReport, topProducts } from './lib/analytics.js';
+import type { AnalyticsRange } from './lib/analytics.js';
+import { toCsv } from './lib/csv.js';
+import type { CsvColumn } from './lib/csv.js';
+import { PAYOUT_HOLD_DAYS, PayoutError, getShopBalance, releaseMaturedFunds, requestPayout } from './lib/ledger.js';
+import { OrderStatusError, allowedTransitions, applyOrderStatus, changeShopOrderStatus } from './lib/orderStatus.js';
+import { StripeRefundProvider, cancelExpiredReservations, cancelPendingPayment, constructWebhookEvent, createPaymentIntentForOrder, handleStripeEvent } from './lib/payments.js';
+import { processPendingRefunds, setRefundProvider } from './lib/refunds.js';
+import { trackProductChanges, wishlistDetails } from './lib/wishlist.js';
+import { RETURN_INCLUDE, ReturnError, decideReturn, requestReturn } from './lib/returns.js';
+import {
+    AccountError, deleteAccount, exportUserData, publicUser, requestEmailVerification, requestPasswordReset,
+    resetPassword, sendEmailVerification, updateProfile, verifyEmail
+} from './lib/account.js';
+import { ModerationError, isListed, setProductPublication, setShopStatus } from './lib/moderation.js';
+import { recordAdminAction } from './lib/audit.js';
+import { ApiError, errorHandler, routeNotFound } from './lib/errors.js';
+import { validate } from './lib/validation.js';
+import * as schema from './lib/schemas.js';
+import { buildOpenApiDocument, docsPage } from './lib/openapi.js';
+import { deliverPendingEmails, getPreferences, orderNumber, updatePreferences } from './lib/notifications.js';
+import { getMailer } from './lib/mailer.js';
+import { openShopEventStream, pruneShopEvents } from './lib/shopEvents.js';
+import {
+    acceptQueryToken,
+    authenticate,
+    hashPassword,
+    issueSession,
+    optionalAuthenticate,
+    requireRole,
+    requireSelf,
+    requireShopOwner,
+    revokeRefreshToken,
+    rotateRefreshToken,
+    verifyPassword
+} from './lib/auth.js';
 
 
 const app = express();
 const PORT = 3333;
 
-// Configuração do Prisma 7 com PostgreSQL
-const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-const adapter = new PrismaPg(pool);
-const prisma = new PrismaClient({ adapter });
-
-// Configuração do Multer (armazenamento temporário na pasta 'uploads')
-const upload = multer({ dest: 'uploads/' });
+const MAX_PRODUCT_IMAGES = 10;
 
 app.use(cors());
-app.use(express.json());
 
-app.post('/auth/register', async (req, res) => {
-    // 1. Adicione este log para ver o que a Web está a enviar
-    console.log("📦 Dados recebidos no body:", JSON.stringify(req.body, null, 2));
+// Com o driver local, as imagens enviadas são servidas pela própria API
+const storage = getStorage();
+if (storage instanceof LocalStorage) {
+    app.use('/media', express.static(storage.dir, { maxAge: '30d', immutable: true }));
+}
+
+// REFUND_PROVIDER=stripe|fake; sem chave do Stripe os reembolsos ficam no provedor local
+if ((process.env.REFUND_PROVIDER ?? (process.env.STRIPE_SECRET_KEY ? 'stripe' : 'fake')) === 'stripe') {
+    setRefundProvider(new StripeRefundProvider());
+}
+
+// Webhook do Stripe: precisa do corpo cru para validar a assinatura, por isso vem antes do express.json()
+app.post('/payments/webhook', express.raw({ type: 'application/json' }), async (req, res) => {
+    const signature = req.headers['stripe-signature'];
+    if (typeof signature !== 'string') throw new ApiError(400, 'INVALID_SIGNATURE', "Assinatura do Stripe ausente");
+
+    let event;
+    try {
+        event = constructWebhookEvent(req.body, signature);
+    } catch (error) {
+        console.warn('⚠️ Webhook com assinatura inválida:', (error as Error).message);
+        throw new ApiError(400, 'INVALID_SIGNATURE', "Assinatura do Stripe inválida");
+    }
+
+    // Uma falha aqui (erro do banco ou conflito de status do pedido) desfaz o evento e responde
+    // erro, o que faz o Stripe reenviá-lo mais tarde
+    const { duplicate } = await handleStripeEvent(event);
+    sendPendingRefunds();
+    res.json({ received: true, duplicate });
+});
+
+app.use(express.json());
 
+app.post('/auth/register', validate({ body: schema.registerBody }), async (req, res) => {
     const { userData, addressData, shopData } = req.body;
 
-    // Verificação de segurança
-    if (!userData || !userData.name) {
-        return res.status(400).json({ error: "Dados do usuário (nome, email) são obrigatórios." });
+    // Só aceitamos os perfis públicos; sem indicação o utilizador é cliente
+    const role = userData.role ?? 'CUSTOMER';
+
+    if (await prisma.user.findUnique({ where: { email: userData.email } })) {
+        throw new ApiError(409, 'EMAIL_TAKEN', "Este e-mail já está cadastrado", [{ field: 'body.userData.email', message: "Já está em uso" }]);
     }
 
-    try {
-        const newUser = await prisma.user.create({
+    const password = await hashPassword(userData.password);
+    const newUser = await prisma.$transaction(async (tx) => {
+        const created = await tx.user.create({
             data: {
                 name: userData.name,
                 email: userData.email,
-                password: userData.password,
+                password,
                 cpf: userData.cpf,
                 phone: userData.phone,
                 birthdate: userData.birthdate,
-                role: userData.role || 'SELLER',
-                addresses: {
+                role,
+                // O endereço é opcional no cadastro; pode ser incluído depois em /addresses
+                addresses: addressData ? {
                     create: {
                         zipCode: addressData.cep,
                         street: addressData.street,
@@ -61,8 +131,8 @@ app.post('/auth/register', async (req, res) => {
                         state: addressData.state,
                         isPrimary: true
                     }
-                },
-                shop: shopData ? {
+                } : undefined,
+                shop: shopData && role === 'SELLER' ? {
                     create: {
                         name: shopData.name,
                         description: shopData.description,
@@ -72,661 +142,1909 @@ app.post('/auth/register', async (req, res) => {
             },
             include: { shop: true }
         });
-        res.status(201).json(newUser);
-    } catch (error) {
-        console.error("❌ Erro no Registo:", error);
-        res.status(400).json({ error: "Erro ao criar utilizador. Verifique se o email já existe." });
-    }
+        await sendEmailVerification(tx, created);
+        return created;
+    });
+    res.status(201).json(publicUser(newUser));
 });
 
 // ROTA DE LOGIN
-app.post('/auth/login', async (req, res) => {
+app.post('/auth/login', validate({ body: schema.loginBody }), async (req, res) => {
     const { email, password } = req.body;
-    const user = await prisma.user.findFirst({
-        where: { email, password },
-        include: { shop: true } 
+    const invalidCredentials = new ApiError(401, 'INVALID_CREDENTIALS', "Credenciais inválidas");
+
+    const user = await prisma.user.findUnique({
+        where: { email },
+        omit: { password: false },
+        include: { shop: true }
     });
 
-    if (!user) return res.status(401).json({ error: "Credenciais inválidas" });
-    res.json(user);
-});
+    if (!user) throw invalidCredentials;
 
-// --- ROTA DE TESTE (Para saber se o server está vivo) ---
-app.get('/', (req, res) => res.send('Backend Insinuante está ON! ✅'));
+    const { valid, needsRehash } = await verifyPassword(password, user.password);
+    if (!valid) throw invalidCredentials;
 
+    // Contas antigas com senha em texto puro são migradas para hash no primeiro login
+    if (needsRehash) {
+        await prisma.user.update({
+            where: { id: user.id },
+            data: { password: await hashPassword(password) }
+        });
+    }
 
-app.post('/products', upload.array('files'), async (req, res) => {
-    console.log('--- Nova tentativa de cadastro recebida ---');
+    // Carrinho montado antes do login (visitante) passa para a conta
+    const cartToken = req.body.cartToken || req.get('x-cart-token');
+    if (cartToken) await mergeGuestCart(cartToken, user.id);
 
-    try {
-        const { name, description, price, stock, category, variations, shopId } = req.body;
-        const files = req.files as Express.Multer.File[];
+    const { password: _, ...safeUser } = user;
+    const session = await issueSession(user);
 
-        if (!files || files.length === 0) {
-            console.warn('⚠️ Nenhuma imagem foi enviada.');
-        }
+    // Mantemos os campos do utilizador na raiz para não quebrar os clientes atuais
+    res.json({ ...publicUser(safeUser), ...session });
+});
 
-        // 1. Upload para o Cloudinary
-        console.log('📤 Subindo imagens para o Cloudinary...');
-        const uploadPromises = files.map(file => cloudinary.uploader.upload(file.path));
-        const uploadResults = await Promise.all(uploadPromises);
-        const imageUrls = uploadResults.map(result => result.secure_url);
+// Troca o refresh token por um novo par de tokens
+app.post('/auth/refresh', validate({ body: schema.refreshBody }), async (req, res) => {
+    const session = await rotateRefreshToken(req.body.refreshToken);
+    if (!session) throw new ApiError(401, 'INVALID_SESSION', "Sessão inválida ou expirada");
 
-        // 2. Criar no Banco de Dados via Prisma
-        console.log('💾 Salvando no PostgreSQL...');
-        const product = await prisma.product.create({
-            data: {
-                name,
-                description,
-                price: parseFloat(price) || 0,
-                stock: parseInt(stock) || 0,
-                category,
-                image: imageUrls.length > 0 ? imageUrls[0] : 'https://placehold.co/400',
-                images: imageUrls,
-                variations: variations ? JSON.parse(variations) : [],
-                shopId: shopId // 👈 Vincula o produto à loja do vendedor
-            }
-        });
+    res.json(session);
+});
 
-        res.status(201).json(product);
-    } catch (error) {
-        console.error('❌ Erro no cadastro:', error);
-        res.status(500).json({ error: 'Erro interno no servidor' });
-    }
+app.post('/auth/logout', validate({ body: schema.logoutBody }), async (req, res) => {
+    const { refreshToken } = req.body;
+
+    if (refreshToken) await revokeRefreshToken(refreshToken);
+    res.status(204).send();
 });
 
-app.get('/products', async (req, res) => {
-    const { search, shopId } = req.query;
+// Dados do utilizador dono do token
+app.get('/auth/me', authenticate, async (req, res) => {
+    const user = await prisma.user.findUnique({
+        where: { id: req.user!.id },
+        include: { shop: true }
+    });
+    if (!user) throw new ApiError(404, 'NOT_FOUND', "Utilizador não encontrado");
+    res.json(publicUser(user));
+});
 
-    try {
-        const products = await prisma.product.findMany({
-            where: {
-                ...(shopId ? { shopId: String(shopId) } : {}),
-                ...(search ? {
-                    name: {
-                        contains: String(search),
-                        mode: 'insensitive',
-                    },
-                } : {}),
-            },
-            // 👈 IMPORTANTE: Inclui os dados da loja associada ao produto
-            include: {
-                shop: true
-            },
-            orderBy: { createdAt: 'desc' }
-        });
-        res.json(products);
-    } catch (error) {
-        console.error("Erro ao buscar produtos:", error);
-        res.status(500).json({ error: "Erro ao buscar produtos" });
-    }
+// Reenvia o link de confirmação para o e-mail atual da conta
+app.post('/auth/verify-email/request', authenticate, validate({ body: schema.emptyBody }), async (req, res) => {
+    await requestEmailVerification(req.user!.id);
+    res.status(204).send();
 });
 
-// Adicione também uma rota para buscar UM produto específico pelo ID
-app.get('/products/:id', async (req, res) => {
-    const { id } = req.params;
-    try {
-        const product = await prisma.product.findUnique({
-            where: { id },
-            include: { shop: true } // 👈 Traz o perfil do vendedor aqui também
-        });
-        res.json(product);
-    } catch (error) {
-        res.status(404).json({ error: "Produto não encontrado" });
-    }
+app.post('/auth/verify-email', validate({ body: schema.verifyEmailBody }), async (req, res) => {
+    res.json(publicUser(await verifyEmail(req.body.token)));
 });
 
+// Sempre 204: a resposta não diz se o e-mail tem conta
+app.post('/auth/password/forgot', validate({ body: schema.passwordForgotBody }), async (req, res) => {
+    await requestPasswordReset(req.body.email);
+    res.status(204).send();
+});
+
+app.post('/auth/password/reset', validate({ body: schema.passwordResetBody }), async (req, res) => {
+    await resetPassword(req.body.token, req.body.password);
+    res.status(204).send();
+});
 
-app.post('/orders', async (req, res) => {
-    const { customerId, total, paymentMethod, addressId, items } = req.body;
+// --- ROTA DE TESTE (Para saber se o server está vivo) ---
+app.get('/', (req, res) => res.send('Backend Insinuante está ON! ✅'));
 
-    try {
-        // Usamos $transaction para que tudo aconteça ou nada aconteça
-        const result = await prisma.$transaction(async (tx) => {
-            // 1. Criar o Pedido
-            const order = await tx.order.create({
-                data: {
-                    customerId,
-                    total,
-                    paymentMethod,
-                    addressId,
-                    status: "A Enviar",
-                    items: {
-                        create: items.map((item: any) => ({
-                            productId: item.id,
-                            name: item.name,
-                            quantity: item.quantity,
-                            price: item.price,
-                            image: item.image
-                        }))
-                    }
-                }
-            });
+// --- DOCUMENTAÇÃO ---
 
-            // 2. Baixar o estoque de cada produto
-            for (const item of items) {
-                await tx.product.update({
-                    where: { id: item.id },
-                    data: {
-                        stock: { decrement: item.quantity }, // Diminui a quantidade exata
-                        sold: { increment: item.quantity }   // Aumenta o contador de vendas
-                    }
-                });
-            }
+// Gerado na primeira chamada, quando todas as rotas já estão registradas
+let openApiDocument: ReturnType<typeof buildOpenApiDocument> | undefined;
 
-            return order;
-        });
+app.get('/openapi.json', (req, res) => {
+    openApiDocument ??= buildOpenApiDocument(app, { serverUrl: process.env.API_PUBLIC_URL });
+    res.json(openApiDocument);
+});
 
-        console.log(`✅ Pedido ${result.id} finalizado com baixa de estoque.`);
-        res.status(201).json(result);
-    } catch (error) {
-        console.error("❌ Erro no checkout:", error);
-        res.status(500).json({ error: "Erro ao processar pagamento ou falta de estoque." });
-    }
+app.get('/docs', (req, res) => {
+    res.type('html').send(docsPage('/openapi.json'));
 });
 
-// --- ROTA PARA O VENDEDOR VER OS PEDIDOS (Web) ---
-app.get('/orders', async (req, res) => {
-    try {
-        const orders = await prisma.order.findMany({
-            include: { items: true }, // Traz os produtos de cada pedido
-            orderBy: { date: 'desc' }
-        });
-        res.json(orders);
-    } catch (error) {
-        res.status(500).json({ error: "Erro ao buscar pedidos" });
-    }
+
+// --- CATEGORIAS ---
+
+const invalidSlug = () => new ApiError(400, 'VALIDATION_ERROR', "Slug inválido", [{ field: 'body.slug', message: "Slug inválido" }]);
+const slugTaken = () => new ApiError(409, 'SLUG_TAKEN', "Já existe uma categoria com este slug", [{ field: 'body.slug', message: "Já está em uso" }]);
+
+// Árvore completa para montar a navegação da loja
+app.get('/categories', async (req, res) => {
+    const { roots } = await loadCategoryTree();
+    res.json(roots);
 });
 
-app.get('/cart/:userId', async (req, res) => {
-    const { userId } = req.params;
-    const items = await prisma.cartItem.findMany({
-        where: { userId }
-    });
-    res.json(items);
+// Uma categoria (por id ou slug) com as subcategorias e o caminho até a raiz
+app.get('/categories/:idOrSlug', validate({ params: schema.categoryParams }), async (req, res) => {
+    const { nodes } = await loadCategoryTree();
+    const category = findCategory(nodes, req.params.idOrSlug);
+    if (!category) throw new ApiError(404, 'NOT_FOUND', "Categoria não encontrada");
+
+    res.json({ ...category, ancestors: ancestorsOf(nodes, category).map(({ children, ...node }) => node) });
 });
 
-app.post('/cart', async (req, res) => {
-    const { userId, productId, name, price, quantity, image } = req.body;
+app.post('/categories', authenticate, requireRole('ADMIN'), validate({ body: schema.categoryBody }), async (req, res) => {
+    const { name, image, position, parentId, commissionRate } = req.body;
 
-    // Verifica se o produto já está no carrinho para somar a quantidade
-    const existingItem = await prisma.cartItem.findFirst({
-        where: { userId, productId }
-    });
+    const slug = slugify(req.body.slug || name);
+    if (!slug) throw invalidSlug();
 
-    if (existingItem) {
-        const updated = await prisma.cartItem.update({
-            where: { id: existingItem.id },
-            data: { quantity: existingItem.quantity + quantity }
-        });
-        return res.json(updated);
+    if (parentId && !(await prisma.category.findUnique({ where: { id: parentId } }))) {
+        throw new ApiError(422, 'INVALID_REFERENCE', "Categoria pai não encontrada", [{ field: 'body.parentId', message: "Não encontrada" }]);
     }
 
-    const newItem = await prisma.cartItem.create({
-        data: { userId, productId, name, price, quantity, image }
+    if (await prisma.category.findUnique({ where: { slug } })) throw slugTaken();
+
+    const category = await prisma.$transaction(async (tx) => {
+        const created = await tx.category.create({
+            data: { name, slug, image, position: position ?? 0, parentId: parentId || null, commissionRate }
+        });
+        await recordAdminAction(tx, { actorId: req.user!.id, action: 'CATEGORY_CREATED', targetType: 'CATEGORY', targetId: created.id, data: { name, slug } });
+        return created;
     });
-    res.status(201).json(newItem);
+    res.status(201).json(category);
 });
 
-// Atualizar quantidade de um item
-app.put('/cart/:id', async (req, res) => {
+app.put('/categories/:id', authenticate, requireRole('ADMIN'), validate({ params: schema.idParams, body: schema.categoryUpdateBody }), async (req, res) => {
     const { id } = req.params;
-    const { quantity } = req.body;
-    const updated = await prisma.cartItem.update({
-        where: { id },
-        data: { quantity }
+    const { name, image, position, parentId, commissionRate } = req.body;
+
+    const { nodes } = await loadCategoryTree();
+    const category = nodes.get(id);
+    if (!category) throw new ApiError(404, 'NOT_FOUND', "Categoria não encontrada");
+
+    // Uma categoria não pode ficar debaixo dela mesma nem de uma das suas filhas
+    if (parentId && (!nodes.has(parentId) || descendantIds(category).includes(parentId))) {
+        throw new ApiError(422, 'INVALID_REFERENCE', "Categoria pai inválida", [{ field: 'body.parentId', message: "Categoria pai inválida" }]);
+    }
+
+    const slug = req.body.slug !== undefined ? slugify(req.body.slug) : undefined;
+    if (slug !== undefined) {
+        if (!slug) throw invalidSlug();
+        const clash = await prisma.category.findUnique({ where: { slug } });
+        if (clash && clash.id !== id) throw slugTaken();
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+        await recordAdminAction(tx, { actorId: req.user!.id, action: 'CATEGORY_UPDATED', targetType: 'CATEGORY', targetId: id, data: req.body });
+        return tx.category.update({
+            where: { id },
+            data: {
+                name,
+                slug,
+                image,
+                position,
+                parentId: parentId !== undefined ? parentId || null : undefined,
+                commissionRate
+            }
+        });
     });
+
+    if (image !== undefined && image !== category.image) await deleteMedia([category.image]);
     res.json(updated);
 });
 
-// Remover um item
-app.delete('/cart/:id', async (req, res) => {
+// Remove uma categoria sem filhas. Se tiver produtos, ?moveTo=<id> indica para onde eles vão
+// (é assim que se unem duplicadas como "Roupas" e "Vestuário")
+app.delete('/categories/:id', authenticate, requireRole('ADMIN'), validate({ params: schema.idParams, query: schema.categoryDeleteQuery }), async (req, res) => {
     const { id } = req.params;
-    await prisma.cartItem.delete({ where: { id } });
-    res.status(204).send();
-});
+    const { moveTo } = req.query as { moveTo?: string };
 
-// Limpar carrinho (usado após o checkout)
-app.delete('/cart/user/:userId', async (req, res) => {
-    const { userId } = req.params;
-    await prisma.cartItem.deleteMany({ where: { userId } });
-    res.status(204).send();
-});
+    const category = await prisma.category.findUnique({
+        where: { id },
+        include: { _count: { select: { children: true, products: true } } }
+    });
+    if (!category) throw new ApiError(404, 'NOT_FOUND', "Categoria não encontrada");
 
-app.get('/orders/customer/:customerId', async (req, res) => {
-    const { customerId } = req.params;
-    try {
-        const orders = await prisma.order.findMany({
-            where: { customerId },
-            include: { items: true },
-            orderBy: { date: 'desc' } // Mais recentes primeiro
-        });
-        res.json(orders);
-    } catch (error) {
-        res.status(500).json({ error: "Erro ao buscar seus pedidos" });
+    if (category._count.children > 0) {
+        throw new ApiError(409, 'CATEGORY_HAS_CHILDREN', "Mova ou remova as subcategorias antes de excluir esta categoria");
     }
-});
 
-// Rota para Upload Único de Imagem (Perfil da Loja, etc)
-app.post('/upload', upload.single('image'), async (req, res) => {
-    try {
-        if (!req.file) {
-            return res.status(400).json({ error: 'Nenhum arquivo enviado.' });
+    if (category._count.products > 0) {
+        if (!moveTo || moveTo === id || !(await prisma.category.findUnique({ where: { id: moveTo } }))) {
+            throw new ApiError(409, 'CATEGORY_HAS_PRODUCTS', "A categoria tem produtos: informe ?moveTo= com a categoria de destino");
         }
+    }
 
-        console.log('📤 Fazendo upload da imagem para o Cloudinary...');
-
-        // 1. Envia o arquivo que o multer salvou na pasta 'uploads/' para o Cloudinary
-        const result = await cloudinary.uploader.upload(req.file.path, {
-            folder: 'insinuante_profile', // Organiza em uma pasta específica
+    await prisma.$transaction(async (tx) => {
+        await tx.product.updateMany({ where: { categoryId: id }, data: { categoryId: moveTo } });
+        await tx.category.delete({ where: { id } });
+        await recordAdminAction(tx, {
+            actorId: req.user!.id,
+            action: 'CATEGORY_DELETED',
+            targetType: 'CATEGORY',
+            targetId: id,
+            data: { name: category.name, slug: category.slug, movedProductsTo: moveTo ?? null }
         });
-
-        // 2. Apaga o arquivo temporário da sua pasta 'uploads/' local
-        fs.unlinkSync(req.file.path);
-
-        // 3. Retorna a URL segura para o Frontend
-        res.json({ url: result.secure_url });
-    } catch (error) {
-        console.error('❌ Erro no upload:', error);
-        res.status(500).json({ error: 'Erro ao processar upload da imagem.' });
-    }
+    });
+    res.status(204).send();
 });
 
+app.post('/products', authenticate, requireRole('SELLER'), receiveImages('files', MAX_PRODUCT_IMAGES), validate({ body: schema.productCreateBody }), async (req, res) => {
+    console.log('--- Nova tentativa de cadastro recebida ---');
 
-app.listen(3333, '0.0.0.0', () => {
-    console.log(`🔥 Insinuante-API rodando em http://localhost:${PORT}`);
-});
-
-app.post('/favorites/toggle', async (req, res) => {
-    const { userId, productId } = req.body;
+    const shopId = req.user!.shop?.id;
+    if (!shopId) throw new ApiError(403, 'SHOP_REQUIRED', "Cadastre uma loja antes de anunciar produtos");
 
+    let imageUrls: string[] = [];
     try {
-        const existing = await prisma.favorite.findUnique({
-            where: { userId_productId: { userId, productId } }
-        });
+        const { name, description, price, stock, lowStockThreshold, weight, length, width, height } = req.body;
+        const variants = parseVariants(req.body.variants);
+        const files = uploadedFiles(req);
+
+        // Aceita categoryId ou, como antes, "category" (id ou slug de uma categoria existente)
+        const categoryId = await resolveCategoryId(req.body.categoryId ?? req.body.category);
+        if (!categoryId) throw invalidCategory();
 
-        if (existing) {
-            await prisma.favorite.delete({ where: { id: existing.id } });
-            return res.json({ favorited: false });
+        if (!files || files.length === 0) {
+            console.warn('⚠️ Nenhuma imagem foi enviada.');
         }
 
-        await prisma.favorite.create({ data: { userId, productId } });
-        res.json({ favorited: true });
-    } catch (error) {
-        res.status(500).json({ error: "Erro ao processar favorito" });
-    }
-});
+        // 1. Upload das imagens (tamanho de exibição + miniatura para a capa)
+        console.log(`📤 Subindo imagens (${storage.name})...`);
+        const images = await saveImages(files, 'insinuante_products');
+        imageUrls = images.map(image => image.url);
 
-// Listar IDs dos produtos favoritados pelo usuário (para o ícone de coração ficar preenchido)
-app.get('/favorites/user/:userId', async (req, res) => {
-    const { userId } = req.params;
-    const favorites = await prisma.favorite.findMany({
-        where: { userId },
-        select: { productId: true }
-    });
-    res.json(favorites.map(f => f.productId));
-});
+        // 2. Criar no Banco de Dados via Prisma
+        console.log('💾 Salvando no PostgreSQL...');
+        const product = await prisma.$transaction(async (tx) => {
+            const created = await tx.product.create({
+                data: {
+                    name,
+                    description,
+                    price,
+                    stock: 0,
+                    lowStockThreshold,
+                    categoryId,
+                    weight,
+                    length,
+                    width,
+                    height,
+                    image: images.length > 0 ? images[0].thumbnailUrl : 'https://placehold.co/400',
+                    images: imageUrls,
+                    shopId: shopId, // 👈 Vincula o produto à loja do vendedor
+                    priceHistory: { create: { price } }
+                }
+            });
 
-app.get('/favorites/details/:userId', async (req, res) => {
-    const { userId } = req.params;
-    try {
-        const favorites = await prisma.favorite.findMany({
-            where: { userId },
-            include: {
-                product: true // Traz todos os dados do produto relacionado
+            // O estoque inicial entra como movimento; com variantes, ele é a soma delas
+            const actor = { actorId: req.user!.id, type: 'IMPORT' as const };
+            if (variants) {
+                await syncProductVariants(tx, created.id, variants, actor);
+            } else if (stock) {
+                await moveStock(tx, { productId: created.id, quantity: stock, note: "Estoque inicial", ...actor });
             }
-        });
-        // Mapeamos para devolver apenas a lista de produtos
-        res.json(favorites.map(f => f.product));
-    } catch (error) {
-        res.status(500).json({ error: "Erro ao buscar detalhes dos favoritos" });
-    }
-});
 
-app.get('/addresses/user/:userId', async (req, res) => {
-    const { userId } = req.params;
-    try {
-        const addresses = await prisma.address.findMany({
-            where: { userId }
+            return tx.product.findUniqueOrThrow({
+                where: { id: created.id },
+                include: { category: true, variants: { where: { active: true } } }
+            });
         });
-        res.json(addresses);
+
+        res.status(201).json(product);
     } catch (error) {
-        res.status(500).json({ error: "Erro ao buscar endereços" });
+        // O produto não foi criado: as imagens que chegaram a subir ficariam órfãs
+        await deleteMedia(imageUrls);
+        throw error;
     }
 });
 
-app.post('/payments/intent', async (req, res) => {
-    const { amount } = req.body; // Valor em cêntimos (ex: R$ 10,00 = 1000)
+function invalidCategory() {
+    return new ApiError(422, 'INVALID_REFERENCE', "Categoria inválida", [{ field: 'body.categoryId', message: "Categoria não encontrada" }]);
+}
 
-    try {
-        const paymentIntent = await stripe.paymentIntents.create({
-            amount,
-            currency: 'brl',
-            payment_method_types: ['card'],
-        });
+// Catálogo com busca textual, filtros, ordenação, paginação e contagens por faceta.
+// Filtros: search, shopId, category, minPrice, maxPrice, minRating, inStock
+// Ordenação (?sort=): relevance, newest, price_asc, price_desc, best_selling, rating
+app.get('/products', optionalAuthenticate, validate({ query: schema.productSearchQuery }), async (req, res) => {
+    const user = req.user;
+    const includeUnlisted = user?.role === 'ADMIN' || (!!user?.shop && req.query.shopId === user.shop.id);
 
-        res.json({ clientSecret: paymentIntent.client_secret });
-    } catch (e: any) {
-        res.status(400).json({ error: e.message });
-    }
+    res.json(await searchProducts(req.query, { includeUnlisted }));
 });
 
+// Adicione também uma rota para buscar UM produto específico pelo ID
+app.get('/products/:id', optionalAuthenticate, validate({ params: schema.idParams }), async (req, res) => {
+    const { id } = req.params;
+    const product = await prisma.product.findUnique({
+        where: { id },
+        include: {
+            shop: true, // 👈 Traz o perfil do vendedor aqui também
+            category: true,
+            variants: { where: { active: true } }
+        }
+    });
+
+    // Fora do catálogo, só o dono da loja e o admin enxergam o produto
+    const canSeeUnlisted = req.user?.role === 'ADMIN' || (!!product?.shopId && req.user?.shop?.id === product.shopId);
+    if (!product || (!isListed(product) && !canSeeUnlisted)) throw new ApiError(404, 'NOT_FOUND', "Produto não encontrado");
+    res.json(product);
+});
 
-app.get('/seller/stats/:shopId', async (req, res) => {
-    const { shopId } = req.params;
 
-    try {
-        const orders = await prisma.order.findMany({
-            where: {
-                items: {
-                    some: {
-                        product: { 
-                            shopId: shopId
-                        }
-                    }
-                }
-            },
-            select: {
-                status: true
-            }
-        });
+// --- AVALIAÇÕES ---
 
-        // Contabilizamos os totais por status
-        const stats = {
-            aPagar: orders.filter(o => o.status === 'A Pagar').length,
-            aEnviar: orders.filter(o => o.status === 'A Enviar').length,
-            enviado: orders.filter(o => o.status === 'Enviando').length,
-            cancelado: orders.filter(o => o.status === 'Cancelado').length,
-        };
+const MAX_REVIEW_PHOTOS = 5;
 
-        res.json(stats);
-    } catch (error) {
-        console.error("Erro ao buscar estatísticas:", error);
-        res.status(500).json({ error: "Erro ao carregar dados do dashboard" });
-    }
+// Avaliações de um produto, mais recentes primeiro (?page=&limit=)
+app.get('/products/:id/reviews', validate({ params: schema.idParams, query: schema.paginationQuery }), async (req, res) => {
+    const { id } = req.params;
+    const pagination = parsePagination(req.query);
+
+    const where = { productId: id };
+    const [reviews, total] = await Promise.all([
+        prisma.review.findMany({
+            where,
+            include: { user: { select: { name: true } } },
+            orderBy: { createdAt: 'desc' },
+            skip: pagination.skip,
+            take: pagination.limit
+        }),
+        prisma.review.count({ where })
+    ]);
+    res.json(paginated(reviews, total, pagination));
 });
 
+// Compras entregues deste produto que o cliente ainda pode avaliar (para exibir o botão "Avaliar")
+app.get('/products/:id/reviews/eligible', authenticate, validate({ params: schema.idParams }), async (req, res) => {
+    const items = await findReviewableItems(req.user!.id, req.params.id);
+    res.json(items.map(item => ({ orderItemId: item.id, orderId: item.orderId })));
+});
 
-app.get('/seller/sales-chart/:shopId', async (req, res) => {
-    const { shopId } = req.params;
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+app.post('/products/:id/reviews', authenticate, receiveImages('photos', MAX_REVIEW_PHOTOS), validate({ params: schema.idParams, body: schema.reviewBody }), async (req, res) => {
+    const { id } = req.params;
+    const { orderItemId, rating, comment } = req.body;
+    const files = uploadedFiles(req);
+    let photos: string[] = [];
 
     try {
-        const orders = await prisma.order.findMany({
-            where: {
-                date: { gte: sevenDaysAgo }, // 👈 Alterado de createdAt para date
-                items: { some: { product: { shopId: shopId } } }
-            },
-            select: { total: true, date: true } // 👈 Alterado de createdAt para date
+        // Fotos vão para o mesmo armazenamento do restante da API
+        photos = (await saveImages(files, 'insinuante_reviews')).map(image => image.url);
+
+        const review = await createReview({
+            userId: req.user!.id,
+            productId: id,
+            orderItemId,
+            rating,
+            comment,
+            photos
         });
 
-        const chartData = Array.from({ length: 7 }).map((_, i) => {
-            const date = new Date();
-            date.setDate(date.getDate() - i);
-            const dateString = date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
-
-            const dayTotal = orders
-                .filter(o => o.date.toLocaleDateString() === date.toLocaleDateString()) // 👈 Alterado para o.date
-                .reduce((sum, o) => sum + o.total, 0);
-
-            return { name: dateString, sales: dayTotal };
-        }).reverse();
-
-        res.json(chartData);
+        res.status(201).json(review);
     } catch (error) {
-        res.status(500).json({ error: "Erro ao gerar dados do gráfico" });
+        await deleteMedia(photos);
+        throw error;
     }
 });
 
-app.get('/seller/income/:shopId', async (req, res) => {
-    const { shopId } = req.params;
+// Resposta do vendedor (uma única por avaliação)
+app.post('/reviews/:id/reply', authenticate, requireRole('SELLER'), validate({ params: schema.idParams, body: schema.reviewReplyBody }), async (req, res) => {
+    const { id } = req.params;
+    const { reply } = req.body;
 
-    try {
-        const orders = await prisma.order.findMany({
-            where: {
-                items: {
-                    some: {
-                        product: { shopId: shopId }
-                    }
-                }
-            },
-            include: {
-                customer: { select: { name: true } } // Para exibir o nome do comprador
-            },
-            orderBy: { date: 'desc' }
-        });
+    const review = await prisma.review.findFirst({
+        where: { id, product: { shopId: req.user!.shop?.id ?? '' } }
+    });
+    if (!review) throw new ApiError(404, 'NOT_FOUND', "Avaliação não encontrada");
 
-        // Mapeia os dados para o formato esperado pelo frontend
-        const incomeData = orders.map(order => {
-            const netAmount = order.total * 0.90; // Subtrai 10% de comissão
-            
-            return {
-                id: order.id,
-                orderId: `#${order.id.split('-')[0].toUpperCase()}`,
-                date: new Date(order.date).toLocaleDateString('pt-BR'),
-                buyerName: order.customer?.name || 'Comprador',
-                amount: netAmount,
-                // Lógica de Liberação: Apenas pedidos "Concluído" são liberados
-                status: order.status === 'Concluído' ? 'Liberado' : 'Pendente'
-            };
-        });
+    // Condicional para que duas respostas simultâneas não sobrescrevam uma à outra
+    const { count } = await prisma.review.updateMany({
+        where: { id, sellerReply: null },
+        data: { sellerReply: reply, sellerRepliedAt: new Date() }
+    });
+    if (count === 0) throw new ApiError(409, 'ALREADY_REPLIED', "Esta avaliação já foi respondida");
 
-        res.json(incomeData);
-    } catch (error) {
-        res.status(500).json({ error: "Erro ao carregar dados financeiros" });
-    }
+    res.json(await prisma.review.findUnique({ where: { id } }));
 });
 
-// insinuante-api/src/server.ts
+app.post('/orders', authenticate, validate({ body: schema.orderBody }), async (req, res) => {
+    const customerId = req.user!.id;
+    // Itens, preços e total são lidos do carrinho salvo; o que vier no body é ignorado
+    const { paymentMethod, addressId, couponCode, shippingService } = req.body;
 
-// Rota para buscar todos os pedidos de uma loja específica
-app.get('/seller/orders/:shopId', async (req, res) => {
-    const { shopId } = req.params;
+    const order = await placeOrder({ customerId, paymentMethod, addressId, couponCode, shippingService });
 
-    try {
-        const orders = await prisma.order.findMany({
-            where: {
-                items: {
-                    some: { product: { shopId: shopId } }
-                }
-            },
+    console.log(`✅ Pedido ${order.id} finalizado com baixa de estoque.`);
+    res.status(201).json(order);
+});
+
+// --- ROTA PARA O VENDEDOR VER OS PEDIDOS (Web) ---
+// Vendedores veem os pedidos com produtos da sua loja; clientes, apenas os próprios
+app.get('/orders', authenticate, validate({ query: schema.paginationQuery }), async (req, res) => {
+    const user = req.user!;
+    const pagination = parsePagination(req.query);
+
+    const shopId = user.shop?.id ?? '';
+    const where = user.role === 'SELLER'
+        ? { shopOrders: { some: { shopId } } }
+        : { customerId: user.id };
+    const [orders, total] = await Promise.all([
+        prisma.order.findMany({
+            where,
+            // Traz os produtos de cada pedido (para o vendedor, só os da sua loja)
             include: {
-                items: true,
-                customer: { select: { name: true } }
+                items: user.role === 'SELLER' ? { where: { shopOrder: { shopId } } } : true,
+                shopOrders: user.role === 'SELLER' ? { where: { shopId }, include: { shipment: true } } : { include: { shipment: true } },
+                shippingAddress: true
             },
-            orderBy: { date: 'desc' }
-        });
-        res.json(orders);
-    } catch (error) {
-        res.status(500).json({ error: "Erro ao buscar pedidos" });
-    }
+            orderBy: { date: 'desc' },
+            skip: pagination.skip,
+            take: pagination.limit
+        }),
+        prisma.order.count({ where })
+    ]);
+    res.json(paginated(orders, total, pagination));
 });
 
-// Rota para atualizar o status do pedido (ex: Enviar Pedido)
-app.patch('/orders/:id/status', async (req, res) => {
-    const { id } = req.params;
-    const { status } = req.body;
+// Utilizador autenticado usa o próprio carrinho; visitante usa o token enviado em X-Cart-Token
+function cartOwner(req: express.Request): CartOwner | null {
+    if (req.user) return { userId: req.user.id };
+    const cartToken = req.get('x-cart-token');
+    return cartToken ? { cartToken } : null;
+}
 
-    try {
-        const updatedOrder = await prisma.order.update({
-            where: { id: id },
-            data: { status: status }
-        });
-        res.json(updatedOrder);
-    } catch (error) {
-        res.status(500).json({ error: "Erro ao atualizar status do pedido" });
-    }
+const cartItemNotFound = () => new ApiError(404, 'ITEM_NOT_FOUND', "Item não encontrado no seu carrinho");
+
+app.get('/cart', optionalAuthenticate, async (req, res) => {
+    const owner = cartOwner(req);
+    if (!owner) return res.json({ items: [], itemCount: 0, subtotal: 0, hasIssues: false });
+    res.json(await getCart(owner));
 });
 
-// Rota para buscar os dados atuais da loja
-app.get('/shops/:id', async (req, res) => {
-    const { id } = req.params;
-    try {
-        const shop = await prisma.shop.findUnique({
-            where: { id }
-        });
-        res.json(shop);
-    } catch (error) {
-        res.status(500).json({ error: "Erro ao buscar perfil da loja" });
-    }
+app.get('/cart/:userId', authenticate, requireSelf(), validate({ params: schema.userIdParams }), async (req, res) => {
+    res.json(await getCart({ userId: req.params.userId }));
 });
 
-// Rota para atualizar os dados da loja
-app.put('/shops/:id', async (req, res) => {
-    const { id } = req.params;
-    const { name, description, image } = req.body;
+app.post('/cart', optionalAuthenticate, validate({ body: schema.cartAddBody }), async (req, res) => {
+    // Visitante sem token recebe um novo, que deve reenviar nas próximas chamadas e no login
+    const owner = cartOwner(req) ?? { cartToken: newCartToken() };
+    const { productId, quantity } = req.body;
+    const variantId = req.body.variantId || null;
 
-    try {
-        const updatedShop = await prisma.shop.update({
-            where: { id },
-            data: { name, description, image }
-        });
-        res.json(updatedShop);
-    } catch (error) {
-        res.status(500).json({ error: "Erro ao atualizar perfil" });
-    }
+    const item = await addToCart(owner, { productId, variantId, quantity });
+    res.status(201).json('cartToken' in owner ? { ...item, cartToken: owner.cartToken } : item);
 });
 
-// Rota para buscar dados de um utilizador específico
-app.get('/users/:id', async (req, res) => {
-    const { id } = req.params;
-    try {
-        const user = await prisma.user.findUnique({
-            where: { id },
-            include: { shop: true }
-        });
-        res.json(user);
-    } catch (error) {
-        res.status(500).json({ error: "Erro ao buscar dados do utilizador" });
-    }
+// Atualizar quantidade de um item
+app.put('/cart/:id', optionalAuthenticate, validate({ params: schema.idParams, body: schema.cartUpdateBody }), async (req, res) => {
+    const owner = cartOwner(req);
+    if (!owner) throw cartItemNotFound();
+
+    res.json(await updateCartItemQuantity(owner, req.params.id, req.body.quantity));
 });
 
-// Rota para atualizar os dados do utilizador
-app.put('/users/:id', async (req, res) => {
+// Remover um item
+app.delete('/cart/:id', optionalAuthenticate, validate({ params: schema.idParams }), async (req, res) => {
+    const owner = cartOwner(req);
+    if (!owner) throw cartItemNotFound();
+
+    await removeCartItem(owner, req.params.id);
+    res.status(204).send();
+});
+
+// Limpar carrinho (o checkout já esvazia o carrinho sozinho)
+app.delete('/cart/user/:userId', authenticate, requireSelf(), validate({ params: schema.userIdParams }), async (req, res) => {
+    const { userId } = req.params;
+    await prisma.cartItem.deleteMany({ where: { userId } });
+    res.status(204).send();
+});
+
+// --- FRETE ---
+
+const emptyCart = () => new ApiError(400, 'EMPTY_CART', "O carrinho está vazio.");
+
+// Cotação do carrinho por loja. Aceita um endereço salvo (addressId) ou CEP e UF avulsos
+app.post('/shipping/quote', optionalAuthenticate, validate({ body: schema.shippingQuoteBody }), async (req, res) => {
+    const owner = cartOwner(req);
+    if (!owner) throw emptyCart();
+
+    let destinationInput = req.body;
+    if (req.body.addressId) {
+        const address = req.user && await prisma.address.findFirst({ where: { id: req.body.addressId, userId: req.user.id } });
+        if (!address) throw new ApiError(404, 'NOT_FOUND', "Endereço não encontrado");
+        destinationInput = address;
+    }
+    const destination = parseDestination(destinationInput);
+
+    const cart = await getCart(owner);
+    const items = cart.items.filter(item => !item.unavailable);
+    if (items.length === 0) throw emptyCart();
+
+    res.json({ destination, shops: await quoteShops(items, destination) });
+});
+
+// Estimativa na página do produto: /products/:id/shipping?zipCode=01000000&state=SP&quantity=1
+app.get('/products/:id/shipping', validate({ params: schema.idParams, query: schema.productShippingQuery }), async (req, res) => {
+    const product = await prisma.product.findUnique({ where: { id: req.params.id } });
+    if (!product || !product.shopId) throw new ApiError(404, 'NOT_FOUND', "Produto não encontrado");
+
+    const { zipCode, state, quantity } = req.query as unknown as { zipCode: string; state: string; quantity: number };
+    const destination = parseDestination({ zipCode, state });
+    const [quote] = await quoteShops([{ productId: product.id, quantity }], destination);
+    res.json({ destination, options: quote?.options ?? [] });
+});
+
+// --- CUPONS ---
+
+// O vendedor só gere os cupons da própria loja; o admin gere todos, inclusive os da plataforma
+function managedCouponsFilter(user: NonNullable<Express.Request['user']>) {
+    return user.role === 'ADMIN' ? {} : { shopId: user.shop?.id ?? '' };
+}
+
+// Cupom de loja só pode ficar restrito a produtos dessa mesma loja
+async function checkCouponScope(shopId: string | null, productIds: string[], categoryIds: string[]) {
+    if (productIds.length > 0) {
+        const count = await prisma.product.count({ where: { id: { in: productIds }, ...(shopId && { shopId }) } });
+        if (count !== productIds.length) {
+            throw new ApiError(422, 'INVALID_REFERENCE', "Há produtos inválidos no escopo do cupom", [{ field: 'body.productIds', message: "Produto inválido" }]);
+        }
+    }
+    if (categoryIds.length > 0) {
+        const count = await prisma.category.count({ where: { id: { in: categoryIds } } });
+        if (count !== categoryIds.length) {
+            throw new ApiError(422, 'INVALID_REFERENCE', "Há categorias inválidas no escopo do cupom", [{ field: 'body.categoryIds', message: "Categoria inválida" }]);
+        }
+    }
+}
+
+const couponNotFound = () => new ApiError(404, 'NOT_FOUND', "Cupom não encontrado");
+const couponCodeTaken = () => new ApiError(409, 'COUPON_CODE_TAKEN', "Já existe um cupom com este código", [{ field: 'body.code', message: "Já está em uso" }]);
+
+app.get('/coupons', authenticate, requireRole('SELLER', 'ADMIN'), validate({ query: schema.paginationQuery }), async (req, res) => {
+    const pagination = parsePagination(req.query);
+
+    const where = managedCouponsFilter(req.user!);
+    const [coupons, total] = await Promise.all([
+        prisma.coupon.findMany({ where, orderBy: { createdAt: 'desc' }, skip: pagination.skip, take: pagination.limit }),
+        prisma.coupon.count({ where })
+    ]);
+    res.json(paginated(coupons, total, pagination));
+});
+
+app.post('/coupons', authenticate, requireRole('SELLER', 'ADMIN'), validate({ body: schema.couponBody }), async (req, res) => {
+    const user = req.user!;
+
+    // Vendedor cria sempre para a própria loja; admin escolhe a loja ou deixa em branco (plataforma)
+    const shopId = user.role === 'ADMIN' ? (req.body.shopId || null) : user.shop?.id;
+    if (shopId === undefined) throw new ApiError(403, 'SHOP_REQUIRED', "Cadastre uma loja antes de criar cupons");
+    if (shopId && !(await prisma.shop.findUnique({ where: { id: shopId } }))) {
+        throw new ApiError(422, 'INVALID_REFERENCE', "Loja não encontrada", [{ field: 'body.shopId', message: "Loja não encontrada" }]);
+    }
+
+    const data = parseCouponInput(req.body);
+    await checkCouponScope(shopId, data.productIds, data.categoryIds);
+
+    if (await prisma.coupon.findUnique({ where: { code: data.code } })) throw couponCodeTaken();
+
+    const coupon = await prisma.$transaction(async (tx) => {
+        const created = await tx.coupon.create({ data: { ...data, shopId } });
+        if (user.role === 'ADMIN') {
+            await recordAdminAction(tx, { actorId: user.id, action: 'COUPON_CREATED', targetType: 'COUPON', targetId: created.id, data: { code: data.code, shopId } });
+        }
+        return created;
+    });
+    res.status(201).json(coupon);
+});
+
+app.put('/coupons/:id', authenticate, requireRole('SELLER', 'ADMIN'), validate({ params: schema.idParams, body: schema.couponUpdateBody }), async (req, res) => {
     const { id } = req.params;
-    const { name, email, password, phone, birthdate } = req.body;
 
-    try {
-        const updatedUser = await prisma.user.update({
-            where: { id },
-            data: {
-                name,
-                email,
-                password, // Em produção, lembre-se de encriptar a senha
-                phone,
-                birthdate
+    const coupon = await prisma.coupon.findFirst({ where: { id, ...managedCouponsFilter(req.user!) } });
+    if (!coupon) throw couponNotFound();
+
+    // A loja do cupom não muda na edição; o resto é validado já mesclado com o atual
+    const { id: _, shopId, usedCount, createdAt, ...current } = coupon;
+    const data = parseCouponInput({ ...current, ...req.body });
+    await checkCouponScope(shopId, data.productIds, data.categoryIds);
+
+    const clash = await prisma.coupon.findUnique({ where: { code: data.code } });
+    if (clash && clash.id !== id) throw couponCodeTaken();
+
+    const user = req.user!;
+    res.json(await prisma.$transaction(async (tx) => {
+        if (user.role === 'ADMIN') {
+            await recordAdminAction(tx, { actorId: user.id, action: 'COUPON_UPDATED', targetType: 'COUPON', targetId: id, data: { code: data.code, shopId } });
+        }
+        return tx.coupon.update({ where: { id }, data });
+    }));
+});
+
+// Cupom já usado fica só desativado, para não perder o vínculo com os pedidos
+app.delete('/coupons/:id', authenticate, requireRole('SELLER', 'ADMIN'), validate({ params: schema.idParams }), async (req, res) => {
+    const { id } = req.params;
+
+    const coupon = await prisma.coupon.findFirst({
+        where: { id, ...managedCouponsFilter(req.user!) },
+        include: { _count: { select: { orders: true, redemptions: true } } }
+    });
+    if (!coupon) throw couponNotFound();
+
+    const user = req.user!;
+    await prisma.$transaction(async (tx) => {
+        if (coupon._count.orders > 0 || coupon._count.redemptions > 0) {
+            await tx.coupon.update({ where: { id }, data: { active: false } });
+        } else {
+            await tx.coupon.delete({ where: { id } });
+        }
+        if (user.role === 'ADMIN') {
+            await recordAdminAction(tx, { actorId: user.id, action: 'COUPON_DELETED', targetType: 'COUPON', targetId: id, data: { code: coupon.code, shopId: coupon.shopId } });
+        }
+    });
+    res.status(204).send();
+});
+
+// Mostra quanto o cupom desconta no carrinho atual, sem reservar o uso
+app.post('/coupons/preview', authenticate, validate({ body: schema.couponPreviewBody }), async (req, res) => {
+    res.json(await previewCoupon(req.user!.id, req.body.code));
+});
+
+app.get('/orders/customer/:customerId', authenticate, requireSelf('customerId'), validate({ params: schema.customerIdParams, query: schema.paginationQuery }), async (req, res) => {
+    const { customerId } = req.params;
+    const pagination = parsePagination(req.query);
+
+    const [orders, total] = await Promise.all([
+        prisma.order.findMany({
+            where: { customerId },
+            include: {
+                items: true,
+                shippingAddress: true,
+                shopOrders: { include: { shop: { select: { name: true } }, shipment: { include: { events: true } } } }
             },
-            include: { shop: true }
+            orderBy: { date: 'desc' }, // Mais recentes primeiro
+            skip: pagination.skip,
+            take: pagination.limit
+        }),
+        prisma.order.count({ where: { customerId } })
+    ]);
+    res.json(paginated(orders, total, pagination));
+});
+
+// Rota para Upload Único de Imagem (Perfil da Loja, etc)
+app.post('/upload', authenticate, receiveImages('image', 1), async (req, res) => {
+    const [file] = uploadedFiles(req);
+    if (!file) {
+        throw new ApiError(400, 'VALIDATION_ERROR', 'Nenhum arquivo enviado.', [{ field: 'body.image', message: "Envie uma imagem" }]);
+    }
+
+    console.log(`📤 Fazendo upload da imagem (${storage.name})...`);
+
+    // O temporário do multer é apagado pelo receiveImages ao fim da resposta
+    const [image] = await saveImages([file], 'insinuante_profile');
+
+    res.json({ url: image.url, thumbnailUrl: image.thumbnailUrl });
+});
+
+
+// Importado por scripts (ex: src/scripts/checkApiDocs.ts) o app só é montado, sem subir o servidor
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+    app.listen(3333, '0.0.0.0', () => {
+        console.log(`🔥 Insinuante-API rodando em http://localhost:${PORT}`);
+    });
+
+    // Libera de hora em hora o saldo das vendas que passaram do período de retenção
+    // e apaga temporários de upload esquecidos por requisições interrompidas
+    sweepTempUploads();
+    setInterval(() => {
+        releaseMaturedFunds().catch(error => console.error("❌ Erro ao liberar saldos:", error));
+        pruneShopEvents().catch(error => console.error("❌ Erro ao limpar eventos das lojas:", error));
+        sweepTempUploads();
+    }, 60 * 60 * 1000);
+
+    // Cancela os pedidos cuja reserva de estoque venceu sem pagamento, devolvendo os itens,
+    // e tenta de novo os reembolsos que o meio de pagamento recusou ou não respondeu
+    setInterval(() => {
+        cancelExpiredReservations().catch(error => console.error("❌ Erro ao liberar reservas de estoque:", error));
+        processPendingRefunds().catch(error => console.error("❌ Erro ao enviar reembolsos:", error));
+    }, 60 * 1000);
+
+    // Entrega os e-mails da outbox gravados junto com os pedidos e mudanças de status
+    if (getMailer()) {
+        setInterval(() => {
+            deliverPendingEmails().catch(error => console.error("❌ Erro ao enviar e-mails:", error));
+        }, Number(process.env.EMAIL_OUTBOX_INTERVAL_MS ?? 15000));
+    } else {
+        console.warn("⚠️ SMTP_HOST não configurado: os e-mails ficam na fila até o envio ser configurado");
+    }
+}
+
+app.post('/favorites/toggle', authenticate, validate({ body: schema.favoriteBody }), async (req, res) => {
+    const userId = req.user!.id;
+    const { productId } = req.body;
+
+    const existing = await prisma.favorite.findUnique({
+        where: { userId_productId: { userId, productId } }
+    });
+
+    if (existing) {
+        await prisma.favorite.delete({ where: { id: existing.id } });
+        return res.json({ favorited: false });
+    }
+
+    const product = await prisma.product.findUnique({ where: { id: productId }, select: { price: true } });
+    if (!product) throw new ApiError(404, 'NOT_FOUND', "Produto não encontrado");
+
+    // O preço de agora é a referência para mostrar quanto ele mudou depois
+    await prisma.favorite.create({ data: { userId, productId, priceAtFavorite: product.price } });
+    res.json({ favorited: true });
+});
+
+// Listar IDs dos produtos favoritados pelo usuário (para o ícone de coração ficar preenchido)
+app.get('/favorites/user/:userId', authenticate, requireSelf(), validate({ params: schema.userIdParams }), async (req, res) => {
+    const { userId } = req.params;
+    const favorites = await prisma.favorite.findMany({
+        where: { userId },
+        select: { productId: true }
+    });
+    res.json(favorites.map(f => f.productId));
+});
+
+// Lista de desejos: os produtos com o histórico de preço e a variação desde que foram favoritados
+app.get('/favorites/details/:userId', authenticate, requireSelf(), validate({ params: schema.userIdParams }), async (req, res) => {
+    res.json(await wishlistDetails(req.params.userId));
+});
+
+app.get('/addresses/user/:userId', authenticate, requireSelf(), validate({ params: schema.userIdParams }), async (req, res) => {
+    const { userId } = req.params;
+    const addresses = await prisma.address.findMany({
+        where: { userId }
+    });
+    res.json(addresses);
+});
+
+const orderNotFound = () => new ApiError(404, 'NOT_FOUND', "Pedido não encontrado");
+
+// Cria o pagamento de um pedido; o valor cobrado é sempre o total salvo no pedido
+app.post('/payments/intent', authenticate, validate({ body: schema.paymentIntentBody }), async (req, res) => {
+    const { orderId } = req.body;
+
+    const order = await prisma.order.findFirst({ where: { id: orderId, customerId: req.user!.id } });
+    if (!order) throw orderNotFound();
+
+    if (order.status !== 'AWAITING_PAYMENT') {
+        throw new ApiError(409, 'ORDER_NOT_AWAITING_PAYMENT', "Este pedido não está aguardando pagamento");
+    }
+
+    // Começar o pagamento renova a reserva do estoque uma única vez, enquanto o pedido ainda não tem
+    // PaymentIntent; as chamadas seguintes reaproveitam o pagamento sem estender o prazo, senão a
+    // reserva nunca venceria. Reserva vencida já está sendo liberada
+    const reservationExpired = () =>
+        new ApiError(409, 'RESERVATION_EXPIRED', "A reserva dos itens deste pedido expirou. Faça o pedido novamente");
+
+    if (order.reservedUntil && order.reservedUntil <= new Date()) throw reservationExpired();
+    if (order.reservedUntil && !order.paymentIntentId) {
+        const { count } = await prisma.order.updateMany({
+            where: { id: order.id, status: 'AWAITING_PAYMENT', reservedUntil: { gt: new Date() } },
+            data: { reservedUntil: reservationDeadline() }
+        });
+        if (count === 0) throw reservationExpired();
+    }
+
+    try {
+        const paymentIntent = await createPaymentIntentForOrder(order);
+
+        res.json({
+            clientSecret: paymentIntent.client_secret,
+            paymentIntentId: paymentIntent.id,
+            amount: paymentIntent.amount
         });
-        res.json(updatedUser);
     } catch (error) {
-        console.error(error);
-        res.status(500).json({ error: "Erro ao atualizar dados da conta" });
+        console.error("❌ Erro ao criar pagamento no Stripe:", error);
+        throw new ApiError(502, 'PAYMENT_PROVIDER_ERROR', "Não foi possível iniciar o pagamento. Tente novamente em instantes");
+    }
+});
+
+
+app.get('/seller/stats/:shopId', authenticate, requireShopOwner(), validate({ params: schema.shopIdParams }), async (req, res) => {
+    const { shopId } = req.params;
+
+    // Cada loja conta apenas a sua parte do pedido, com o status dela
+    const groups = await prisma.shopOrder.groupBy({
+        by: ['status'],
+        where: { shopId },
+        _count: { _all: true }
+    });
+    const count = (status: OrderStatus) => groups.find(g => g.status === status)?._count._all ?? 0;
+
+    // Contabilizamos os totais por status
+    const stats = {
+        aPagar: count('AWAITING_PAYMENT'),
+        aEnviar: count('TO_SHIP'),
+        enviado: count('SHIPPED'),
+        entregue: count('DELIVERED'),
+        concluido: count('COMPLETED'),
+        cancelado: count('CANCELLED'),
+    };
+
+    res.json(stats);
+});
+
+
+// Vendas dos últimos 7 dias, agrupadas pelo dia no horário de Brasília
+app.get('/seller/sales-chart/:shopId', authenticate, requireShopOwner(), validate({ params: schema.shopIdParams }), async (req, res) => {
+    const { series } = await salesReport(req.params.shopId, lastDaysRange(7));
+
+    const chartData = series.map(day => ({
+        name: `${day.period.slice(8, 10)}/${day.period.slice(5, 7)}`,
+        sales: day.revenue
+    }));
+
+    res.json(chartData);
+});
+
+// --- RELATÓRIOS ---
+
+// Responde em JSON ou, com ?format=csv, como arquivo para download
+function sendReport<T>(req: express.Request, res: express.Response, filename: string, report: object, rows: T[], columns: CsvColumn<T>[]) {
+    if (req.query.format !== 'csv') return res.json(report);
+
+    res.attachment(`${filename}.csv`);
+    res.type('text/csv; charset=utf-8');
+    res.send(toCsv(rows, columns));
+}
+
+// Valida a query e entrega ao relatório o período já resolvido (fuso, datas e agrupamento)
+function analyticsRoute(handler: (req: express.Request, res: express.Response, range: AnalyticsRange) => Promise<unknown>) {
+    return [
+        validate({ params: schema.shopIdParams, query: schema.analyticsQuery }),
+        async (req: express.Request, res: express.Response) => {
+            await handler(req, res, parseAnalyticsQuery(req.query));
+        }
+    ];
+}
+
+// ?from=AAAA-MM-DD&to=AAAA-MM-DD&granularity=day|week|month&tz=America/Sao_Paulo&format=csv
+app.get('/seller/analytics/:shopId/sales', authenticate, requireShopOwner(), analyticsRoute(async (req, res, range) => {
+    const report = await salesReport(String(req.params.shopId), range);
+
+    sendReport(req, res, `vendas_${range.from}_${range.to}`, report, report.series, [
+        { header: 'periodo', value: row => row.period },
+        { header: 'receita', value: row => row.revenue.toFixed(2) },
+        { header: 'unidades', value: row => row.units },
+        { header: 'pedidos', value: row => row.orders },
+        { header: 'ticket_medio', value: row => row.averageOrderValue.toFixed(2) }
+    ]);
+}));
+
+app.get('/seller/analytics/:shopId/top-products', authenticate, requireShopOwner(), analyticsRoute(async (req, res, range) => {
+    const { limit, sort } = req.query as unknown as { limit: number; sort: string };
+    const report = await topProducts(String(req.params.shopId), range, { limit, sort });
+
+    sendReport(req, res, `produtos_${range.from}_${range.to}`, report, report.products, [
+        { header: 'produto_id', value: row => row.productId },
+        { header: 'produto', value: row => row.name },
+        { header: 'unidades', value: row => row.units },
+        { header: 'receita', value: row => row.revenue.toFixed(2) },
+        { header: 'pedidos', value: row => row.orders }
+    ]);
+}));
+
+app.get('/seller/analytics/:shopId/favorites', authenticate, requireShopOwner(), analyticsRoute(async (req, res, range) => {
+    const report = await favoritesConversion(String(req.params.shopId), range);
+
+    sendReport(req, res, `favoritos_${range.from}_${range.to}`, report, report.products, [
+        { header: 'produto_id', value: row => row.productId },
+        { header: 'produto', value: row => row.name },
+        { header: 'favoritos', value: row => row.favorites },
+        { header: 'compras', value: row => row.purchases },
+        { header: 'conversao', value: row => row.conversionRate }
+    ]);
+}));
+
+// Extrato por venda a partir do livro da loja: valor líquido (venda - comissão - reembolsos)
+app.get('/seller/income/:shopId', authenticate, requireShopOwner(), validate({ params: schema.shopIdParams }), async (req, res) => {
+    const { shopId } = req.params;
+
+    await releaseMaturedFunds(shopId);
+
+    const shopOrders = await prisma.shopOrder.findMany({
+        where: { shopId, ledger: { some: { type: 'SALE' } } },
+        include: {
+            ledger: { include: { entries: true } },
+            order: {
+                select: {
+                    id: true,
+                    date: true,
+                    customer: { select: { name: true } } // Para exibir o nome do comprador
+                }
+            }
+        },
+        orderBy: { order: { date: 'desc' } }
+    });
+
+    // Mapeia os dados para o formato esperado pelo frontend
+    const incomeData = shopOrders.map(shopOrder => {
+        const total = (types: string[], accounts: string[]) => roundMoney(-shopOrder.ledger
+            .filter(transaction => types.includes(transaction.type))
+            .flatMap(transaction => transaction.entries)
+            .filter(entry => accounts.includes(entry.account))
+            .reduce((sum, entry) => sum + entry.amount, 0));
+
+        const amount = total(['SALE', 'COMMISSION', 'REFUND'], ['SHOP_PENDING', 'SHOP_AVAILABLE']);
+        const refunded = shopOrder.ledger.some(transaction => transaction.type === 'REFUND');
+        const released = shopOrder.ledger.some(transaction => transaction.type === 'RELEASE');
+
+        return {
+            id: shopOrder.id,
+            orderId: orderNumber(shopOrder.order.id),
+            date: new Date(shopOrder.order.date).toLocaleDateString('pt-BR'),
+            buyerName: shopOrder.order.customer?.name || 'Comprador',
+            gross: total(['SALE'], ['SHOP_PENDING']),
+            commission: -total(['COMMISSION'], ['SHOP_PENDING']),
+            // Devolvido ao cliente (cancelamento ou devolução); a comissão estornada já volta no amount
+            refunded: total(['REFUND'], ['CUSTOMER_FUNDS']),
+            refunds: shopOrder.ledger
+                .filter(transaction => transaction.type === 'REFUND')
+                .map(transaction => ({
+                    date: transaction.createdAt,
+                    description: transaction.description,
+                    amount: roundMoney(-transaction.entries
+                        .filter(entry => entry.account === 'CUSTOMER_FUNDS')
+                        .reduce((sum, entry) => sum + entry.amount, 0))
+                })),
+            amount,
+            // Liberado só depois do período de retenção que segue a entrega
+            status: refunded && amount === 0 ? 'Estornado' : released ? 'Liberado' : 'Pendente'
+        };
+    });
+
+    res.json(incomeData);
+});
+
+// Saldo a liberar (retido até o fim do prazo após a entrega) e disponível para saque
+app.get('/seller/balance/:shopId', authenticate, requireShopOwner(), validate({ params: schema.shopIdParams }), async (req, res) => {
+    const { shopId } = req.params;
+
+    await releaseMaturedFunds(shopId);
+    const balance = await getShopBalance(shopId);
+    const paidOut = await prisma.payout.aggregate({ where: { shopId, status: 'PAID' }, _sum: { amount: true } });
+
+    res.json({ ...balance, paidOut: roundMoney(paidOut._sum.amount ?? 0), holdDays: PAYOUT_HOLD_DAYS });
+});
+
+// Lançamentos do livro da loja, do mais recente para o mais antigo
+app.get('/seller/statement/:shopId', authenticate, requireShopOwner(), validate({ params: schema.shopIdParams, query: schema.paginationQuery }), async (req, res) => {
+    const { shopId } = req.params;
+    const pagination = parsePagination(req.query);
+
+    const [transactions, total] = await Promise.all([
+        prisma.ledgerTransaction.findMany({
+            where: { shopId },
+            include: { entries: true, shopOrder: { select: { orderId: true } } },
+            orderBy: { createdAt: 'desc' },
+            skip: pagination.skip,
+            take: pagination.limit
+        }),
+        prisma.ledgerTransaction.count({ where: { shopId } })
+    ]);
+
+    // Efeito de cada lançamento nos dois saldos da loja (positivo = entrou)
+    const effect = (entries: { account: string; amount: number }[], account: string) =>
+        roundMoney(-entries.filter(entry => entry.account === account).reduce((sum, entry) => sum + entry.amount, 0));
+
+    res.json(paginated(transactions.map(({ entries, shopOrder, ...transaction }) => ({
+        ...transaction,
+        orderId: shopOrder?.orderId ?? null,
+        pending: effect(entries, 'SHOP_PENDING'),
+        available: effect(entries, 'SHOP_AVAILABLE')
+    })), total, pagination));
+});
+
+app.get('/seller/payouts/:shopId', authenticate, requireShopOwner(), validate({ params: schema.shopIdParams, query: schema.paginationQuery }), async (req, res) => {
+    const { shopId } = req.params;
+    const pagination = parsePagination(req.query);
+
+    const [payouts, total] = await Promise.all([
+        prisma.payout.findMany({ where: { shopId }, orderBy: { requestedAt: 'desc' }, skip: pagination.skip, take: pagination.limit }),
+        prisma.payout.count({ where: { shopId } })
+    ]);
+    res.json(paginated(payouts, total, pagination));
+});
+
+// Saque do saldo disponível; sem "amount" saca tudo
+app.post('/seller/payouts/:shopId', authenticate, requireShopOwner(), validate({ params: schema.shopIdParams, body: schema.payoutBody }), async (req, res) => {
+    const { shopId } = req.params;
+
+    await releaseMaturedFunds(shopId);
+    const payout = await requestPayout(shopId, req.body.amount);
+    res.status(payout.status === 'FAILED' ? 502 : 201).json(payout);
+});
+
+// Rota para buscar todos os pedidos de uma loja específica
+// Cada registro é a parte da loja no pedido: só os itens dela, com subtotal, frete e status próprios
+app.get('/seller/orders/:shopId', authenticate, requireShopOwner(), validate({ params: schema.shopIdParams, query: schema.paginationQuery }), async (req, res) => {
+    const { shopId } = req.params;
+    const pagination = parsePagination(req.query);
+
+    const [shopOrders, total] = await Promise.all([
+        prisma.shopOrder.findMany({
+            where: { shopId },
+            include: {
+                items: true,
+                shipment: true,
+                order: {
+                    select: {
+                        id: true,
+                        date: true,
+                        paymentMethod: true,
+                        customer: { select: { name: true } },
+                        shippingAddress: true // Para onde a loja despacha
+                    }
+                }
+            },
+            orderBy: { order: { date: 'desc' } },
+            skip: pagination.skip,
+            take: pagination.limit
+        }),
+        prisma.shopOrder.count({ where: { shopId } })
+    ]);
+
+    res.json(paginated(shopOrders.map(({ order, ...shopOrder }) => ({
+        ...shopOrder,
+        id: order.id, // O PATCH /orders/:id/status continua recebendo o id do pedido
+        shopOrderId: shopOrder.id,
+        date: order.date,
+        paymentMethod: order.paymentMethod,
+        customer: order.customer,
+        shippingAddress: order.shippingAddress,
+        total: roundMoney(shopOrder.subtotal - shopOrder.discount + shopOrder.shippingCost - shopOrder.shippingDiscount)
+    })), total, pagination));
+});
+
+// Eventos da loja em tempo real (Server-Sent Events) para o painel não precisar consultar
+// /seller/orders e /seller/stats repetidamente. Ao reconectar, o EventSource manda o
+// Last-Event-ID e recebe tudo o que aconteceu enquanto esteve offline
+app.get('/seller/events/:shopId', acceptQueryToken, authenticate, requireShopOwner(), validate({ params: schema.shopIdParams, query: schema.shopEventsQuery }), async (req, res) => {
+    const { shopId } = req.params;
+    const lastEventId = Number(req.get('last-event-id') ?? req.query.lastEventId);
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no' // Evita que o nginx segure os eventos em buffer
+    });
+    res.write('retry: 3000\n\n');
+
+    const stream = openShopEventStream(shopId, Number.isInteger(lastEventId) && lastEventId >= 0 ? lastEventId : null, event => {
+        res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify({ ...event.data as object, createdAt: event.createdAt })}\n\n`);
+    });
+
+    // Comentário periódico para proxies não derrubarem a conexão parada
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), 25 * 1000);
+
+    req.on('close', () => {
+        clearInterval(heartbeat);
+        stream.then(opened => opened.close(), () => {});
+    });
+
+    await stream;
+});
+
+// Produtos e variantes no limite de estoque baixo (o da loja ou o padrão) ou abaixo dele
+app.get('/seller/low-stock/:shopId', authenticate, requireShopOwner(), validate({ params: schema.shopIdParams }), async (req, res) => {
+    res.json(await lowStockItems(req.params.shopId));
+});
+
+// O cliente age sobre os próprios pedidos; o vendedor, sobre pedidos com produtos da sua loja
+function orderAccessFilter(user: NonNullable<Express.Request['user']>) {
+    return {
+        OR: [
+            { customerId: user.id },
+            { shopOrders: { some: { shopId: user.shop?.id ?? '' } } }
+        ]
+    };
+}
+
+// Rota para atualizar o status do pedido (ex: Enviar Pedido)
+// O cliente muda o pedido inteiro; o vendedor muda apenas a parte da sua loja.
+// Quem pode fazer cada transição está definido em src/lib/orderStatus.ts
+app.patch('/orders/:id/status', authenticate, validate({ params: schema.idParams, body: schema.orderStatusBody }), async (req, res) => {
+    const { id } = req.params;
+    const { status, note } = req.body;
+    const user = req.user!;
+
+    const order = await prisma.order.findFirst({
+        where: { id, ...orderAccessFilter(user) },
+        include: { shopOrders: { where: { shopId: user.shop?.id ?? '' } } }
+    });
+    if (!order) throw orderNotFound();
+
+    // Quem comprou da própria loja é cliente e vendedor no mesmo pedido: vale o papel que pode
+    // fazer a transição pedida e, se os dois puderem (cancelar antes do envio), o de cliente
+    const shopOrder = order.shopOrders[0];
+    const sellerCan = !!shopOrder && allowedTransitions(shopOrder.status, 'SELLER').includes(status);
+    const customerCan = allowedTransitions(order.status, 'CUSTOMER').includes(status);
+    const isCustomer = order.customerId === user.id && (customerCan || !sellerCan);
+
+    // Para marcar como enviado o vendedor informa a transportadora e o código de rastreio
+    const { carrier, trackingCode } = req.body;
+    if (!isCustomer && status === 'SHIPPED' && (!carrier || !trackingCode)) {
+        throw new ApiError(400, 'VALIDATION_ERROR', "Informe a transportadora e o código de rastreio", [
+            ...(carrier ? [] : [{ field: 'body.carrier', message: "Informe a transportadora" }]),
+            ...(trackingCode ? [] : [{ field: 'body.trackingCode', message: "Informe o código de rastreio" }])
+        ]);
     }
+
+    // Cancelar antes de pagar derruba também o PaymentIntent: o client secret que está com o
+    // cliente deixaria de valer só no Stripe, e um pagamento tardio seria cobrado
+    const cancelsPayment = isCustomer && status === 'CANCELLED' && order.status === 'AWAITING_PAYMENT' && !!order.paymentIntentId;
+    if (cancelsPayment) {
+        let cancelled;
+        try {
+            cancelled = await cancelPendingPayment(order.paymentIntentId);
+        } catch (error) {
+            console.error("❌ Erro ao cancelar pagamento no Stripe:", error);
+            throw new ApiError(502, 'PAYMENT_PROVIDER_ERROR', "Não foi possível cancelar o pagamento. Tente novamente em instantes");
+        }
+        if (!cancelled) {
+            throw new ApiError(409, 'PAYMENT_IN_PROGRESS', "O pagamento deste pedido já foi feito e está sendo confirmado. Aguarde a confirmação para cancelar");
+        }
+    }
+
+    const updatedOrder = isCustomer
+        ? await prisma.$transaction(async (tx) => {
+            if (cancelsPayment) await tx.order.update({ where: { id }, data: { paymentStatus: 'CANCELED' } });
+            return applyOrderStatus(tx, { orderId: id, to: status, actor: 'CUSTOMER', actorId: user.id, note });
+        })
+        : status === 'SHIPPED'
+            ? await shipShopOrder({ shopOrderId: shopOrder.id, carrier, trackingCode, actorId: user.id, note })
+            : await changeShopOrderStatus({ shopOrderId: shopOrder.id, to: status, actor: 'SELLER', actorId: user.id, note });
+
+    if (status === 'CANCELLED') sendPendingRefunds();
+    res.json(updatedOrder);
 });
 
-app.put('/products/:id', async (req, res) => {
+// Linha do tempo do pedido (quem mudou o status e quando)
+app.get('/orders/:id/history', authenticate, validate({ params: schema.idParams }), async (req, res) => {
     const { id } = req.params;
-    const { name, description, price, stock, category, variations, images } = req.body;
+    const user = req.user!;
+
+    const order = await prisma.order.findFirst({
+        where: { id, ...orderAccessFilter(user) }
+    });
+    if (!order) throw orderNotFound();
+
+    // O vendedor não enxerga a linha do tempo das outras lojas do mesmo pedido
+    const history = await prisma.orderStatusHistory.findMany({
+        where: order.customerId === user.id
+            ? { orderId: id }
+            : { orderId: id, OR: [{ shopOrderId: null }, { shopOrder: { shopId: user.shop?.id ?? '' } }] },
+        include: { actor: { select: { name: true } } },
+        orderBy: { createdAt: 'asc' }
+    });
+    res.json(history);
+});
+
+// Rastreio de cada loja do pedido; o vendedor só vê o envio da própria loja
+app.get('/orders/:id/shipments', authenticate, validate({ params: schema.idParams }), async (req, res) => {
+    const { id } = req.params;
+    const user = req.user!;
+
+    const order = await prisma.order.findFirst({ where: { id, ...orderAccessFilter(user) } });
+    if (!order) throw orderNotFound();
+
+    const shipments = await prisma.shipment.findMany({
+        where: {
+            shopOrder: order.customerId === user.id ? { orderId: id } : { orderId: id, shopId: user.shop?.id ?? '' }
+        },
+        include: {
+            shopOrder: { select: { id: true, shopId: true, status: true, shop: { select: { name: true } } } },
+            events: { orderBy: { occurredAt: 'asc' } }
+        }
+    });
+    res.json(shipments);
+});
+
+app.post('/shipments/:id/events', authenticate, requireRole('SELLER'), validate({ params: schema.idParams, body: schema.shipmentEventBody }), async (req, res) => {
+    const { id } = req.params;
+    const { status, description, location, occurredAt } = req.body;
+    const user = req.user!;
+
+    const shipment = await prisma.shipment.findFirst({ where: { id, shopOrder: { shopId: user.shop?.id ?? '' } } });
+    if (!shipment) throw new ApiError(404, 'NOT_FOUND', "Envio não encontrado");
+
+    const updated = await addTrackingEvent({
+        shipmentId: id,
+        status,
+        description,
+        location: location || null,
+        occurredAt,
+        source: 'SELLER',
+        actorId: user.id
+    });
+    res.status(201).json(updated);
+});
+
+// Reembolsos gravados pela requisição saem logo após a resposta; falhas ficam para o worker
+function sendPendingRefunds() {
+    processPendingRefunds().catch(error => console.error("❌ Erro ao enviar reembolsos:", error));
+}
+
+const MAX_RETURN_PHOTOS = 5;
+
+// O cliente vê as devoluções que pediu; o vendedor, as dos itens da sua loja
+function returnAccessFilter(user: NonNullable<Express.Request['user']>) {
+    return {
+        OR: [
+            { customerId: user.id },
+            { shopOrder: { shopId: user.shop?.id ?? '' } }
+        ]
+    };
+}
+
+// Pedido de devolução de um item entregue, com o motivo e fotos opcionais
+app.post('/returns', authenticate, receiveImages('photos', MAX_RETURN_PHOTOS), validate({ body: schema.returnBody }), async (req, res) => {
+    const { orderItemId, quantity, reason } = req.body;
+    const files = uploadedFiles(req);
+    let photos: string[] = [];
 
     try {
-        const product = await prisma.product.update({
+        photos = (await saveImages(files, 'insinuante_returns')).map(image => image.url);
+
+        const request = await requestReturn({ customerId: req.user!.id, orderItemId, quantity, reason, photos });
+        res.status(201).json(request);
+    } catch (error) {
+        await deleteMedia(photos);
+        throw error;
+    }
+});
+
+app.get('/returns', authenticate, validate({ query: schema.returnListQuery }), async (req, res) => {
+    const { status } = req.query as { status?: ReturnStatus };
+    const pagination = parsePagination(req.query);
+
+    const where = { ...returnAccessFilter(req.user!), ...(status && { status }) };
+    const [requests, total] = await Promise.all([
+        prisma.returnRequest.findMany({
+            where,
+            include: RETURN_INCLUDE,
+            orderBy: { createdAt: 'desc' },
+            skip: pagination.skip,
+            take: pagination.limit
+        }),
+        prisma.returnRequest.count({ where })
+    ]);
+
+    res.json(paginated(requests, total, pagination));
+});
+
+app.get('/returns/:id', authenticate, validate({ params: schema.idParams }), async (req, res) => {
+    const request = await prisma.returnRequest.findFirst({
+        where: { id: req.params.id, ...returnAccessFilter(req.user!) },
+        include: RETURN_INCLUDE
+    });
+    if (!request) throw new ApiError(404, 'RETURN_NOT_FOUND', "Devolução não encontrada");
+
+    res.json(request);
+});
+
+// Decisão do vendedor: aprovar (com reembolso total ou parcial e volta ao estoque) ou recusar
+app.patch('/returns/:id', authenticate, requireRole('SELLER'), validate({ params: schema.idParams, body: schema.returnDecisionBody }), async (req, res) => {
+    const { status, refundAmount, note } = req.body;
+
+    const request = await decideReturn({
+        returnId: req.params.id,
+        shopId: req.user!.shop?.id ?? '',
+        actorId: req.user!.id,
+        status,
+        refundAmount,
+        note
+    });
+
+    sendPendingRefunds();
+    res.json(request);
+});
+
+const shopNotFound = () => new ApiError(404, 'NOT_FOUND', "Loja não encontrada");
+
+// Rota para buscar os dados atuais da loja
+app.get('/shops/:id', optionalAuthenticate, validate({ params: schema.idParams }), async (req, res) => {
+    const { id } = req.params;
+    const shop = await prisma.shop.findUnique({
+        where: { id }
+    });
+
+    // Loja aguardando aprovação ou suspensa não tem perfil público
+    const canSeeUnlisted = req.user?.role === 'ADMIN' || req.user?.shop?.id === id;
+    if (!shop || (shop.status !== 'ACTIVE' && !canSeeUnlisted)) throw shopNotFound();
+    res.json(shop);
+});
+
+// Avaliações de todos os produtos da loja (?page=&limit=)
+app.get('/shops/:id/reviews', validate({ params: schema.idParams, query: schema.paginationQuery }), async (req, res) => {
+    const { id } = req.params;
+    const pagination = parsePagination(req.query);
+
+    const where = { product: { shopId: id } };
+    const [reviews, total] = await Promise.all([
+        prisma.review.findMany({
+            where,
+            include: {
+                user: { select: { name: true } },
+                product: { select: { id: true, name: true, image: true } }
+            },
+            orderBy: { createdAt: 'desc' },
+            skip: pagination.skip,
+            take: pagination.limit
+        }),
+        prisma.review.count({ where })
+    ]);
+    res.json(paginated(reviews, total, pagination));
+});
+
+// Rota para atualizar os dados da loja
+app.put('/shops/:id', authenticate, requireShopOwner('id'), validate({ params: schema.idParams, body: schema.shopUpdateBody }), async (req, res) => {
+    const { id } = req.params;
+    const { name, description, image } = req.body;
+
+    const shop = await prisma.shop.findUniqueOrThrow({ where: { id } });
+    const updatedShop = await prisma.shop.update({
+        where: { id },
+        data: { name, description, image }
+    });
+
+    // Foto antiga substituída não é mais usada
+    if (image !== undefined && image !== shop.image) await deleteMedia([shop.image]);
+
+    res.json(updatedShop);
+});
+
+// Taxa de comissão: fração entre 0 e 1 (0.12 = 12%); null volta a usar a da categoria/padrão
+app.put('/shops/:id/commission', authenticate, requireRole('ADMIN'), validate({ params: schema.idParams, body: schema.commissionBody }), async (req, res) => {
+    const shop = await prisma.shop.findUnique({ where: { id: req.params.id } });
+    if (!shop) throw shopNotFound();
+
+    const updated = await prisma.$transaction(async (tx) => {
+        await recordAdminAction(tx, {
+            actorId: req.user!.id,
+            action: 'SHOP_COMMISSION_CHANGED',
+            targetType: 'SHOP',
+            targetId: shop.id,
+            data: { from: shop.commissionRate, to: req.body.commissionRate }
+        });
+        return tx.shop.update({ where: { id: shop.id }, data: { commissionRate: req.body.commissionRate } });
+    });
+    res.json(updated);
+});
+
+// Rota para buscar dados de um utilizador específico
+app.get('/users/:id', authenticate, requireSelf('id'), validate({ params: schema.idParams }), async (req, res) => {
+    const { id } = req.params;
+    const user = await prisma.user.findUnique({
+        where: { id },
+        include: { shop: true }
+    });
+    if (!user) throw new ApiError(404, 'NOT_FOUND', "Usuário não encontrado");
+    res.json(publicUser(user));
+});
+
+// Rota para atualizar os dados do utilizador (e-mail e senha pedem a senha atual)
+app.put('/users/:id', authenticate, requireSelf('id'), validate({ params: schema.idParams, body: schema.userUpdateBody }), async (req, res) => {
+    const { name, email, password, currentPassword, phone, birthdate } = req.body;
+
+    const updatedUser = await updateProfile(req.params.id, { name, email, password, currentPassword, phone, birthdate });
+
+    // A troca de senha encerra as sessões; quem trocou recebe uma nova para continuar conectado
+    const session = password ? await issueSession(updatedUser) : {};
+    res.json({ ...publicUser(updatedUser), ...session });
+});
+
+// Cópia de todos os dados da conta (portabilidade da LGPD)
+app.get('/users/:id/export', authenticate, requireSelf('id'), validate({ params: schema.idParams }), async (req, res) => {
+    const data = await exportUserData(req.params.id);
+
+    res.setHeader('Content-Disposition', 'attachment; filename="meus-dados-insinuante.json"');
+    res.json(data);
+});
+
+// Exclusão da conta: os dados pessoais são apagados e os pedidos ficam anonimizados
+app.delete('/users/:id', authenticate, requireSelf('id'), validate({ params: schema.idParams, body: schema.accountDeleteBody }), async (req, res) => {
+    await deleteAccount(req.params.id, req.body.password);
+    res.status(204).send();
+});
+
+const productNotOwned = () => new ApiError(404, 'NOT_FOUND', "Produto não encontrado na sua loja");
+
+app.put('/products/:id', authenticate, requireRole('SELLER'), validate({ params: schema.idParams, body: schema.productUpdateBody }), async (req, res) => {
+    const { id } = req.params;
+    const { name, description, price, stock, stockVersion, lowStockThreshold, images, weight, length, width, height } = req.body;
+
+    const owned = await prisma.product.findFirst({
+        where: { id, shopId: req.user!.shop?.id ?? '' },
+        include: { variants: { where: { active: true }, select: { id: true } } }
+    });
+    if (!owned) throw productNotOwned();
+
+    const categoryInput = req.body.categoryId ?? req.body.category;
+    const categoryId = categoryInput === undefined ? undefined : await resolveCategoryId(categoryInput);
+    if (categoryId === null) throw invalidCategory();
+
+    const variants = parseVariants(req.body.variants);
+
+    // Com variantes (as atuais ou as enviadas agora) o estoque do produto é a soma delas
+    const hasVariants = variants ? variants.length > 0 : owned.variants.length > 0;
+    if (stock !== undefined && hasVariants) {
+        throw new ApiError(422, 'STOCK_MANAGED_BY_VARIANTS', "O estoque deste produto é controlado pelas variantes", [
+            { field: 'body.stock', message: "Informe o estoque de cada variante em variants" }
+        ]);
+    }
+
+    const product = await prisma.$transaction(async (tx) => {
+        await tx.product.update({
             where: { id },
             data: {
                 name,
                 description,
-                price: parseFloat(price),
-                stock: parseInt(stock),
-                category,
-                // Aqui salvamos a lista de URLs (incluindo as que sobraram após a remoção)
-                images: images, 
-                image: images.length > 0 ? images[0] : 'https://placehold.co/400',
-                variations: variations ? (typeof variations === 'string' ? JSON.parse(variations) : variations) : []
+                price,
+                lowStockThreshold,
+                categoryId,
+                weight,
+                length,
+                width,
+                height,
+                // Sem o campo images as fotos ficam como estão; com ele, a lista enviada substitui a atual
+                ...(images && {
+                    images,
+                    image: images.length > 0 ? storage.thumbnailOf(images[0]) : 'https://placehold.co/400'
+                })
             }
         });
 
-        res.json(product);
-    } catch (error) {
-        console.error("Erro ao atualizar produto:", error);
-        res.status(500).json({ error: "Erro ao atualizar o produto no banco de dados." });
+        // Estoque editado vira ajuste, e só se ninguém mexeu nele desde que o vendedor abriu o produto
+        // (o schema exige stockVersion junto com stock ou variants). Sem o campo variants elas ficam
+        // como estão; com variants vazio o produto volta a ter estoque próprio
+        if (stockVersion !== undefined) await lockStockVersion(tx, id, stockVersion);
+
+        if (variants) {
+            await syncProductVariants(tx, id, variants, { actorId: req.user!.id, type: 'ADJUSTMENT' });
+        }
+        if (stock !== undefined) {
+            await setStock(tx, { productId: id, stock, actorId: req.user!.id });
+        }
+
+        // Preço menor ou estoque de volta avisam quem favoritou o produto
+        await trackProductChanges(tx, id, { price: owned.price, stock: owned.stock });
+
+        return tx.product.findUniqueOrThrow({
+            where: { id },
+            include: { category: true, variants: { where: { active: true } } }
+        });
+    });
+
+    // Imagens retiradas da lista são apagadas do armazenamento (as que seguem em uso ficam)
+    if (images) await deleteMedia([owned.image, ...owned.images]);
+
+    res.json(product);
+});
+
+app.delete('/products/:id', authenticate, requireRole('SELLER'), validate({ params: schema.idParams }), async (req, res) => {
+    const { id } = req.params;
+
+    const owned = await prisma.product.findFirst({
+        where: { id, shopId: req.user!.shop?.id ?? '' },
+        include: { variants: { select: { image: true } }, _count: { select: { orderItems: true } } }
+    });
+    if (!owned) throw productNotOwned();
+
+    // Itens de pedido guardam o produto para o histórico e as avaliações; variantes, favoritos,
+    // carrinhos e movimentos de estoque saem junto (onDelete: Cascade)
+    if (owned._count.orderItems > 0) {
+        throw new ApiError(409, 'PRODUCT_HAS_ORDERS', "Este produto já foi vendido e não pode ser excluído. Zere o estoque para que ele não seja mais comprado");
     }
+
+    // Remove o produto do banco de dados
+    await prisma.product.delete({
+        where: { id }
+    });
+    await deleteMedia([owned.image, ...owned.images, ...owned.variants.map(variant => variant.image)]);
+
+    // 204 significa "Sucesso, mas sem conteúdo para retornar"
+    res.status(204).send();
 });
 
-app.delete('/products/:id', async (req, res) => {
+// Ajuste manual (contagem, avaria, reposição): o vendedor informa o novo estoque e a
+// stockVersion que viu; se algo mudou nesse meio tempo, recebe 409 com o valor atual
+app.post('/products/:id/stock', authenticate, requireRole('SELLER'), validate({ params: schema.idParams, body: schema.stockAdjustmentBody }), async (req, res) => {
     const { id } = req.params;
+    const { variantId, stock, stockVersion, note } = req.body;
 
-    try {
-        // Remove o produto do banco de dados
-        await prisma.product.delete({
-            where: { id }
-        });
+    const owned = await prisma.product.findFirst({
+        where: { id, shopId: req.user!.shop?.id ?? '' },
+        include: { variants: { where: { active: true }, select: { id: true } } }
+    });
+    if (!owned) throw productNotOwned();
 
-        // 204 significa "Sucesso, mas sem conteúdo para retornar"
-        res.status(204).send();
-    } catch (error) {
-        console.error("❌ Erro ao deletar produto:", error);
-        res.status(500).json({ error: "Erro ao excluir o produto. Verifique se ele existe." });
+    // Com variantes, o estoque é de cada uma; o do produto é só a soma
+    if (owned.variants.length > 0 && !variantId) {
+        throw new ApiError(400, 'VALIDATION_ERROR', "Informe a variante", [
+            { field: 'body.variantId', message: "Este produto tem variantes: ajuste o estoque de uma delas" }
+        ]);
+    }
+    if (variantId && !owned.variants.some(variant => variant.id === variantId)) {
+        throw new ApiError(404, 'VARIANT_NOT_FOUND', "Variante não encontrada neste produto");
     }
+
+    res.json(await adjustStock({ productId: id, variantId, stock, stockVersion, actorId: req.user!.id, note }));
 });
 
-// Rota para Criar um Novo Endereço
-app.post('/addresses', async (req, res) => {
-    const { userId, zipCode, street, number, complement, neighborhood, city, state, isPrimary } = req.body;
+// Histórico de estoque do produto (vendas, cancelamentos, devoluções, ajustes), mais recente primeiro
+app.get('/products/:id/stock-movements', authenticate, requireRole('SELLER'), validate({ params: schema.idParams, query: schema.paginationQuery }), async (req, res) => {
+    const { id } = req.params;
 
-    try {
-        // Se este for marcado como principal, removemos o "principal" dos outros primeiro
-        if (isPrimary) {
-            await prisma.address.updateMany({
-                where: { userId },
-                data: { isPrimary: false }
-            });
-        }
+    const owned = await prisma.product.findFirst({ where: { id, shopId: req.user!.shop?.id ?? '' } });
+    if (!owned) throw productNotOwned();
+
+    const pagination = parsePagination(req.query);
+    const [movements, total] = await Promise.all([
+        prisma.stockMovement.findMany({
+            where: { productId: id },
+            include: { variant: { select: { name: true } }, actor: { select: { name: true } } },
+            orderBy: { createdAt: 'desc' },
+            skip: pagination.skip,
+            take: pagination.limit
+        }),
+        prisma.stockMovement.count({ where: { productId: id } })
+    ]);
+
+    res.json(paginated(movements, total, pagination));
+});
 
-        const newAddress = await prisma.address.create({
-            data: {
-                userId, zipCode, street, number, complement, neighborhood, city, state, isPrimary: !!isPrimary
-            }
+const addressNotFound = () => new ApiError(404, 'NOT_FOUND', "Endereço não encontrado");
+
+// Rota para Criar um Novo Endereço
+app.post('/addresses', authenticate, validate({ body: schema.addressBody }), async (req, res) => {
+    const userId = req.user!.id;
+    const { zipCode, street, number, complement, neighborhood, city, state, isPrimary } = req.body;
+
+    // Se este for marcado como principal, removemos o "principal" dos outros primeiro
+    if (isPrimary) {
+        await prisma.address.updateMany({
+            where: { userId },
+            data: { isPrimary: false }
         });
-        res.status(201).json(newAddress);
-    } catch (error) {
-        res.status(500).json({ error: "Erro ao cadastrar endereço." });
     }
+
+    const newAddress = await prisma.address.create({
+        data: {
+            userId, zipCode, street, number, complement, neighborhood, city, state, isPrimary: !!isPrimary
+        }
+    });
+    res.status(201).json(newAddress);
 });
 
 // Rota para Remover um Endereço
-app.delete('/addresses/:id', async (req, res) => {
+app.delete('/addresses/:id', authenticate, validate({ params: schema.idParams }), async (req, res) => {
     const { id } = req.params;
-    try {
-        await prisma.address.delete({
-            where: { id }
+
+    const address = await prisma.address.findFirst({ where: { id, userId: req.user!.id } });
+    if (!address) throw addressNotFound();
+
+    // Pedidos já feitos guardam uma cópia do endereço, então apagar aqui não os afeta
+    await prisma.address.delete({
+        where: { id }
+    });
+    res.status(204).send();
+});
+
+// insinuante-api/src/server.ts
+
+app.put('/addresses/:id', authenticate, validate({ params: schema.idParams, body: schema.addressUpdateBody }), async (req, res) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+    const { zipCode, street, number, complement, neighborhood, city, state, isPrimary } = req.body;
+
+    const address = await prisma.address.findFirst({ where: { id, userId } });
+    if (!address) throw addressNotFound();
+
+    if (isPrimary) {
+        await prisma.address.updateMany({
+            where: { userId },
+            data: { isPrimary: false }
         });
-        res.status(204).send();
-    } catch (error) {
-        res.status(500).json({ error: "Erro ao remover endereço." });
     }
+
+    const updated = await prisma.address.update({
+        where: { id: id }, // Certifique-se que o id é string/number conforme o seu banco
+        data: { zipCode, street, number, complement, neighborhood, city, state, isPrimary }
+    });
+    res.json(updated);
 });
 
-// insinuante-api/src/server.ts
+// --- NOTIFICAÇÕES ---
+
+app.get('/notifications', authenticate, validate({ query: schema.notificationListQuery }), async (req, res) => {
+    const userId = req.user!.id;
+    const pagination = parsePagination(req.query);
+    const where = { userId, ...(req.query.unread === 'true' && { readAt: null }) };
+
+    const [notifications, total, unread] = await Promise.all([
+        prisma.notification.findMany({ where, orderBy: { createdAt: 'desc' }, skip: pagination.skip, take: pagination.limit }),
+        prisma.notification.count({ where }),
+        prisma.notification.count({ where: { userId, readAt: null } })
+    ]);
 
-app.put('/addresses/:id', async (req, res) => {
+    res.json({ ...paginated(notifications, total, pagination), unread });
+});
+
+// Marca uma notificação como lida (ou de volta como não lida)
+app.patch('/notifications/:id', authenticate, validate({ params: schema.idParams, body: schema.notificationUpdateBody }), async (req, res) => {
     const { id } = req.params;
-    const { zipCode, street, number, complement, neighborhood, city, state, isPrimary, userId } = req.body;
 
-    try {
-        if (isPrimary) {
-            await prisma.address.updateMany({
-                where: { userId },
-                data: { isPrimary: false }
-            });
+    const notification = await prisma.notification.findFirst({ where: { id, userId: req.user!.id } });
+    if (!notification) throw new ApiError(404, 'NOT_FOUND', "Notificação não encontrada");
+
+    res.json(await prisma.notification.update({
+        where: { id },
+        data: { readAt: req.body.read ? notification.readAt ?? new Date() : null }
+    }));
+});
+
+app.post('/notifications/read', authenticate, validate({ body: schema.notificationsReadBody }), async (req, res) => {
+    const { ids } = req.body;
+
+    const { count } = await prisma.notification.updateMany({
+        where: { userId: req.user!.id, readAt: null, ...(ids && { id: { in: ids } }) },
+        data: { readAt: new Date() }
+    });
+    res.json({ updated: count });
+});
+
+app.get('/notifications/preferences', authenticate, async (req, res) => {
+    res.json(await getPreferences(req.user!.id));
+});
+
+app.put('/notifications/preferences', authenticate, validate({ body: schema.notificationPreferencesBody }), async (req, res) => {
+    res.json(await updatePreferences(req.user!.id, req.body.preferences));
+});
+
+// --- ADMINISTRAÇÃO ---
+
+const insensitive = (value: string) => ({ contains: value, mode: 'insensitive' as const });
+
+app.get('/admin/shops', authenticate, requireRole('ADMIN'), validate({ query: schema.adminShopListQuery }), async (req, res) => {
+    const { status, search } = req.query as { status?: ShopStatus; search?: string };
+    const pagination = parsePagination(req.query);
+
+    const where = {
+        ...(status && { status }),
+        ...(search && { OR: [{ name: insensitive(search) }, { user: { email: insensitive(search) } }] })
+    };
+    const [shops, total] = await Promise.all([
+        prisma.shop.findMany({
+            where,
+            include: { user: { select: { id: true, name: true, email: true } }, _count: { select: { products: true } } },
+            orderBy: { createdAt: 'desc' },
+            skip: pagination.skip,
+            take: pagination.limit
+        }),
+        prisma.shop.count({ where })
+    ]);
+
+    res.json(paginated(shops, total, pagination));
+});
+
+// Aprova (ou reativa) e suspende lojas; a suspensão pede um motivo, que o vendedor recebe
+app.patch('/admin/shops/:id/status', authenticate, requireRole('ADMIN'), validate({ params: schema.idParams, body: schema.shopStatusBody }), async (req, res) => {
+    res.json(await setShopStatus({ shopId: req.params.id, actorId: req.user!.id, status: req.body.status, reason: req.body.reason }));
+});
+
+// Todos os produtos, inclusive os fora do catálogo (?unpublished=true traz só os retirados)
+app.get('/admin/products', authenticate, requireRole('ADMIN'), validate({ query: schema.adminProductListQuery }), async (req, res) => {
+    const { search, shopId, unpublished } = req.query as { search?: string; shopId?: string; unpublished?: 'true' | 'false' };
+    const pagination = parsePagination(req.query);
+
+    const where = {
+        ...(search && { name: insensitive(search) }),
+        ...(shopId && { shopId }),
+        ...(unpublished && { unpublishedAt: unpublished === 'true' ? { not: null } : null })
+    };
+    const [products, total] = await Promise.all([
+        prisma.product.findMany({
+            where,
+            include: { shop: { select: { id: true, name: true, status: true } } },
+            orderBy: { createdAt: 'desc' },
+            skip: pagination.skip,
+            take: pagination.limit
+        }),
+        prisma.product.count({ where })
+    ]);
+
+    res.json(paginated(products, total, pagination));
+});
+
+app.patch('/admin/products/:id/publication', authenticate, requireRole('ADMIN'), validate({ params: schema.idParams, body: schema.productPublicationBody }), async (req, res) => {
+    res.json(await setProductPublication({ productId: req.params.id, actorId: req.user!.id, published: req.body.published, reason: req.body.reason }));
+});
+
+app.get('/admin/users', authenticate, requireRole('ADMIN'), validate({ query: schema.adminUserListQuery }), async (req, res) => {
+    const { search, role } = req.query as { search?: string; role?: Role };
+    const pagination = parsePagination(req.query);
+
+    const where = {
+        ...(role && { role }),
+        ...(search && { OR: [{ name: insensitive(search) }, { email: insensitive(search) }] })
+    };
+    const [users, total] = await Promise.all([
+        prisma.user.findMany({
+            where,
+            include: { shop: { select: { id: true, name: true, status: true } }, _count: { select: { orders: true } } },
+            orderBy: { createdAt: 'desc' },
+            skip: pagination.skip,
+            take: pagination.limit
+        }),
+        prisma.user.count({ where })
+    ]);
+
+    res.json(paginated(users.map(publicUser), total, pagination));
+});
+
+// As datas de ?from= e ?to= valem no horário de Brasília, como nos relatórios
+const brasiliaDay = (date: string, days = 0) => new Date(new Date(`${date}T00:00:00-03:00`).getTime() + days * 24 * 60 * 60 * 1000);
+
+app.get('/admin/orders', authenticate, requireRole('ADMIN'), validate({ query: schema.adminOrderListQuery }), async (req, res) => {
+    const { search, status, shopId, customerId, from, to } = req.query as {
+        search?: string; status?: OrderStatus; shopId?: string; customerId?: string; from?: string; to?: string;
+    };
+    const pagination = parsePagination(req.query);
+
+    const where = {
+        ...(status && { status }),
+        ...(customerId && { customerId }),
+        ...(shopId && { shopOrders: { some: { shopId } } }),
+        ...((from || to) && { date: { ...(from && { gte: brasiliaDay(from) }), ...(to && { lt: brasiliaDay(to, 1) }) } }),
+        ...(search && {
+            OR: [
+                { id: { startsWith: search.replace(/^#/, '').toLowerCase() } },
+                { customer: { email: insensitive(search) } },
+                { customer: { name: insensitive(search) } }
+            ]
+        })
+    };
+    const [orders, total] = await Promise.all([
+        prisma.order.findMany({
+            where,
+            include: {
+                customer: { select: { id: true, name: true, email: true } },
+                shopOrders: { select: { id: true, shopId: true, status: true, shop: { select: { name: true } } } }
+            },
+            orderBy: { date: 'desc' },
+            skip: pagination.skip,
+            take: pagination.limit
+        }),
+        prisma.order.count({ where })
+    ]);
+
+    res.json(paginated(orders, total, pagination));
+});
+
+app.get('/admin/orders/:id', authenticate, requireRole('ADMIN'), validate({ params: schema.idParams }), async (req, res) => {
+    const order = await prisma.order.findUnique({
+        where: { id: req.params.id },
+        include: {
+            customer: { select: { id: true, name: true, email: true } },
+            items: true,
+            shippingAddress: true,
+            shopOrders: { include: { shop: { select: { id: true, name: true } }, shipment: true } },
+            statusHistory: { orderBy: { createdAt: 'asc' } },
+            refunds: true
         }
+    });
+    if (!order) throw new ApiError(404, 'NOT_FOUND', "Pedido não encontrado");
 
-        const updated = await prisma.address.update({
-            where: { id: id }, // Certifique-se que o id é string/number conforme o seu banco
-            data: { zipCode, street, number, complement, neighborhood, city, state, isPrimary }
-        });
-        res.json(updated);
-    } catch (error) {
-        res.status(500).json({ error: "Erro ao atualizar endereço." });
+    res.json(order);
+});
+
+// GMV da plataforma: ?from=&to=&granularity=&tz=&limit= (lojas no ranking)&format=csv
+app.get('/admin/analytics/sales', authenticate, requireRole('ADMIN'), validate({ query: schema.analyticsQuery }), async (req, res) => {
+    const range = parseAnalyticsQuery(req.query);
+    const report = await platformSales(range, { limit: Number(req.query.limit) });
+
+    sendReport(req, res, `gmv_${range.from}_${range.to}`, report, report.series, [
+        { header: 'periodo', value: row => row.period },
+        { header: 'gmv', value: row => row.gmv.toFixed(2) },
+        { header: 'pedidos', value: row => row.orders },
+        { header: 'lojas', value: row => row.shops },
+        { header: 'ticket_medio', value: row => row.averageOrderValue.toFixed(2) }
+    ]);
+});
+
+app.get('/admin/analytics/commission', authenticate, requireRole('ADMIN'), validate({ query: schema.analyticsQuery }), async (req, res) => {
+    const range = parseAnalyticsQuery(req.query);
+    const report = await platformCommission(range, { limit: Number(req.query.limit) });
+
+    sendReport(req, res, `comissao_${range.from}_${range.to}`, report, report.series, [
+        { header: 'periodo', value: row => row.period },
+        { header: 'comissao', value: row => row.earned.toFixed(2) },
+        { header: 'estornos', value: row => row.reversed.toFixed(2) },
+        { header: 'liquido', value: row => row.net.toFixed(2) }
+    ]);
+});
+
+app.get('/admin/audit-log', authenticate, requireRole('ADMIN'), validate({ query: schema.auditLogQuery }), async (req, res) => {
+    const { action, targetType, targetId, actorId } = req.query as {
+        action?: AdminAction; targetType?: AuditTargetType; targetId?: string; actorId?: string;
+    };
+    const pagination = parsePagination(req.query);
+
+    const where = { action, targetType, targetId, actorId };
+    const [entries, total] = await Promise.all([
+        prisma.adminAuditLog.findMany({
+            where,
+            include: { actor: { select: { id: true, name: true, email: true } } },
+            orderBy: { createdAt: 'desc' },
+            skip: pagination.skip,
+            take: pagination.limit
+        }),
+        prisma.adminAuditLog.count({ where })
+    ]);
+
+    res.json(paginated(entries, total, pagination));
+});
+
+// --- ERROS ---
+
+const CHECKOUT_ERRORS: Record<CheckoutError['code'], [number, string]> = {
+    EMPTY_CART: [400, "O carrinho está vazio."],
+    CART_ITEMS_INVALID: [409, "Alguns itens do carrinho não podem ser comprados."],
+    INVALID_ADDRESS: [403, "Endereço de entrega inválido"],
+    SHIPPING_UNAVAILABLE: [400, "O serviço de frete escolhido não atende este pedido"]
+};
+
+// Erros de domínio das libs viram respostas no formato único da API (ver src/lib/errors.ts)
+function domainError(error: unknown): ApiError | undefined {
+    if (error instanceof CartError) {
+        const status = error.code === 'ITEM_NOT_FOUND' ? 404
+            : error.code === 'INVALID_QUANTITY' || error.code === 'INVALID_VARIANT' ? 400
+            : 409;
+        return new ApiError(status, error.code, error.message, undefined, error.available !== undefined ? { available: error.available } : undefined);
+    }
+    if (error instanceof CheckoutError) {
+        const [status, message] = CHECKOUT_ERRORS[error.code];
+        return new ApiError(status, error.code, message, undefined, { items: error.issues });
+    }
+    if (error instanceof CouponError) {
+        const status = error.code === 'COUPON_NOT_FOUND' ? 404
+            : error.code === 'USAGE_LIMIT_REACHED' || error.code === 'USER_LIMIT_REACHED' ? 409
+            : 400;
+        return new ApiError(status, error.code, error.message);
+    }
+    if (error instanceof CouponInputError) return new ApiError(400, 'VALIDATION_ERROR', error.message);
+    if (error instanceof ShippingError) return new ApiError(400, error.code, error.message);
+    if (error instanceof PayoutError) {
+        const status = error.code === 'INVALID_AMOUNT' ? 400 : error.code === 'SHOP_SUSPENDED' ? 403 : 409;
+        return new ApiError(status, error.code, error.message);
     }
-});
\ No newline at end of file
+    if (error instanceof OrderStatusError) return new ApiError(error.code === 'ORDER_NOT_FOUND' ? 404 : 409, error.code, error.message);
+    if (error instanceof ReviewError) return new ApiError(error.code === 'NOT_ELIGIBLE' ? 403 : 409, error.code, error.message);
+    if (error instanceof MediaError) return new ApiError(error.code === 'FILE_TOO_LARGE' ? 413 : 400, error.code, error.message);
+    if (error instanceof VariantInputError) {
+        return new ApiError(400, 'VALIDATION_ERROR', error.message, [{ field: 'body.variants', message: error.message }]);
+    }
+    if (error instanceof AnalyticsQueryError) return new ApiError(400, 'VALIDATION_ERROR', error.message);
+    if (error instanceof ReturnError) {
+        const status = error.code === 'ITEM_NOT_FOUND' || error.code === 'RETURN_NOT_FOUND' ? 404
+            : error.code === 'NOT_ELIGIBLE' ? 403
+            : error.code === 'INVALID_QUANTITY' || error.code === 'INVALID_AMOUNT' ? 400
+            : 409;
+        return new ApiError(status, error.code, error.message);
+    }
+    if (error instanceof InventoryError) {
+        return new ApiError(error.code === 'STOCK_CONFLICT' ? 409 : 404, error.code, error.message, undefined, error.current);
+    }
+    if (error instanceof ModerationError) return new ApiError(error.code === 'ALREADY_APPLIED' ? 409 : 404, error.code, error.message);
+    if (error instanceof AccountError) {
+        const status = error.code === 'INVALID_TOKEN' ? 400
+            : error.code === 'INVALID_PASSWORD' ? 403
+            : 409;
+        return new ApiError(status, error.code, error.message);
+    }
+}
+
+app.use(routeNotFound);
+app.use(errorHandler(domainError));
+
+export default app;
\ No newline at end of file
@@ -0,0 +1,18 @@
+import type { Role } from '../generated/prisma/client/client.js';
+
+declare global {
+    namespace Express {
+        interface Request {
+            // Preenchido pelo middleware `authenticate`
+            user?: {
+                id: string;
+                name: string;
+                email: string;
+                role: Role;
+                shop: { id: string } | null;
+            };
+        }
+    }
+}
+
+export {};